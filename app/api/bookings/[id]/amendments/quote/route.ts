@@ -0,0 +1,90 @@
+/**
+ * Amendment Quote API
+ *
+ * POST /api/bookings/:id/amendments/quote
+ * Prices a change to a booking (dates, travelers, or a swapped component)
+ * after checking the changed components are available. Nothing changes
+ * until the returned quote is booked with POST /api/bookings/:id/amendments.
+ * Only staff and the booking's customer may ask (see lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { AmendmentError, amendmentService, toAmendmentQuoteResponse } from '@/lib/amendment-service';
+import { resolveBookingActor } from '@/lib/booking-access';
+import type { AmendmentQuoteRequest, AmendmentQuoteResponse } from '@/types/api';
+
+const ERROR_STATUS: Record<AmendmentError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_AMENDABLE: 422,
+  NON_REFUNDABLE: 422,
+  UNAVAILABLE: 409,
+  CONFLICT: 409,
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!(await resolveBookingActor(request, id))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Quoting an amendment requires a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as Omit<AmendmentQuoteRequest, 'bookingId'> | null;
+
+  if (!body?.change) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'A change is required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const { checkInDate, checkOutDate, ...change } = body.change;
+
+  if (
+    (checkInDate && isNaN(Date.parse(checkInDate))) ||
+    (checkOutDate && isNaN(Date.parse(checkOutDate))) ||
+    (checkInDate && checkOutDate && Date.parse(checkInDate) >= Date.parse(checkOutDate))
+  ) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'checkInDate and checkOutDate must be dates with check-in first', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const amendment = await amendmentService.quoteAmendment(id, {
+      ...change,
+      checkInDate: checkInDate ? new Date(checkInDate) : undefined,
+      checkOutDate: checkOutDate ? new Date(checkOutDate) : undefined,
+    });
+
+    const result: AmendmentQuoteResponse = toAmendmentQuoteResponse(amendment);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof AmendmentError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'AMENDMENT_QUOTE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 422,
+      },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Booking Amendments API
+ *
+ * GET /api/bookings/:id/amendments
+ * Lists the amendments of a booking, oldest first.
+ *
+ * POST /api/bookings/:id/amendments
+ * Applies an amendment priced by POST /api/bookings/:id/amendments/quote and
+ * returns the supplementary or corrective invoice for the difference. An
+ * expired quote whose price changed is refused with a 409, like a booking.
+ *
+ * Only staff and the booking's customer may see or amend a booking (see
+ * lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { AmendmentError, amendmentService } from '@/lib/amendment-service';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { QuotePriceChangedError } from '@/lib/quote-service';
+import type { AmendBookingRequest, AmendBookingResponse, BookingAmendmentsResponse } from '@/types/api';
+
+const ERROR_STATUS: Record<AmendmentError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_AMENDABLE: 422,
+  NON_REFUNDABLE: 422,
+  UNAVAILABLE: 409,
+  CONFLICT: 409,
+};
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!(await resolveBookingActor(request, id))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Listing amendments requires a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  const result: BookingAmendmentsResponse = {
+    bookingId: id,
+    amendments: await amendmentService.getAmendments(id),
+  };
+
+  return NextResponse.json(result);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const actor = await resolveBookingActor(request, id);
+
+  if (!actor) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Amending a booking requires a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as Omit<AmendBookingRequest, 'bookingId'> | null;
+
+  if (!body?.quoteId) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'The quoteId of an amendment quote is required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: AmendBookingResponse = await amendmentService.amendBooking(id, body.quoteId, {
+      actor,
+      reason: body.reason,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof QuotePriceChangedError) {
+      return NextResponse.json(
+        {
+          code: 'PRICE_CHANGED',
+          message: error.message,
+          details: { quoteId: error.quoteId, priceChanges: error.priceChanges },
+          statusCode: 409,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof AmendmentError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'AMENDMENT_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 422,
+      },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Cancel Booking API
+ *
+ * POST /api/bookings/:id/cancel
+ * Cancels a booking under its cancellation policies and books the refund
+ * (pending refund to the original payment, or credit for CREDIT), with the
+ * credit note documenting it.
+ * Send the refundAmount of the cancellation quote as acceptedRefundAmount
+ * to get a 409 instead of a different refund. Only staff and the booking's
+ * customer may cancel (see lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { BookingTransitionError } from '@/lib/booking-state-machine';
+import { cancellationService, RefundChangedError, toCancellationQuoteResponse } from '@/lib/cancellation-service';
+import { InvoiceError } from '@/lib/invoice-service';
+import type { CancelBookingRequest, CancelBookingResponse } from '@/types/api';
+import type { RefundMethod } from '@/types/package';
+
+const REFUND_METHODS: RefundMethod[] = ['ORIGINAL', 'CREDIT', 'NONE'];
+
+const ERROR_STATUS: Record<BookingTransitionError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_TRANSITION: 422,
+  GUARD_FAILED: 422,
+  CONFLICT: 409,
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const actor = await resolveBookingActor(request, id);
+
+  if (!actor) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Cancelling a booking requires a valid staff key or its booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Partial<CancelBookingRequest>;
+
+  if (body.refundMethod !== undefined && !REFUND_METHODS.includes(body.refundMethod)) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: `Unknown refund method ${body.refundMethod}`, statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: CancelBookingResponse = await cancellationService.cancelBooking({ ...body, bookingId: id }, { actor });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof RefundChangedError) {
+      return NextResponse.json(
+        {
+          code: 'REFUND_CHANGED',
+          message: error.message,
+          details: { quote: toCancellationQuoteResponse(error.quote) },
+          statusCode: 409,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof BookingTransitionError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode },
+        { status: statusCode }
+      );
+    }
+
+    // The refund's credit note must be valid before anything is cancelled
+    if (error instanceof InvoiceError) {
+      return NextResponse.json(
+        {
+          code: error.code,
+          message: error.message,
+          ...(error.issues.length > 0 ? { details: { issues: error.issues } } : {}),
+          statusCode: 422,
+        },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'CANCELLATION_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 422,
+      },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Cancellation Quote API
+ *
+ * GET /api/bookings/:id/cancellation-quote?refundMethod=ORIGINAL|CREDIT|NONE
+ * Returns the cancellation fee and refund per component, as they would
+ * apply if the booking were cancelled now. Nothing is cancelled. Only
+ * staff and the booking's customer may ask (see lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { BookingTransitionError } from '@/lib/booking-state-machine';
+import { cancellationService, toCancellationQuoteResponse } from '@/lib/cancellation-service';
+import { assertNoInternalPricing } from '@/lib/opaque-pricing';
+import type { CancellationQuoteResponse } from '@/types/api';
+import type { RefundMethod } from '@/types/package';
+
+const REFUND_METHODS: RefundMethod[] = ['ORIGINAL', 'CREDIT', 'NONE'];
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!(await resolveBookingActor(request, id))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Cancellation quotes require a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  const refundMethod = (new URL(request.url).searchParams.get('refundMethod') || 'ORIGINAL') as RefundMethod;
+
+  if (!REFUND_METHODS.includes(refundMethod)) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: `Unknown refund method ${refundMethod}`, statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await cancellationService.quoteCancellation(id, { refundMethod });
+    const result: CancellationQuoteResponse = toCancellationQuoteResponse(quote);
+
+    assertNoInternalPricing(result);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      const statusCode = error.code === 'NOT_FOUND' ? 404 : 422;
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'CANCELLATION_QUOTE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Booking History API
+ *
+ * GET /api/bookings/:id/history
+ * Returns every status change of a booking, oldest first (staff only, as
+ * it names who made each change).
+ */
+
+import { NextResponse } from 'next/server';
+import { bookingStateMachine } from '@/lib/booking-state-machine';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { BookingHistoryResponse } from '@/types/api';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Booking history requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const history = await bookingStateMachine.getHistory(id);
+
+  if (history.length === 0) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `Booking ${id} not found`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  const result: BookingHistoryResponse = { bookingId: id, history };
+  return NextResponse.json(result);
+}
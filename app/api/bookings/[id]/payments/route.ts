@@ -0,0 +1,78 @@
+/**
+ * Booking Payments API
+ *
+ * POST /api/bookings/:id/payments
+ * Records a payment the payment provider confirmed, or a transfer or cash
+ * payment staff received (staff only). The payment that settles a
+ * CONFIRMED booking moves it to PAID and makes its inventory hold firm.
+ */
+
+import { NextResponse } from 'next/server';
+import { bookingService, PaymentError } from '@/lib/booking-service';
+import { BookingTransitionError } from '@/lib/booking-state-machine';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { RecordPaymentRequest, RecordPaymentResponse } from '@/types/api';
+
+const PAYMENT_METHODS: RecordPaymentRequest['method'][] = ['CARD', 'BANK_TRANSFER', 'CASH', 'CIS'];
+
+const ERROR_STATUS: Record<PaymentError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_PAYMENT: 422,
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Recording a payment requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as Omit<RecordPaymentRequest, 'bookingId'> | null;
+
+  if (!body || typeof body.amount !== 'number' || !body.currency || !PAYMENT_METHODS.includes(body.method)) {
+    return NextResponse.json(
+      {
+        code: 'INVALID_REQUEST',
+        message: `amount, currency and a method (${PAYMENT_METHODS.join(', ')}) are required`,
+        statusCode: 400,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: RecordPaymentResponse = await bookingService.recordPayment({ ...body, bookingId: id });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode },
+        { status: statusCode }
+      );
+    }
+
+    // The payment is recorded; only moving the booking to PAID failed
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode: 409 },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'PAYMENT_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
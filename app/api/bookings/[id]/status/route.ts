@@ -0,0 +1,88 @@
+/**
+ * Booking Status Transition API
+ *
+ * POST /api/bookings/:id/status
+ * Moves a booking to a new status (staff only). Transitions outside the
+ * state machine, or refused by a guard, come back as a 422; a concurrent
+ * transition that got there first as a 409.
+ * Moving to PAID makes the inventory hold firm, as a settling payment does.
+ * Cancelling isn't done here: POST /api/bookings/:id/cancel also releases
+ * the inventory and books the refund with its credit note.
+ */
+
+import { NextResponse } from 'next/server';
+import { bookingStateMachine, BookingTransitionError } from '@/lib/booking-state-machine';
+import { inventoryService } from '@/lib/inventory-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { BookingTransitionRequest, BookingTransitionResponse } from '@/types/api';
+
+const ERROR_STATUS: Record<BookingTransitionError['code'], number> = {
+  NOT_FOUND: 404,
+  INVALID_TRANSITION: 422,
+  GUARD_FAILED: 422,
+  CONFLICT: 409,
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Changing a booking status requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as Omit<BookingTransitionRequest, 'bookingId'> | null;
+
+  if (!body?.status || !body.actor) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'A target status and actor are required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  if (body.status === 'CANCELLED') {
+    return NextResponse.json(
+      {
+        code: 'INVALID_TRANSITION',
+        message: `Cancel bookings through POST /api/bookings/${id}/cancel, which books the refund`,
+        statusCode: 422,
+      },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const { change } = await bookingStateMachine.transition(id, body.status, {
+      actor: body.actor,
+      reason: body.reason,
+      effects: body.status === 'PAID'
+        ? tx => inventoryService.confirmBookingHold(tx, id)
+        : undefined,
+    });
+
+    const result: BookingTransitionResponse = { status: change.toStatus, change };
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        { code: error.code, message: error.message, statusCode },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'TRANSITION_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Booking API
+ *
+ * POST /api/bookings
+ * Books an itinerary at its quoted price. When the quote has expired and
+ * re-pricing changed the total, nothing is booked: the response is a 409 with
+ * the price change and the new quote to confirm. A hold that expired, was
+ * placed for another selection, or inventory that sold out in the meantime
+ * is a 409 too.
+ */
+
+import { NextResponse } from 'next/server';
+import { bookingService } from '@/lib/booking-service';
+import { QuotePriceChangedError } from '@/lib/quote-service';
+import { HoldMismatchError, InventoryUnavailableError } from '@/lib/inventory-service';
+import type { CreateBookingRequest, CreateBookingResponse } from '@/types/api';
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as CreateBookingRequest | null;
+
+  if (!body || !body.customer?.name || !body.customer?.email) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'Customer name and email are required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  if (!body.quoteId && !body.itinerary) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'A quoteId or an itinerary is required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  // Booked without a quote, the itinerary is priced from its dates
+  const checkIn = body.itinerary?.checkInDate && new Date(body.itinerary.checkInDate).getTime();
+  const checkOut = body.itinerary?.checkOutDate && new Date(body.itinerary.checkOutDate).getTime();
+
+  if (!body.quoteId && (!checkIn || !checkOut || !(checkIn < checkOut))) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'An itinerary without a quoteId needs a checkInDate before checkOutDate', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: CreateBookingResponse = await bookingService.createBooking(body);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof QuotePriceChangedError) {
+      return NextResponse.json(
+        {
+          code: 'PRICE_CHANGED',
+          message: error.message,
+          details: { quoteId: error.quoteId, priceChanges: error.priceChanges },
+          statusCode: 409,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof HoldMismatchError) {
+      return NextResponse.json(
+        { code: 'HOLD_MISMATCH', message: error.message, details: { holdId: error.holdId }, statusCode: 409 },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof InventoryUnavailableError) {
+      return NextResponse.json(
+        { code: 'UNAVAILABLE', message: error.message, statusCode: 409 },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'BOOKING_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 422,
+      },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Booking Status API
+ *
+ * GET /api/bookings/status?bookingReference=...&customerEmail=...
+ * Returns the booking status together with its payment status. Customers
+ * look their booking up by its reference and the email they booked with;
+ * staff may also pass ?bookingId=... or the reference alone.
+ */
+
+import { NextResponse } from 'next/server';
+import { bookingService } from '@/lib/booking-service';
+import { ownsBooking } from '@/lib/booking-access';
+import { isStaffRequest } from '@/lib/staff-auth';
+
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const staff = isStaffRequest(request);
+  const bookingId = (staff && searchParams.get('bookingId')) || undefined;
+  const bookingReference = searchParams.get('bookingReference') || undefined;
+  const customerEmail = searchParams.get('customerEmail');
+  const proof = bookingReference && customerEmail ? { bookingReference, customerEmail } : null;
+
+  if (staff ? !bookingId && !bookingReference : !proof) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'A bookingReference and customerEmail are required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const result = await bookingService.getBookingStatus({ bookingId, bookingReference });
+
+  // A wrong email reads as a missing booking, so references can't be probed
+  if (!result || (!staff && !(proof && ownsBooking(result.itinerary, proof)))) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `Booking ${bookingId || bookingReference} not found`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,45 @@
+/**
+ * Credit Note XML API
+ *
+ * GET /api/credit-notes/:id/xml
+ * Returns the UBL 2.1 CreditNote XML of an issued credit note (an Invoice
+ * of type 383 for debit notes), as it was issued and validated. Only staff
+ * and the booking's customer may fetch it (see lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { creditNoteService } from '@/lib/credit-note-service';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const note = await creditNoteService.getNoteXml(id);
+
+  if (!note) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `No credit note ${id} with a UBL document`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  if (!(await resolveBookingActor(request, note.itineraryId))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Credit note XML requires a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  return new NextResponse(note.xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Content-Disposition': `inline; filename="${note.creditNoteNumber}.xml"`,
+    },
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Exchange Rate Import API
+ *
+ * POST /api/exchange-rates/import
+ * Imports an NBS exchange rate list exported as CSV or XML (staff only).
+ * Rates are stored per effective date, so importing a list again replaces
+ * its rates. A list that can't be read imports nothing and is a 422.
+ */
+
+import { NextResponse } from 'next/server';
+import { currencyService, RateListError } from '@/lib/currency-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { ExchangeRateImportRequest, ExchangeRateImportResponse } from '@/types/api';
+
+const RATE_TYPES: NonNullable<ExchangeRateImportRequest['rateType']>[] = ['BUYING', 'MIDDLE', 'SELLING'];
+
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Importing exchange rates requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as ExchangeRateImportRequest | null;
+  const effectiveDate = body?.effectiveDate ? new Date(body.effectiveDate) : undefined;
+
+  if (
+    !body?.content ||
+    (body.format !== 'CSV' && body.format !== 'XML') ||
+    (body.rateType && !RATE_TYPES.includes(body.rateType)) ||
+    (effectiveDate && isNaN(effectiveDate.getTime()))
+  ) {
+    return NextResponse.json(
+      {
+        code: 'INVALID_REQUEST',
+        message: 'content and a format of CSV or XML are required; effectiveDate must be a date',
+        statusCode: 400,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: ExchangeRateImportResponse = await currencyService.importRates(body.content, body.format, {
+      rateType: body.rateType,
+      effectiveDate,
+    });
+
+    if (result.imported === 0) {
+      return NextResponse.json(
+        { code: 'INVALID_RATE_LIST', message: 'The list contains no exchange rates', statusCode: 422 },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof RateListError) {
+      return NextResponse.json(
+        { code: 'INVALID_RATE_LIST', message: error.message, statusCode: 422 },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'IMPORT_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
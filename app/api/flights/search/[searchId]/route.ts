@@ -0,0 +1,36 @@
+/**
+ * Flight Search Results API
+ *
+ * GET /api/flights/search/:searchId?page=2&perPage=20&directOnly=true
+ * Pages and filters an earlier flight search without asking the suppliers
+ * again. Searches past their validUntil, or invalidated by an inventory or
+ * margin change, are a 404; search again then.
+ */
+
+import { NextResponse } from 'next/server';
+import { searchService } from '@/lib/search-service';
+import type { FlightSearchResponse } from '@/types/api';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  const { searchId } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const response: FlightSearchResponse | null = await searchService.getFlightResults({
+    searchId,
+    page: searchParams.has('page') ? Number(searchParams.get('page')) : undefined,
+    perPage: searchParams.has('perPage') ? Number(searchParams.get('perPage')) : undefined,
+    directOnly: searchParams.get('directOnly') === 'true',
+  });
+
+  if (!response) {
+    return NextResponse.json(
+      { code: 'SEARCH_EXPIRED', message: `Search ${searchId} has expired or doesn't exist`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(response);
+}
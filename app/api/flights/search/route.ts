@@ -0,0 +1,35 @@
+/**
+ * Flight Search API
+ *
+ * POST /api/flights/search
+ * Searches every active supplier and returns each flight once, from the
+ * supplier with the cheapest net fare. Suppliers that failed or timed out
+ * are listed in failedSuppliers; the flights of the others still come back.
+ * The same search is answered from the cache until its validUntil; page
+ * through it with GET /api/flights/search/:searchId.
+ */
+
+import { NextResponse } from 'next/server';
+import { searchService } from '@/lib/search-service';
+import type { FlightSearchRequest, FlightSearchResponse } from '@/types/api';
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as FlightSearchRequest | null;
+
+  if (
+    !body ||
+    !body.origin ||
+    !body.destination ||
+    isNaN(Date.parse(body.departureDate)) ||
+    (body.returnDate !== undefined && isNaN(Date.parse(body.returnDate)))
+  ) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'origin, destination and a valid departureDate are required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const response: FlightSearchResponse = await searchService.searchFlights(body);
+
+  return NextResponse.json(response);
+}
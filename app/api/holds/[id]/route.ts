@@ -0,0 +1,54 @@
+/**
+ * Inventory Hold API
+ *
+ * GET /api/holds/:id
+ * Returns a hold and when it lapses.
+ *
+ * DELETE /api/holds/:id
+ * Gives the held seats and rooms back when the customer leaves the review
+ * step. Holds that were booked are released by cancelling the booking.
+ */
+
+import { NextResponse } from 'next/server';
+import { inventoryService } from '@/lib/inventory-service';
+import type { InventoryHoldResponse } from '@/types/api';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const hold = await inventoryService.getHold(id);
+
+  if (!hold) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `Hold ${id} not found`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  const response: InventoryHoldResponse = {
+    holdId: hold.id,
+    status: hold.status,
+    expiresAt: hold.expiresAt.toISOString(),
+  };
+
+  return NextResponse.json(response);
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const released = await inventoryService.releaseHold(id);
+
+  if (!released) {
+    return NextResponse.json(
+      { code: 'NOT_RELEASABLE', message: `Hold ${id} doesn't exist, has ended or belongs to a booking`, statusCode: 409 },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
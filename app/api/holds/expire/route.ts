@@ -0,0 +1,25 @@
+/**
+ * Inventory Hold Expiry API
+ *
+ * POST /api/holds/expire
+ * Expires every lapsed hold and returns its inventory (staff only). Meant
+ * to be called by a scheduler; new holds also sweep the flight and room
+ * they are placed on.
+ */
+
+import { NextResponse } from 'next/server';
+import { inventoryService } from '@/lib/inventory-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Expiring holds requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const expired = await inventoryService.releaseExpiredHolds();
+
+  return NextResponse.json({ expired });
+}
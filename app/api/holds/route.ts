@@ -0,0 +1,58 @@
+/**
+ * Inventory Hold API
+ *
+ * POST /api/holds
+ * Holds the seats and rooms of a quote while the customer reviews it. The
+ * hold lapses at the returned expiresAt unless it is booked (pass holdId to
+ * POST /api/bookings); sold-out inventory comes back as a 409.
+ */
+
+import { NextResponse } from 'next/server';
+import { inventoryService, InventoryUnavailableError } from '@/lib/inventory-service';
+import type { InventoryHoldRequest, InventoryHoldResponse } from '@/types/api';
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as InventoryHoldRequest | null;
+
+  if (!body || !body.quoteId) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'quoteId is required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const hold = await inventoryService.holdQuote(body.quoteId);
+
+    if (!hold) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: `Quote ${body.quoteId} not found or already booked`, statusCode: 404 },
+        { status: 404 }
+      );
+    }
+
+    const response: InventoryHoldResponse = {
+      holdId: hold.id,
+      status: hold.status,
+      expiresAt: hold.expiresAt.toISOString(),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof InventoryUnavailableError) {
+      return NextResponse.json(
+        { code: 'UNAVAILABLE', message: error.message, statusCode: 409 },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'HOLD_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
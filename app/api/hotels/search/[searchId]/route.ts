@@ -0,0 +1,39 @@
+/**
+ * Hotel Search Results API
+ *
+ * GET /api/hotels/search/:searchId?page=2&perPage=20&stars=4,5&amenities=Pool,Spa&maxPrice=150
+ * Pages and filters an earlier hotel search without asking the suppliers
+ * again. Searches past their validUntil, or invalidated by an inventory or
+ * margin change, are a 404; search again then.
+ */
+
+import { NextResponse } from 'next/server';
+import { searchService } from '@/lib/search-service';
+import type { HotelSearchResponse } from '@/types/api';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  const { searchId } = await params;
+  const { searchParams } = new URL(request.url);
+  const list = (name: string) => searchParams.get(name)?.split(',').filter(Boolean);
+
+  const response: HotelSearchResponse | null = await searchService.getHotelResults({
+    searchId,
+    page: searchParams.has('page') ? Number(searchParams.get('page')) : undefined,
+    perPage: searchParams.has('perPage') ? Number(searchParams.get('perPage')) : undefined,
+    stars: list('stars')?.map(Number),
+    amenities: list('amenities'),
+    maxPrice: searchParams.has('maxPrice') ? Number(searchParams.get('maxPrice')) : undefined,
+  });
+
+  if (!response) {
+    return NextResponse.json(
+      { code: 'SEARCH_EXPIRED', message: `Search ${searchId} has expired or doesn't exist`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(response);
+}
@@ -0,0 +1,36 @@
+/**
+ * Hotel Search API
+ *
+ * POST /api/hotels/search
+ * Searches every active supplier and returns each property once, from the
+ * supplier with the cheapest room, even when suppliers spell or place it
+ * slightly differently. Suppliers that failed or timed out are listed in
+ * failedSuppliers; the hotels of the others still come back. The same
+ * search is answered from the cache until its validUntil; page and filter
+ * it with GET /api/hotels/search/:searchId.
+ */
+
+import { NextResponse } from 'next/server';
+import { searchService } from '@/lib/search-service';
+import type { HotelSearchRequest, HotelSearchResponse } from '@/types/api';
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as HotelSearchRequest | null;
+
+  if (
+    !body ||
+    !body.city ||
+    isNaN(Date.parse(body.checkInDate)) ||
+    isNaN(Date.parse(body.checkOutDate)) ||
+    Date.parse(body.checkInDate) >= Date.parse(body.checkOutDate)
+  ) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'city and a checkInDate before checkOutDate are required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const response: HotelSearchResponse = await searchService.searchHotels(body);
+
+  return NextResponse.json(response);
+}
@@ -0,0 +1,80 @@
+/**
+ * Invoice Credit Notes API
+ *
+ * POST /api/invoices/:id/credit-notes
+ * Staff only. Corrects an issued invoice with a credit note (in full when
+ * no lines are given, otherwise per invoice line) or, with noteType DEBIT,
+ * a debit note. Returns the xmlUrl of the UBL document. An invoice its
+ * credit notes reverse in full is cancelled.
+ */
+
+import { NextResponse } from 'next/server';
+import { creditNoteService } from '@/lib/credit-note-service';
+import { InvoiceError } from '@/lib/invoice-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { CreditNoteRequest, CreditNoteResponse } from '@/types/api';
+
+const ERROR_STATUS: Record<InvoiceError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_INVOICEABLE: 422,
+  ALREADY_INVOICED: 409,
+  INVALID: 422,
+  CONFLICT: 409,
+};
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Only staff may correct invoices', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as Partial<CreditNoteRequest>;
+
+  if (
+    (body.noteType && body.noteType !== 'CREDIT' && body.noteType !== 'DEBIT') ||
+    (body.lines && (!Array.isArray(body.lines) || body.lines.some(line => !line?.itemId)))
+  ) {
+    return NextResponse.json(
+      {
+        code: 'INVALID_REQUEST',
+        message: 'noteType must be CREDIT or DEBIT and every line needs the itemId of an invoice line',
+        statusCode: 400,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: CreditNoteResponse = await creditNoteService.issueNote({ ...body, invoiceId: id });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        {
+          code: error.code,
+          message: error.message,
+          ...(error.issues.length > 0 ? { details: { issues: error.issues } } : {}),
+          statusCode,
+        },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'CREDIT_NOTE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Invoice Payment QR API
+ *
+ * GET /api/invoices/:id/qr?format=svg|png
+ * Returns the NBS IPS QR code of an issued invoice, for printing on its PDF
+ * or embedding in an email. Only RSD invoices still to be paid by transfer
+ * have one. The code names the payer, so only staff and the booking's
+ * customer may fetch it (see lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { invoiceService } from '@/lib/invoice-service';
+import { renderIpsQrPng, renderIpsQrSvg } from '@/lib/payment-slip';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const format = new URL(request.url).searchParams.get('format') || 'svg';
+
+  if (format !== 'svg' && format !== 'png') {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'format must be svg or png', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const qr = await invoiceService.getPaymentQr(id);
+
+  if (!qr) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `Invoice ${id} has no payment QR code`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  if (!(await resolveBookingActor(request, qr.itineraryId))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Payment QR codes require a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  const body = format === 'png' ? new Uint8Array(await renderIpsQrPng(qr.payload)) : await renderIpsQrSvg(qr.payload);
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': format === 'png' ? 'image/png' : 'image/svg+xml',
+      'Content-Disposition': `inline; filename="${qr.invoiceNumber}.${format}"`,
+    },
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Invoice XML API
+ *
+ * GET /api/invoices/:id/xml
+ * Returns the UBL 2.1 Invoice XML of an issued invoice, as it was issued
+ * and validated. Only staff and the booking's customer may fetch it (see
+ * lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { invoiceService } from '@/lib/invoice-service';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const invoice = await invoiceService.getInvoiceXml(id);
+
+  if (!invoice) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `No issued invoice ${id}`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  if (!(await resolveBookingActor(request, invoice.itineraryId))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'Invoice XML requires a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  return new NextResponse(invoice.xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Content-Disposition': `inline; filename="${invoice.invoiceNumber}.xml"`,
+    },
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Advance Invoices API
+ *
+ * POST /api/invoices/advance
+ * Issues the advance invoice (avansna faktura) for an approved payment of a
+ * booking that has no final invoice yet. The buyer defaults to the booking's
+ * customer. The final invoice deducts it later. Staff only, like the final
+ * invoice.
+ */
+
+import { NextResponse } from 'next/server';
+import { InvoiceError, invoiceService } from '@/lib/invoice-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { AdvanceInvoiceRequest, CreateInvoiceResponse } from '@/types/api';
+
+const ERROR_STATUS: Record<InvoiceError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_INVOICEABLE: 422,
+  ALREADY_INVOICED: 409,
+  INVALID: 422,
+  CONFLICT: 409,
+};
+
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Issuing invoices requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as AdvanceInvoiceRequest | null;
+
+  if (!body?.paymentId || (body.customerInfo && !body.customerInfo.name)) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'paymentId is required, and customerInfo.name when customerInfo is given', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: CreateInvoiceResponse = await invoiceService.issueAdvanceInvoice(body);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        {
+          code: error.code,
+          message: error.message,
+          ...(error.issues.length > 0 ? { details: { issues: error.issues } } : {}),
+          statusCode,
+        },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'INVOICE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Invoices API
+ *
+ * POST /api/invoices
+ * Issues the final SEF e-invoice of a confirmed booking from its booked
+ * price components, deducting the advance invoices issued so far, and
+ * returns the xmlUrl of the UBL document (staff only: an issued invoice
+ * can't be withdrawn and takes a number of the gapless series). Staff may
+ * pass their own lineItems. An invoice that breaks a SEF rule or the UBL
+ * schema is refused with a 422 listing the issues.
+ */
+
+import { NextResponse } from 'next/server';
+import { InvoiceError, invoiceService } from '@/lib/invoice-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { CreateInvoiceRequest, CreateInvoiceResponse } from '@/types/api';
+
+const ERROR_STATUS: Record<InvoiceError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_INVOICEABLE: 422,
+  ALREADY_INVOICED: 409,
+  INVALID: 422,
+  CONFLICT: 409,
+};
+
+const PAYMENT_METHODS: CreateInvoiceRequest['paymentMethod'][] = ['CASH', 'CARD', 'BANK_TRANSFER', 'CIS'];
+
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Issuing invoices requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as CreateInvoiceRequest | null;
+
+  if (!body?.itineraryId || !body.customerInfo?.name || !PAYMENT_METHODS.includes(body.paymentMethod)) {
+    return NextResponse.json(
+      {
+        code: 'INVALID_REQUEST',
+        message: 'itineraryId, customerInfo.name and a paymentMethod of CASH, CARD, BANK_TRANSFER or CIS are required',
+        statusCode: 400,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result: CreateInvoiceResponse = await invoiceService.createInvoice(body);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      const statusCode = ERROR_STATUS[error.code];
+      return NextResponse.json(
+        {
+          code: error.code,
+          message: error.message,
+          ...(error.issues.length > 0 ? { details: { issues: error.issues } } : {}),
+          statusCode,
+        },
+        { status: statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        code: 'INVOICE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Itinerary Invoices API
+ *
+ * GET /api/itineraries/:id/invoices
+ * Returns the invoice ledger of a booking: its advance and final invoices,
+ * amendment invoices and credit notes oldest first, with what was invoiced,
+ * paid and is still open. Only staff and the booking's customer may see it
+ * (see lib/booking-access.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveBookingActor } from '@/lib/booking-access';
+import { invoiceService } from '@/lib/invoice-service';
+import type { InvoiceLedgerResponse } from '@/types/api';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!(await resolveBookingActor(request, id))) {
+    return NextResponse.json(
+      {
+        code: 'FORBIDDEN',
+        message: 'The invoice ledger requires a valid staff key or the booking reference and customer email',
+        statusCode: 403,
+      },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const ledger: InvoiceLedgerResponse | null = await invoiceService.getLedger(id);
+
+    if (!ledger) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: `Itinerary ${id} not found`, statusCode: 404 },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(ledger);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        code: 'LEDGER_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Itinerary Price API
+ *
+ * GET /api/itineraries/:id/price
+ * Returns the customer view of the itinerary's price breakdown. Opaque
+ * itineraries come back as a single package price. Staff get the full
+ * breakdown with ?audience=STAFF and a valid X-Staff-Key header.
+ */
+
+import { NextResponse } from 'next/server';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { assertNoInternalPricing } from '@/lib/opaque-pricing';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { ItineraryPriceResponse } from '@/types/api';
+import type { PricingAudience } from '@/types/package';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const audience: PricingAudience = new URL(request.url).searchParams.get('audience') === 'STAFF'
+    ? 'STAFF'
+    : 'CUSTOMER';
+
+  if (audience === 'STAFF' && !isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'The staff price view requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const view: ItineraryPriceResponse | null = await packagingEngine.getItineraryPriceView(id, audience);
+
+    if (!view) {
+      return NextResponse.json(
+        { code: 'NOT_FOUND', message: `No priced itinerary ${id}`, statusCode: 404 },
+        { status: 404 }
+      );
+    }
+
+    if (audience === 'CUSTOMER') {
+      assertNoInternalPricing(view);
+    }
+
+    return NextResponse.json(view);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        code: 'PRICE_VIEW_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
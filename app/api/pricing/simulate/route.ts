@@ -0,0 +1,71 @@
+/**
+ * Margin Rule Simulation API
+ *
+ * POST /api/pricing/simulate
+ * Replays a hypothetical margin rule set against recent itineraries without
+ * persisting anything, so a rule can be evaluated before it is activated
+ * (staff only, since it shows every itinerary's margin).
+ */
+
+import { NextResponse } from 'next/server';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { MarginSimulationRequest, MarginSimulationResponse } from '@/types/api';
+import type { MarginRule } from '@/types/package';
+
+const MAX_SIMULATION_LIMIT = 1000;
+
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Simulating margin rules requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as MarginSimulationRequest | null;
+
+  if (!body || !Array.isArray(body.rules) || body.rules.length === 0) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'At least one margin rule is required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const invalidRule = body.rules.find(rule => !rule.ruleName || typeof rule.marginPercent !== 'number');
+  if (invalidRule) {
+    return NextResponse.json(
+      { code: 'INVALID_RULE', message: 'Every rule needs a ruleName and a numeric marginPercent', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const rules: MarginRule[] = body.rules.map((rule, index) => ({
+    ...rule,
+    id: rule.id || `simulated-${index + 1}`,
+    marginFixed: rule.marginFixed ?? 0,
+    combinationMode: rule.combinationMode ?? 'STACK',
+    stopProcessing: rule.stopProcessing ?? false,
+    isActive: true,
+    priority: rule.priority ?? 0,
+  }));
+
+  try {
+    const result: MarginSimulationResponse = await packagingEngine.simulateMarginRules(rules, {
+      limit: Math.min(body.limit ?? 100, MAX_SIMULATION_LIMIT),
+      includeActiveRules: body.includeActiveRules ?? true,
+      currency: body.currency,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        code: 'SIMULATION_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 500,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Quote Lookup API
+ *
+ * GET /api/quotes/:id
+ * Returns the locked price and its expiry. Expired quotes are reported as
+ * such; they are only re-priced when booked.
+ */
+
+import { NextResponse } from 'next/server';
+import { quoteService, toQuoteResponse } from '@/lib/quote-service';
+import type { QuoteResponse } from '@/types/api';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const quote = await quoteService.getQuote(id);
+
+  if (!quote) {
+    return NextResponse.json(
+      { code: 'NOT_FOUND', message: `Quote ${id} not found`, statusCode: 404 },
+      { status: 404 }
+    );
+  }
+
+  const result: QuoteResponse = toQuoteResponse(
+    quote.status === 'ACTIVE' && quote.validUntil <= new Date()
+      ? { ...quote, status: 'EXPIRED' }
+      : quote
+  );
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,72 @@
+/**
+ * Quote API
+ *
+ * POST /api/quotes
+ * Prices the selected flight, room and transfer and locks the price until
+ * the returned validUntil. Book it by passing the quoteId to POST /api/bookings.
+ * Whether the package is opaque follows its blueprint, hotel and suppliers;
+ * only staff may set opaqueMask themselves.
+ */
+
+import { NextResponse } from 'next/server';
+import { quoteService, toQuoteResponse } from '@/lib/quote-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import { resolveTravelerComposition } from '@/lib/travelers';
+import type { QuoteRequest, QuoteResponse } from '@/types/api';
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as QuoteRequest | null;
+
+  if (
+    !body ||
+    isNaN(Date.parse(body.checkInDate)) ||
+    isNaN(Date.parse(body.checkOutDate)) ||
+    Date.parse(body.checkInDate) >= Date.parse(body.checkOutDate)
+  ) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'A checkInDate before checkOutDate is required', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  if (!body.flightId && !body.roomId && !body.transferId) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'Select at least a flight, a room or a transfer', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const quote = await quoteService.createQuote(
+      {
+        flightId: body.flightId,
+        hotelId: body.hotelId,
+        roomId: body.roomId,
+        transferId: body.transferId,
+        checkInDate: new Date(body.checkInDate),
+        checkOutDate: new Date(body.checkOutDate),
+        travelers: resolveTravelerComposition(body.travelers, body.travelerComposition),
+        rooms: body.rooms,
+        packageBlueprintId: body.packageBlueprintId,
+      },
+      {
+        currency: body.currency,
+        taxMode: body.taxMode,
+        category: body.category,
+        opaqueMask: isStaffRequest(request) ? body.opaqueMask : undefined,
+      }
+    );
+
+    const result: QuoteResponse = toQuoteResponse(quote);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        code: 'QUOTE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        statusCode: 422,
+      },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Room Allotment API
+ *
+ * PUT /api/rooms/:id/allotment
+ * Sets how many rooms are left to sell on each night from `from` up to (not
+ * including) `to` (staff only), overriding the room's defaultAllotment on
+ * those nights.
+ */
+
+import { NextResponse } from 'next/server';
+import { inventoryService } from '@/lib/inventory-service';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { RoomAllotmentRequest } from '@/types/api';
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Setting room allotments requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as RoomAllotmentRequest | null;
+  const from = new Date(body?.from ?? '');
+  const to = new Date(body?.to ?? '');
+
+  if (!body || isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'from and to must be dates with from before to', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(body.available) || body.available < 0) {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'available must be a whole number of rooms', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  const nights = await inventoryService.setRoomAllotment(id, from, to, body.available);
+
+  return NextResponse.json({ roomId: id, nights });
+}
@@ -0,0 +1,35 @@
+/**
+ * Search Cache Invalidation API
+ *
+ * POST /api/search/invalidate
+ * Drops cached flight or hotel searches, or both when no scope is given
+ * (staff only). Call it after changing inventory, prices or margin rules
+ * outside this application.
+ */
+
+import { NextResponse } from 'next/server';
+import { searchCache } from '@/lib/search-cache';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { SearchInvalidationRequest } from '@/types/api';
+
+export async function POST(request: Request) {
+  if (!isStaffRequest(request)) {
+    return NextResponse.json(
+      { code: 'FORBIDDEN', message: 'Invalidating searches requires a valid staff key', statusCode: 403 },
+      { status: 403 }
+    );
+  }
+
+  const body = (await request.json().catch(() => ({}))) as SearchInvalidationRequest;
+
+  if (body.scope && body.scope !== 'FLIGHT' && body.scope !== 'HOTEL') {
+    return NextResponse.json(
+      { code: 'INVALID_REQUEST', message: 'scope must be FLIGHT or HOTEL', statusCode: 400 },
+      { status: 400 }
+    );
+  }
+
+  await searchCache.invalidate(body.scope);
+
+  return NextResponse.json({ success: true, scope: body.scope || 'ALL' });
+}
@@ -15,7 +15,11 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Plane, Hotel, Car } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import type { Flight, Hotel as HotelType, Transfer, PackageBuilderState } from '@/types/package';
+import { apiClient } from '@/lib/api-client';
+import { countTravelers } from '@/lib/travelers';
+import { formatCurrency } from '@/lib/utils';
+import type { QuoteResponse } from '@/types/api';
+import type { Flight, Hotel as HotelType, Room, Transfer, PackageBuilderState } from '@/types/package';
 
 // Mock data for demonstration
 const mockFlights: Flight[] = [
@@ -50,6 +54,20 @@ const mockHotels: HotelType[] = [
   },
 ];
 
+const mockRooms: Room[] = [
+  {
+    id: '1',
+    hotelId: '1',
+    roomType: 'Sea View Double',
+    bedCount: 1,
+    maxOccupancy: 2,
+    amenities: ['Balcony', 'AC'],
+    pricePerNight: 100,
+    currency: 'EUR',
+    available: true,
+  },
+];
+
 const mockTransfers: Transfer[] = [
   {
     id: '1',
@@ -70,39 +88,68 @@ export default function PackageBuilder() {
       checkIn: new Date('2024-07-15'),
       checkOut: new Date('2024-07-22'),
     },
-    travelers: 2,
+    travelers: { adults: 2, childAges: [], infants: 0 },
+    opaqueMask: true,
     step: 'FLIGHT',
   });
 
   const [selectedItems, setSelectedItems] = useState({
     flight: null as Flight | null,
     hotel: null as HotelType | null,
+    room: null as Room | null,
     transfer: null as Transfer | null,
   });
 
+  const [quote, setQuote] = useState<QuoteResponse | null>(null);
+  const [holdFailed, setHoldFailed] = useState(false);
+
   const selectFlight = (flight: Flight) => {
     setSelectedItems({ ...selectedItems, flight });
     setBuilderState({ ...builderState, step: 'HOTEL' });
   };
 
   const selectHotel = (hotel: HotelType) => {
-    setSelectedItems({ ...selectedItems, hotel });
+    const room = mockRooms.find(r => r.hotelId === hotel.id && r.available) || null;
+    setSelectedItems({ ...selectedItems, hotel, room });
     setBuilderState({ ...builderState, step: 'TRANSFER' });
   };
 
-  const selectTransfer = (transfer: Transfer) => {
+  const selectTransfer = async (transfer: Transfer) => {
     setSelectedItems({ ...selectedItems, transfer });
-    setBuilderState({ ...builderState, step: 'REVIEW' });
-  };
+    setBuilderState({ ...builderState, step: 'REVIEW', hold: undefined });
+    setQuote(null);
+    setHoldFailed(false);
 
-  const calculateTotal = () => {
-    let total = 0;
-    if (selectedItems.flight) total += selectedItems.flight.netPrice;
-    if (selectedItems.hotel) total += 100 * 7; // Mock price per night * nights
-    if (selectedItems.transfer) total += selectedItems.transfer.pricePerPerson * builderState.travelers;
-    return total;
+    // The quote is the price the customer pays; hold its seats and rooms while they review
+    const quoted = await apiClient.createQuote({
+      flightId: selectedItems.flight?.id,
+      hotelId: selectedItems.hotel?.id,
+      roomId: selectedItems.room?.id,
+      transferId: transfer.id,
+      checkInDate: builderState.dates.checkIn.toISOString(),
+      checkOutDate: builderState.dates.checkOut.toISOString(),
+      travelers: countTravelers(builderState.travelers),
+      travelerComposition: builderState.travelers,
+    });
+    setQuote(quoted.data || null);
+
+    const hold = quoted.data && await apiClient.createHold({ quoteId: quoted.data.quoteId });
+
+    if (hold?.data) {
+      const { holdId, expiresAt } = hold.data;
+      setBuilderState(state => ({ ...state, hold: { holdId, expiresAt: new Date(expiresAt) } }));
+    } else {
+      setHoldFailed(true);
+    }
   };
 
+  // Opaque packages are sold at one package price; component prices are never rendered
+  const showComponentPrices = !builderState.opaqueMask;
+
+  // Only quoted prices are shown as totals: they include margin and VAT, and
+  // an opaque quote's breakdown is the single package line
+  const packageTotal = quote ? formatCurrency(quote.totalPrice, quote.currency) : null;
+
   return (
     <div className="grid lg:grid-cols-2 gap-8 min-h-[600px]">
       {/* Left: Itinerary Timeline */}
@@ -111,7 +158,7 @@ export default function PackageBuilder() {
           <CardHeader>
             <CardTitle>Your Itinerary</CardTitle>
             <CardDescription>
-              {builderState.travelers} travelers • {builderState.dates.checkIn.toLocaleDateString()} - {builderState.dates.checkOut.toLocaleDateString()}
+              {countTravelers(builderState.travelers)} travelers • {builderState.dates.checkIn.toLocaleDateString()} - {builderState.dates.checkOut.toLocaleDateString()}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -130,7 +177,9 @@ export default function PackageBuilder() {
                     >
                       <p className="font-medium">{selectedItems.flight.flightNumber} - {selectedItems.flight.carrier}</p>
                       <p className="text-sm text-gray-600">{selectedItems.flight.origin} → {selectedItems.flight.destination}</p>
-                      <p className="text-sm font-medium text-blue-600 mt-2">€{selectedItems.flight.netPrice}</p>
+                      {showComponentPrices && (
+                        <p className="text-sm font-medium text-blue-600 mt-2">€{selectedItems.flight.netPrice}</p>
+                      )}
                     </motion.div>
                   ) : (
                     <p className="text-sm text-gray-500">No flight selected</p>
@@ -157,6 +206,12 @@ export default function PackageBuilder() {
                           <span key={i} className="text-yellow-400">★</span>
                         ))}
                       </div>
+                      {selectedItems.room && (
+                        <p className="text-sm font-medium text-green-600 mt-2">
+                          {selectedItems.room.roomType}
+                          {showComponentPrices && ` - €${selectedItems.room.pricePerNight}/night`}
+                        </p>
+                      )}
                     </motion.div>
                   ) : (
                     <p className="text-sm text-gray-500">No hotel selected</p>
@@ -178,7 +233,9 @@ export default function PackageBuilder() {
                     >
                       <p className="font-medium">{selectedItems.transfer.transferType} - {selectedItems.transfer.vehicleType}</p>
                       <p className="text-sm text-gray-600">{selectedItems.transfer.origin} → {selectedItems.transfer.destination}</p>
-                      <p className="text-sm font-medium text-purple-600 mt-2">€{selectedItems.transfer.pricePerPerson}/person</p>
+                      {showComponentPrices && (
+                        <p className="text-sm font-medium text-purple-600 mt-2">€{selectedItems.transfer.pricePerPerson}/person</p>
+                      )}
                     </motion.div>
                   ) : (
                     <p className="text-sm text-gray-500">No transfer selected</p>
@@ -216,7 +273,11 @@ export default function PackageBuilder() {
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="font-bold text-lg">€{flight.netPrice}</p>
+                        {showComponentPrices ? (
+                          <p className="font-bold text-lg">€{flight.netPrice}</p>
+                        ) : (
+                          <p className="text-xs text-gray-500">Included in package price</p>
+                        )}
                         <p className="text-xs text-gray-500">{flight.availableSeats} seats</p>
                       </div>
                     </div>
@@ -289,8 +350,14 @@ export default function PackageBuilder() {
                         <p className="text-xs text-gray-500 mt-1">Capacity: {transfer.capacity} passengers</p>
                       </div>
                       <div className="text-right">
-                        <p className="font-bold text-lg">€{transfer.pricePerPerson}</p>
-                        <p className="text-xs text-gray-500">per person</p>
+                        {showComponentPrices ? (
+                          <>
+                            <p className="font-bold text-lg">€{transfer.pricePerPerson}</p>
+                            <p className="text-xs text-gray-500">per person</p>
+                          </>
+                        ) : (
+                          <p className="text-xs text-gray-500">Included in package price</p>
+                        )}
                       </div>
                     </div>
                   </motion.div>
@@ -310,9 +377,37 @@ export default function PackageBuilder() {
               <div className="space-y-4">
                 <div className="p-4 bg-green-50 rounded-lg">
                   <p className="text-sm text-gray-600">Your package is ready!</p>
-                  <p className="text-2xl font-bold mt-2">€{calculateTotal()}</p>
-                  <p className="text-xs text-gray-500">Total for {builderState.travelers} travelers</p>
+                  {quote ? (
+                    <>
+                      <p className="text-2xl font-bold mt-2">{packageTotal}</p>
+                      <p className="text-xs text-gray-500">
+                        Total for {countTravelers(builderState.travelers)} travelers, VAT included
+                      </p>
+                      {!quote.breakdown.opaque && (
+                        <div className="mt-3 space-y-1">
+                          {quote.breakdown.lines.map(line => (
+                            <div key={line.label} className="flex justify-between text-sm text-gray-600">
+                              <span>{line.label.charAt(0) + line.label.slice(1).toLowerCase()}</span>
+                              <span>{formatCurrency(line.totalPrice, quote.currency)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500 mt-2">Pricing your package...</p>
+                  )}
                 </div>
+                {builderState.hold && (
+                  <p className="text-sm text-gray-600">
+                    Seats and rooms are held for you until {builderState.hold.expiresAt.toLocaleTimeString()}
+                  </p>
+                )}
+                {holdFailed && (
+                  <p className="text-sm text-amber-600">
+                    We couldn&apos;t hold this package; availability is checked again when you book
+                  </p>
+                )}
                 <Button className="w-full" size="lg">
                   Continue to Booking
                 </Button>
@@ -334,7 +429,7 @@ export default function PackageBuilder() {
             <div className="max-w-7xl mx-auto flex items-center justify-between">
               <div>
                 <p className="text-sm text-gray-600">Package Total</p>
-                <p className="text-2xl font-bold">€{calculateTotal()}</p>
+                <p className="text-2xl font-bold">{packageTotal || 'Priced at review'}</p>
               </div>
               <Button size="lg">Continue</Button>
             </div>
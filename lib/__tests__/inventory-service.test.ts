@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { PrismaClient } from '@prisma/client';
+import type { InventoryService } from '@/lib/inventory-service';
+
+/**
+ * Races holds for the last seats and rooms against a real database. Runs
+ * only with DATABASE_URL set (e.g. a local Postgres after `npm run db:push`).
+ */
+describe.skipIf(!process.env.DATABASE_URL)('InventoryService conditional decrements', () => {
+  let prisma: PrismaClient;
+  let inventoryService: InventoryService;
+  let flightId: string;
+  let hotelId: string;
+  let roomId: string;
+
+  const checkInDate = new Date('2030-07-15T00:00:00Z');
+  const checkOutDate = new Date('2030-07-18T00:00:00Z');
+
+  beforeAll(async () => {
+    const { PrismaClient } = await import('@prisma/client');
+    prisma = new PrismaClient();
+    ({ inventoryService } = await import('@/lib/inventory-service'));
+
+    const flight = await prisma.flight.create({
+      data: {
+        flightNumber: 'TEST 1',
+        carrier: 'Test Air',
+        departureTime: checkInDate,
+        arrivalTime: checkInDate,
+        origin: 'BEG',
+        destination: 'ATH',
+        cabinClass: 'Economy',
+        availableSeats: 3,
+        netPrice: 100,
+        validUntil: checkInDate,
+      },
+    });
+    const hotel = await prisma.hotel.create({
+      data: {
+        name: 'Test Hotel',
+        stars: 3,
+        location: 'Test',
+        city: 'Test',
+        country: 'Test',
+        latitude: 0,
+        longitude: 0,
+        amenities: [],
+        rooms: {
+          create: {
+            roomType: 'Double',
+            bedCount: 1,
+            maxOccupancy: 2,
+            amenities: [],
+            pricePerNight: 100,
+            defaultAllotment: 1,
+          },
+        },
+      },
+      include: { rooms: true },
+    });
+
+    flightId = flight.id;
+    hotelId = hotel.id;
+    roomId = hotel.rooms[0].id;
+  });
+
+  afterAll(async () => {
+    if (!prisma) return;
+
+    await prisma.inventoryHold.deleteMany({ where: { OR: [{ flightId }, { roomId }] } });
+    await prisma.flight.deleteMany({ where: { id: flightId } });
+    await prisma.hotel.deleteMany({ where: { id: hotelId } });
+    await prisma.$disconnect();
+  });
+
+  it('lets only as many holds through as there are seats', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () =>
+        inventoryService.placeHold({ flightId, seats: 2, rooms: 0, checkInDate, checkOutDate })
+      )
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected').map(result => result.reason.name))
+      .toEqual(Array(4).fill('InventoryUnavailableError'));
+
+    const flight = await prisma.flight.findUniqueOrThrow({ where: { id: flightId } });
+    expect(flight.availableSeats).toBe(1);
+  });
+
+  it('sells the last room of every night only once', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 3 }, () =>
+        inventoryService.placeHold({ roomId, rooms: 1, seats: 0, checkInDate, checkOutDate })
+      )
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    const allotments = await prisma.roomAllotment.findMany({ where: { roomId } });
+    expect(allotments.map(allotment => allotment.available)).toEqual([0, 0, 0]);
+  });
+
+  it('puts released seats back', async () => {
+    const hold = await prisma.inventoryHold.findFirstOrThrow({ where: { flightId, status: 'HELD' } });
+
+    expect(await inventoryService.releaseHold(hold.id)).toBe(true);
+
+    const flight = await prisma.flight.findUniqueOrThrow({ where: { id: flightId } });
+    expect(flight.availableSeats).toBe(3);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { LocalContractAdapter } from '@/lib/local-contract-adapter';
+import { SupplierError } from '@/lib/supplier-adapter';
+import type { SupplierItem } from '@/types/supplier';
+
+// The contract shipped in data/local-contract.json; bookings only change it in memory
+function adapter(apiUrl?: string) {
+  return new LocalContractAdapter({ id: 'local', name: 'LocalContract', type: 'Local', apiUrl });
+}
+
+const stay = {
+  checkInDate: new Date('2027-07-15T00:00:00Z'),
+  checkOutDate: new Date('2027-07-22T00:00:00Z'),
+};
+
+const bookingRequest = (items: SupplierItem[]) => ({
+  reference: 'OH-TEST',
+  items,
+  leadTraveler: { name: 'Ana Test', email: 'ana@example.com' },
+  travelers: { adults: 2, childAges: [], infants: 0 },
+});
+
+describe('LocalContractAdapter', () => {
+  it('finds outbound and return flights by route and day', async () => {
+    const flights = await adapter().searchFlights({
+      origin: 'beg',
+      destination: 'ATH',
+      departureDate: new Date('2027-07-15T00:00:00Z'),
+      returnDate: new Date('2027-07-22T00:00:00Z'),
+      passengers: 2,
+      cabinClass: 'ECONOMY',
+    });
+
+    expect(flights.map(flight => flight.id)).toEqual(['LC-FL-1', 'LC-FL-2']);
+    expect(flights[0].supplierId).toBe('local');
+  });
+
+  it('lists hotels with rooms left on every night', async () => {
+    const hotels = await adapter().searchHotels({ city: 'Santorini', guests: 2, rooms: 1, ...stay });
+
+    expect(hotels.map(hotel => hotel.id)).toEqual(['LC-HT-1']);
+    expect(hotels[0].availableRooms.length).toBeGreaterThan(0);
+  });
+
+  it('treats nights missing from the allotment as closed', async () => {
+    const hotels = await adapter().searchHotels({
+      city: 'Santorini',
+      guests: 2,
+      rooms: 1,
+      checkInDate: new Date('2027-08-30T00:00:00Z'),
+      checkOutDate: new Date('2027-09-02T00:00:00Z'),
+    });
+
+    expect(hotels).toEqual([]);
+  });
+
+  it('books the seats and rooms and gives them back on cancellation', async () => {
+    const local = adapter();
+    const room: SupplierItem = { componentType: 'HOTEL', itemId: 'LC-RM-1', quantity: 2, ...stay };
+    const before = await local.checkAvailability(room);
+
+    const booking = await local.book(bookingRequest([
+      { componentType: 'FLIGHT', itemId: 'LC-FL-1', checkInDate: stay.checkInDate, quantity: 2 },
+      room,
+    ]));
+
+    expect(booking.status).toBe('CONFIRMED');
+    expect(booking.netPrice).toBe(2 * 150 + 2 * 7 * 100);
+    expect((await local.checkAvailability(room)).remaining).toBe((before.remaining || 0) - 2);
+
+    await local.cancel(booking.supplierReference);
+
+    expect((await local.checkAvailability(room)).remaining).toBe(before.remaining);
+  });
+
+  it('books nothing when any item is sold out', async () => {
+    const local = adapter();
+    const flight: SupplierItem = { componentType: 'FLIGHT', itemId: 'LC-FL-1', checkInDate: stay.checkInDate, quantity: 2 };
+
+    await expect(local.book(bookingRequest([
+      flight,
+      { componentType: 'HOTEL', itemId: 'LC-RM-1', quantity: 99, ...stay },
+    ]))).rejects.toMatchObject({ code: 'UNAVAILABLE' });
+
+    expect((await local.checkAvailability(flight)).remaining).toBe(45);
+  });
+
+  it('reports a contract file it cannot read as unreachable', async () => {
+    const error = await adapter('data/missing-contract.json').searchTransfers({
+      origin: 'Athens Airport',
+      destination: 'Santorini Port',
+      date: stay.checkInDate,
+      passengers: 2,
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SupplierError);
+    expect(error.code).toBe('UNREACHABLE');
+  });
+});
@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildMarginRuleContext, matchesMarginRule } from '@/lib/margin-rule-evaluator';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { DEFAULT_TAX_RATES, taxEngine } from '@/lib/tax-engine';
+import type { MarginRule } from '@/types/package';
+
+// Pricing runs without a database: rules are passed in, tax rates are the defaults
+vi.mock('@prisma/client', () => ({ PrismaClient: vi.fn() }));
+
+function rule(overrides: Partial<MarginRule>): MarginRule {
+  return {
+    id: overrides.ruleName || 'rule',
+    ruleName: 'rule',
+    marginPercent: 0,
+    marginFixed: 0,
+    combinationMode: 'STACK',
+    stopProcessing: false,
+    isActive: true,
+    priority: 0,
+    ...overrides,
+  };
+}
+
+// 1000 EUR flight and 1000 EUR hotel, 30 days ahead
+async function marginOf(rules: MarginRule[]) {
+  const bookingDate = new Date('2026-05-01T00:00:00Z');
+  const calculation = await packagingEngine.calculatePackagePrice(1000, 1000, 0, {
+    checkInDate: new Date('2026-05-31T00:00:00Z'),
+    checkOutDate: new Date('2026-06-07T00:00:00Z'),
+    bookingDate,
+    currency: 'EUR',
+    marginRules: rules,
+  });
+
+  return {
+    margin: calculation.margin,
+    applied: calculation.appliedRules.map(applied => [applied.ruleName, applied.marginAmount]),
+    components: Object.fromEntries(calculation.breakdown.components.map(c => [c.componentType, c.marginAmount])),
+  };
+}
+
+describe('matchesMarginRule', () => {
+  const context = buildMarginRuleContext({
+    checkInDate: new Date('2026-05-31T00:00:00Z'), // A Sunday
+    checkOutDate: new Date('2026-06-07T00:00:00Z'),
+    bookingDate: new Date('2026-05-01T00:00:00Z'),
+    travelers: 2,
+    destinationCountry: 'GR',
+    category: 'FAMILY',
+  });
+
+  it('applies a rule without conditions to every package', () => {
+    expect(matchesMarginRule(rule({}), context)).toBe(true);
+  });
+
+  it('requires every condition of a rule to match', () => {
+    expect(matchesMarginRule(rule({ minDaysAdvance: 30, destinationCountry: 'gr', packageCategory: 'Family' }), context)).toBe(true);
+    expect(matchesMarginRule(rule({ minDaysAdvance: 30, destinationCountry: 'IT' }), context)).toBe(false);
+  });
+
+  it('treats ranges as inclusive', () => {
+    expect(matchesMarginRule(rule({ minStayNights: 7, maxStayNights: 7 }), context)).toBe(true);
+    expect(matchesMarginRule(rule({ maxDaysAdvance: 29 }), context)).toBe(false);
+    expect(matchesMarginRule(rule({ minTravelers: 3 }), context)).toBe(false);
+    expect(matchesMarginRule(rule({ departureWeekdays: [0, 6] }), context)).toBe(true);
+  });
+
+  it('skips inactive rules', () => {
+    expect(matchesMarginRule(rule({ isActive: false }), context)).toBe(false);
+  });
+});
+
+describe('margin rule combinations', () => {
+  beforeEach(() => {
+    vi.spyOn(taxEngine, 'getTaxRates').mockResolvedValue(DEFAULT_TAX_RATES);
+  });
+
+  it('STACK adds every rule to the margin', async () => {
+    const result = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 10, priority: 2 }),
+      rule({ ruleName: 'fee', marginFixed: 50, priority: 1 }),
+    ]);
+
+    expect(result.margin).toBe(250);
+    expect(result.applied).toEqual([['base', 200], ['fee', 50]]);
+  });
+
+  it('OVERRIDE replaces what higher priority rules added', async () => {
+    const result = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 10, priority: 2 }),
+      rule({ ruleName: 'flat', marginFixed: 80, combinationMode: 'OVERRIDE', priority: 1 }),
+    ]);
+
+    expect(result.margin).toBe(80);
+    expect(result.applied).toEqual([['flat', 80]]);
+  });
+
+  it('MAX raises the margin to its own when higher', async () => {
+    const raised = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 5, priority: 2 }),
+      rule({ ruleName: 'floor', marginFixed: 150, combinationMode: 'MAX', priority: 1 }),
+    ]);
+    const kept = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 10, priority: 2 }),
+      rule({ ruleName: 'floor', marginFixed: 150, combinationMode: 'MAX', priority: 1 }),
+    ]);
+
+    expect(raised.margin).toBe(150);
+    expect(raised.applied).toEqual([['base', 100], ['floor', 50]]);
+    expect(kept.margin).toBe(200);
+    expect(kept.applied).toEqual([['base', 200]]);
+  });
+
+  it('MIN caps the margin at its own when lower', async () => {
+    const capped = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 10, priority: 2 }),
+      rule({ ruleName: 'cap', marginFixed: 120, combinationMode: 'MIN', priority: 1 }),
+    ]);
+    const kept = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 5, priority: 2 }),
+      rule({ ruleName: 'cap', marginFixed: 120, combinationMode: 'MIN', priority: 1 }),
+    ]);
+
+    expect(capped.margin).toBe(120);
+    expect(capped.applied).toEqual([['base', 200], ['cap', -80]]);
+    expect(kept.margin).toBe(100);
+  });
+
+  it('keeps component rules to their own component', async () => {
+    const result = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 10, priority: 3 }),
+      rule({ ruleName: 'hotel', componentType: 'HOTEL', marginFixed: 30, combinationMode: 'OVERRIDE', priority: 2 }),
+      rule({ ruleName: 'flight', componentType: 'FLIGHT', marginFixed: 20, priority: 1 }),
+    ]);
+
+    expect(result.components).toEqual({ FLIGHT: 120, HOTEL: 30 });
+    expect(result.margin).toBe(150);
+  });
+
+  it('stops after a rule with stopProcessing', async () => {
+    const result = await marginOf([
+      rule({ ruleName: 'base', marginPercent: 10, priority: 2, stopProcessing: true }),
+      rule({ ruleName: 'fee', marginFixed: 50, priority: 1 }),
+    ]);
+
+    expect(result.margin).toBe(200);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { divideDecimal, Money } from '@/lib/money';
+
+describe('Money', () => {
+  it('reads decimals exactly and rounds extra decimals half up', () => {
+    expect(Money.of('0.1', 'EUR').add(Money.of('0.2', 'EUR')).toString()).toBe('0.30');
+    expect(Money.of('1.005', 'EUR').toString()).toBe('1.01');
+    expect(Money.of('-1.005', 'EUR').toString()).toBe('-1.01');
+    expect(Money.of('1e2', 'EUR').toString()).toBe('100.00');
+  });
+
+  it('uses the currency minor units', () => {
+    expect(Money.of('1234.5', 'JPY').toString()).toBe('1235');
+    expect(Money.of('1.2345', 'KWD').toString()).toBe('1.235');
+  });
+
+  it('rounds percentages with the requested mode', () => {
+    const amount = Money.of('10.05', 'EUR');
+
+    expect(amount.percent(50).toString()).toBe('5.03');
+    expect(amount.percent(50, 'HALF_EVEN').toString()).toBe('5.02');
+    expect(amount.percent(50, 'DOWN').toString()).toBe('5.02');
+    expect(Money.of('10.01', 'EUR').percent(50, 'UP').toString()).toBe('5.01');
+  });
+
+  it('converts between currencies of different minor units', () => {
+    expect(Money.of('100', 'EUR').convert('117.1725', 'RSD').toString()).toBe('11717.25');
+    expect(Money.of('100', 'EUR').convert('163.4567', 'JPY').toString()).toBe('16346');
+  });
+
+  it('allocates without losing or inventing a minor unit', () => {
+    const parts = Money.of('100', 'EUR').allocate([1, 1, 1]);
+
+    expect(parts.map(part => part.toString())).toEqual(['33.34', '33.33', '33.33']);
+    expect(Money.sum(parts, 'EUR').toString()).toBe('100.00');
+  });
+
+  it('gives leftover units to the largest remainders', () => {
+    const parts = Money.of('0.05', 'EUR').allocate([1, 3]);
+
+    expect(parts.map(part => part.toString())).toEqual(['0.01', '0.04']);
+  });
+
+  it('allocates by Money weights and keeps the sign', () => {
+    const parts = Money.of('-10', 'EUR').allocate([Money.of('1.50', 'EUR'), Money.of('0.50', 'EUR')]);
+
+    expect(parts.map(part => part.toString())).toEqual(['-7.50', '-2.50']);
+  });
+
+  it('splits evenly when every weight is zero', () => {
+    const parts = Money.of('1', 'EUR').allocate([0, 0, 0]);
+
+    expect(parts.map(part => part.toString())).toEqual(['0.34', '0.33', '0.33']);
+  });
+
+  it('refuses to mix currencies', () => {
+    expect(() => Money.of(1, 'EUR').add(Money.of(1, 'RSD'))).toThrow();
+  });
+});
+
+describe('divideDecimal', () => {
+  it('divides exactly and rounds to the scale', () => {
+    expect(divideDecimal('117.1725', '100.5', 6)).toBe('1.165896');
+    expect(divideDecimal(1, 3, 6)).toBe('0.333333');
+    expect(divideDecimal(2, 3, 2, 'DOWN')).toBe('0.66');
+  });
+
+  it('throws on a zero divisor', () => {
+    expect(() => divideDecimal(1, '0.000', 6)).toThrow();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCisPaymentData,
+  buildIpsQrPayload,
+  formatPaymentId,
+  isValidBankAccount,
+  isValidModel97,
+  model97ControlDigits,
+  PaymentSlipError,
+  toDocumentReference,
+  toModel97CallNumber,
+} from '@/lib/payment-slip';
+
+// Payee of the NBS IPS QR example
+const NBS_ACCOUNT = '845000000040484987';
+
+describe('model 97', () => {
+  it('puts the two control digits in front of the reference', () => {
+    expect(model97ControlDigits('1234')).toBe('82');
+    expect(toModel97CallNumber('1234')).toBe('821234');
+    expect(toModel97CallNumber('12-34')).toBe('8212-34');
+  });
+
+  it('accepts its own call numbers and rejects mistyped ones', () => {
+    expect(isValidModel97('821234')).toBe(true);
+    expect(isValidModel97('163220000111111111000')).toBe(true);
+    expect(isValidModel97('821243')).toBe(false);
+    expect(isValidModel97('82A234')).toBe(false);
+  });
+
+  it('turns series letters into their ISO 7064 values', () => {
+    expect(toDocumentReference('INV-2025-000042')).toBe('1823312025000042');
+    expect(toModel97CallNumber(toDocumentReference('INV-2025-000042'))).toBe('661823312025000042');
+  });
+
+  it('refuses references that are not digits and dashes', () => {
+    expect(() => model97ControlDigits('12 34')).toThrow(PaymentSlipError);
+    expect(() => toModel97CallNumber('1'.repeat(21))).toThrow(PaymentSlipError);
+  });
+});
+
+describe('bank accounts', () => {
+  it('checks the account control digits, short forms included', () => {
+    expect(isValidBankAccount(NBS_ACCOUNT)).toBe(true);
+    expect(isValidBankAccount('160-123456-54')).toBe(true);
+    expect(isValidBankAccount('160-123456-55')).toBe(false);
+  });
+
+  it('builds the SEF payment data of a document', () => {
+    const payment = buildCisPaymentData('INV-2025-000042', '160-123456-54', 'Uplata po racunu INV-2025-000042 za aranzman');
+
+    expect(payment.recipientAccount).toBe('160000000012345654');
+    expect(payment.paymentPurpose).toHaveLength(35);
+    expect(formatPaymentId(payment)).toBe('(mod97) 661823312025000042');
+  });
+});
+
+describe('buildIpsQrPayload', () => {
+  it('renders the NBS example payload', () => {
+    const payload = buildIpsQrPayload({
+      payeeAccount: '845-404849-87',
+      payeeName: 'JP EPS BEOGRAD\nBALKANSKA 13',
+      amount: 3596.13,
+      payerName: 'MRĐO MAČKATIĆ\nUMETNIČKA 5\nBEOGRAD',
+      paymentCode: '189',
+      purpose: 'UPLATA PO RAČUNU ZA EL. ENERGIJU',
+      callNumber: '163220000111111111000',
+    });
+
+    expect(payload).toBe(
+      'K:PR|V:01|C:1|R:845000000040484987|N:JP EPS BEOGRAD\r\nBALKANSKA 13|I:RSD3596,13|' +
+      'P:MRĐO MAČKATIĆ\r\nUMETNIČKA 5\r\nBEOGRAD|SF:189|S:UPLATA PO RAČUNU ZA EL. ENERGIJU|RO:97163220000111111111000'
+    );
+  });
+
+  it('leaves out the optional fields', () => {
+    const payload = buildIpsQrPayload({
+      payeeAccount: NBS_ACCOUNT,
+      payeeName: 'Olympic Travel',
+      amount: 100,
+      paymentCode: '221',
+      purpose: '',
+    });
+
+    expect(payload).toBe('K:PR|V:01|C:1|R:845000000040484987|N:Olympic Travel|I:RSD100,00|SF:221');
+  });
+
+  it('refuses orders IPS would reject', () => {
+    const order = {
+      payeeAccount: NBS_ACCOUNT,
+      payeeName: 'Olympic Travel',
+      amount: 100,
+      paymentCode: '221',
+      purpose: 'Aranzman',
+    };
+
+    expect(() => buildIpsQrPayload({ ...order, payeeAccount: '845000000040484988' })).toThrow(PaymentSlipError);
+    expect(() => buildIpsQrPayload({ ...order, amount: 0 })).toThrow(PaymentSlipError);
+    expect(() => buildIpsQrPayload({ ...order, paymentCode: '321' })).toThrow(PaymentSlipError);
+    expect(() => buildIpsQrPayload({ ...order, callNumber: '821243' })).toThrow(PaymentSlipError);
+    expect(() => buildIpsQrPayload({ ...order, purpose: 'A|B' })).toThrow(PaymentSlipError);
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * Amendment Service - Changing a booked itinerary
+ *
+ * An amendment is quoted first: the changed itinerary is checked against the
+ * inventory and priced by the PackagingEngine into an ordinary quote, and the
+ * change fees of the components that change are added to the difference.
+ * Applying the amendment books that quote: the current PriceComponent set is
+ * superseded (not deleted) by a new version, and the difference is invoiced
+ * on a supplementary invoice, or on a corrective one when it went down.
+ */
+
+import { PrismaClient, type Prisma, type BookingAmendment as BookingAmendmentRecord } from '@prisma/client';
+import { Money } from '@/lib/money';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { quoteService, QuotePriceChangedError, toQuoteResponse } from '@/lib/quote-service';
+import { cancellationService } from '@/lib/cancellation-service';
+import { currencyService } from '@/lib/currency-service';
+import { inventoryService, quoteAllocation } from '@/lib/inventory-service';
+import { invoiceNumbering } from '@/lib/invoice-numbering';
+import { invoiceToCorrect } from '@/lib/invoice-service';
+import { resolveCancellationPolicy } from '@/lib/cancellation-policy';
+import { resolveTaxRate, taxEngine } from '@/lib/tax-engine';
+import { countSeatedTravelers, countTravelers } from '@/lib/travelers';
+import type { AmendmentQuoteResponse } from '@/types/api';
+import type { AmendmentInvoice, InvoiceLineItem, TaxCategory } from '@/types/invoice';
+import type {
+  AmendmentQuote,
+  BookingAmendment,
+  BookingStatus,
+  ItineraryChange,
+  PackageComponentType,
+  Quote,
+  QuoteOptions,
+  QuoteSelection,
+  TravelerComposition,
+} from '@/types/package';
+
+const prisma = new PrismaClient();
+
+export const AMENDABLE_STATUSES: BookingStatus[] = ['CONFIRMED', 'PAID'];
+
+export type AmendmentErrorCode = 'NOT_FOUND' | 'NOT_AMENDABLE' | 'UNAVAILABLE' | 'NON_REFUNDABLE' | 'CONFLICT';
+
+export class AmendmentError extends Error {
+  constructor(
+    readonly code: AmendmentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'AmendmentError';
+  }
+}
+
+type AmendableItinerary = Prisma.ItineraryGetPayload<{
+  include: {
+    priceComponents: true;
+    quote: true;
+    invoices: { select: { invoiceNumber: true; invoiceType: true; invoiceDate: true; status: true } };
+    flight: { select: { supplierId: true; refundable: true } };
+    hotel: { select: { supplierId: true } };
+    transfer: { select: { supplierId: true } };
+  };
+}>;
+
+export class AmendmentService {
+  /**
+   * Price a change to a booking without applying it
+   *
+   * @throws AmendmentError when the booking can't be amended, a changed
+   *   component is non-refundable or the new selection isn't available
+   */
+  async quoteAmendment(bookingId: string, change: ItineraryChange): Promise<AmendmentQuote> {
+    const itinerary = await this.loadAmendable(bookingId);
+    const selection = applyChange(itinerary, change);
+    const changedComponents = detectChangedComponents(itinerary, selection);
+
+    if (selection.checkOutDate <= selection.checkInDate) {
+      throw new AmendmentError('NOT_AMENDABLE', 'The changed stay would end before it starts');
+    }
+
+    if (changedComponents.length === 0) {
+      throw new AmendmentError('NOT_AMENDABLE', 'The requested change leaves the booking as it is');
+    }
+
+    await this.checkAvailability(selection, changedComponents);
+
+    const quote = await quoteService.createQuote(selection, this.quoteOptions(itinerary));
+    return this.priceAmendment(itinerary, quote, changedComponents);
+  }
+
+  /**
+   * Apply a quoted amendment
+   *
+   * @throws QuotePriceChangedError when the quote expired and re-pricing changed the total
+   * @throws AmendmentError when the booking changed since it was quoted
+   */
+  async amendBooking(
+    bookingId: string,
+    quoteId: string,
+    options: { actor: string; reason?: string }
+  ): Promise<{ amendment: BookingAmendment; invoice?: AmendmentInvoice }> {
+    const itinerary = await this.loadAmendable(bookingId);
+
+    const { quote, priceChanges } = await quoteService.resolveQuote(quoteId);
+    if (priceChanges) {
+      throw new QuotePriceChangedError(quote.id, priceChanges);
+    }
+
+    const { selection } = quote;
+    const changedComponents = detectChangedComponents(itinerary, selection);
+    await this.checkAvailability(selection, changedComponents);
+
+    const priced = await this.priceAmendment(itinerary, quote, changedComponents);
+    const currency = itinerary.currency;
+    const amountDue = Money.of(priced.amountDue, currency);
+    const previousVersion = itinerary.priceVersion;
+    const priceVersion = previousVersion + 1;
+    const invoiceLines = amountDue.isZero() ? [] : await this.buildInvoiceLines(itinerary, quote, priced);
+
+    return prisma.$transaction(async tx => {
+      const claimed = await tx.quote.updateMany({
+        where: { id: quote.id, status: 'ACTIVE', itineraryId: null },
+        data: { status: 'BOOKED' },
+      });
+
+      if (claimed.count === 0) {
+        throw new AmendmentError('CONFLICT', `Quote ${quote.id} is no longer available`);
+      }
+
+      // Conditional on the version it was priced against, so concurrent amendments can't both apply
+      const updated = await tx.itinerary.updateMany({
+        where: { id: bookingId, priceVersion: previousVersion, status: { in: AMENDABLE_STATUSES } },
+        data: {
+          flightId: selection.flightId ?? null,
+          hotelId: selection.hotelId ?? null,
+          roomId: selection.roomId ?? null,
+          rooms: quote.calculation.componentPricing?.roomsNeeded ?? selection.rooms ?? 1,
+          transferId: selection.transferId ?? null,
+          checkInDate: selection.checkInDate,
+          checkOutDate: selection.checkOutDate,
+          travelers: countTravelers(selection.travelers),
+          adults: selection.travelers.adults,
+          childAges: selection.travelers.childAges,
+          infants: selection.travelers.infants,
+          totalPrice: quote.totalPrice,
+          changeFees: { increment: priced.changeFee },
+          priceVersion,
+        },
+      });
+
+      if (updated.count === 0) {
+        throw new AmendmentError('CONFLICT', `Booking ${bookingId} changed while the amendment was applied`);
+      }
+
+      await inventoryService.reallocateBookingHold(tx, bookingId, quoteAllocation(quote));
+
+      await tx.priceComponent.updateMany({
+        where: { itineraryId: bookingId, supersededAt: null },
+        data: { supersededAt: new Date() },
+      });
+
+      await tx.priceComponent.createMany({
+        data: packagingEngine.toPriceComponentRecords(quote.calculation.breakdown).map(record => ({
+          ...record,
+          itineraryId: bookingId,
+          version: priceVersion,
+        })),
+      });
+
+      const amendment = await tx.bookingAmendment.create({
+        data: {
+          itineraryId: bookingId,
+          quoteId: quote.id,
+          previousVersion,
+          priceVersion,
+          selection: JSON.parse(JSON.stringify(selection)) as Prisma.InputJsonValue,
+          changedComponents,
+          previousTotal: priced.previousTotal,
+          newTotal: priced.newTotal,
+          changeFee: priced.changeFee,
+          amountDue: priced.amountDue,
+          currency,
+          actor: options.actor,
+          reason: options.reason,
+        },
+      });
+
+      if (amountDue.isZero()) {
+        return { amendment: toBookingAmendment(amendment) };
+      }
+
+      const taxAmount = Money.sum(invoiceLines.map(line => Money.of(line.taxAmount ?? 0, currency)), currency);
+      const documentType = amountDue.isPositive() ? 'SUPPLEMENTARY' : 'CORRECTIVE';
+
+      const invoice = await tx.amendmentInvoice.create({
+        data: {
+          itineraryId: bookingId,
+          amendmentId: amendment.id,
+          documentNumber: await invoiceNumbering.reserve(tx, documentType === 'SUPPLEMENTARY' ? 'DEBIT_NOTE' : 'CREDIT_NOTE'),
+          documentType,
+          invoiceNumber: invoiceToCorrect(itinerary.invoices),
+          lines: invoiceLines as unknown as Prisma.InputJsonValue,
+          taxableAmount: amountDue.subtract(taxAmount).toNumber(),
+          taxAmount: taxAmount.toNumber(),
+          totalAmount: amountDue.toNumber(),
+          currency,
+        },
+      });
+
+      return {
+        amendment: toBookingAmendment(amendment),
+        invoice: {
+          id: invoice.id,
+          itineraryId: invoice.itineraryId,
+          amendmentId: invoice.amendmentId,
+          documentNumber: invoice.documentNumber,
+          documentType,
+          invoiceNumber: invoice.invoiceNumber || undefined,
+          issueDate: invoice.issueDate,
+          lines: invoiceLines,
+          taxableAmount: Number(invoice.taxableAmount),
+          taxAmount: Number(invoice.taxAmount),
+          totalAmount: Number(invoice.totalAmount),
+          currency,
+        },
+      };
+    });
+  }
+
+  /**
+   * Amendments of a booking, oldest first
+   */
+  async getAmendments(bookingId: string): Promise<BookingAmendment[]> {
+    const amendments = await prisma.bookingAmendment.findMany({
+      where: { itineraryId: bookingId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return amendments.map(toBookingAmendment);
+  }
+
+  private async loadAmendable(bookingId: string): Promise<AmendableItinerary> {
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id: bookingId },
+      include: {
+        priceComponents: { where: { supersededAt: null } },
+        quote: true,
+        invoices: { select: { invoiceNumber: true, invoiceType: true, invoiceDate: true, status: true } },
+        flight: { select: { supplierId: true, refundable: true } },
+        hotel: { select: { supplierId: true } },
+        transfer: { select: { supplierId: true } },
+      },
+    });
+
+    if (!itinerary) {
+      throw new AmendmentError('NOT_FOUND', `Booking ${bookingId} not found`);
+    }
+
+    if (!AMENDABLE_STATUSES.includes(itinerary.status as BookingStatus)) {
+      throw new AmendmentError('NOT_AMENDABLE', `Booking ${bookingId} is ${itinerary.status} and can't be amended`);
+    }
+
+    if (itinerary.checkInDate <= new Date()) {
+      throw new AmendmentError('NOT_AMENDABLE', `Booking ${bookingId} has already started`);
+    }
+
+    return itinerary;
+  }
+
+  /**
+   * Price the booking as originally quoted (currency, tax mode, opaque mask)
+   */
+  private quoteOptions(itinerary: AmendableItinerary): Partial<QuoteOptions> {
+    const booked = itinerary.quote?.options as unknown as QuoteOptions | undefined;
+
+    return {
+      ...booked,
+      currency: itinerary.currency,
+      // An opaque booking stays opaque; otherwise the changed components decide
+      opaqueMask: itinerary.opaqueMask || undefined,
+    };
+  }
+
+  /**
+   * Make sure every changed component can still be sold
+   */
+  private async checkAvailability(selection: QuoteSelection, changedComponents: PackageComponentType[]): Promise<void> {
+    const { flight, room, transfer } = await quoteService.loadSelection(selection);
+    const seated = countSeatedTravelers(selection.travelers);
+    const problems: string[] = [];
+
+    if (changedComponents.includes('FLIGHT') && flight && flight.availableSeats < seated) {
+      problems.push(`flight ${flight.flightNumber} has ${flight.availableSeats} seats left`);
+    }
+
+    if (changedComponents.includes('HOTEL') && room) {
+      if (!room.available) {
+        problems.push(`room ${room.id} is not available`);
+      }
+      if (selection.hotelId && room.hotelId !== selection.hotelId) {
+        problems.push(`room ${room.id} doesn't belong to hotel ${selection.hotelId}`);
+      }
+    }
+
+    if (changedComponents.includes('TRANSFER') && transfer && !transfer.available) {
+      problems.push(`transfer ${transfer.id} is not available`);
+    }
+
+    if (problems.length > 0) {
+      throw new AmendmentError('UNAVAILABLE', `Can't amend the booking: ${problems.join(', ')}`);
+    }
+  }
+
+  /**
+   * Price difference and change fees of an amendment
+   *
+   * Change fees come from the cancellation policy of every component that
+   * changes; a non-refundable component can't be changed at all.
+   */
+  private async priceAmendment(
+    itinerary: AmendableItinerary,
+    quote: Quote,
+    changedComponents: PackageComponentType[]
+  ): Promise<AmendmentQuote> {
+    const currency = itinerary.currency;
+
+    if (quote.currency !== currency) {
+      throw new AmendmentError('NOT_AMENDABLE', `Quote ${quote.id} is in ${quote.currency}, the booking in ${currency}`);
+    }
+
+    const supplierIds: Partial<Record<PackageComponentType, string>> = {
+      FLIGHT: itinerary.flight?.supplierId || undefined,
+      HOTEL: itinerary.hotel?.supplierId || undefined,
+      TRANSFER: itinerary.transfer?.supplierId || undefined,
+    };
+
+    const policies = await cancellationService.getCancellationPolicies({
+      supplierIds: Object.values(supplierIds).filter((id): id is string => Boolean(id)),
+      roomId: itinerary.roomId || undefined,
+      packageBlueprintId: itinerary.packageBlueprintId || undefined,
+    });
+
+    let changeFee = Money.zero(currency);
+
+    for (const componentType of changedComponents) {
+      // Components added by the amendment have no booked terms to change
+      if (!itinerary.priceComponents.some(component => component.componentType === componentType)) {
+        continue;
+      }
+
+      const policy = resolveCancellationPolicy(policies, {
+        componentType,
+        supplierId: supplierIds[componentType],
+        roomId: componentType === 'HOTEL' ? itinerary.roomId || undefined : undefined,
+        packageBlueprintId: itinerary.packageBlueprintId || undefined,
+      });
+
+      if (policy?.nonRefundable || (componentType === 'FLIGHT' && itinerary.flight?.refundable === false)) {
+        throw new AmendmentError('NON_REFUNDABLE', `The booked ${componentType.toLowerCase()} is non-refundable and can't be changed`);
+      }
+
+      if (policy) {
+        const fee = Money.of(policy.changeFee, policy.currency);
+        const { amount } = await currencyService.convert(fee, currency);
+        changeFee = changeFee.add(amount);
+      }
+    }
+
+    const previousTotal = Money.of(itinerary.totalPrice, currency);
+    const newTotal = Money.of(quote.totalPrice, currency);
+    const priceDifference = newTotal.subtract(previousTotal);
+
+    return {
+      bookingId: itinerary.id,
+      quote,
+      changedComponents,
+      previousTotal: previousTotal.toNumber(),
+      newTotal: newTotal.toNumber(),
+      priceDifference: priceDifference.toNumber(),
+      changeFee: changeFee.toNumber(),
+      amountDue: priceDifference.add(changeFee).toNumber(),
+      currency,
+    };
+  }
+
+  /**
+   * Invoice lines for an amendment: the price difference per component and
+   * the change fee, VAT included in each line's tax amount
+   *
+   * Opaque bookings get a single package line per VAT rate instead of one
+   * per component.
+   */
+  private async buildInvoiceLines(
+    itinerary: AmendableItinerary,
+    quote: Quote,
+    priced: AmendmentQuote
+  ): Promise<InvoiceLineItem[]> {
+    const currency = itinerary.currency;
+    const lines = new Map<string, { description: string; taxCategory: TaxCategory; taxRate: number; gross: Money; tax: Money }>();
+
+    const addLine = (itemId: string, description: string, taxCategory: TaxCategory, taxRate: number, gross: Money, tax: Money) => {
+      const key = `${itemId}:${taxCategory}:${taxRate}`;
+      const line = lines.get(key);
+      lines.set(key, line
+        ? { ...line, gross: line.gross.add(gross), tax: line.tax.add(tax) }
+        : { description, taxCategory, taxRate, gross, tax });
+    };
+
+    const previous = itinerary.priceComponents.map(component => ({
+      componentType: component.componentType,
+      taxCategory: (component.taxCategory as TaxCategory) || 'S',
+      taxRate: component.taxRatePercent !== null ? Number(component.taxRatePercent) : 0,
+      gross: Money.of(component.totalPrice, currency).negate(),
+      tax: Money.of(component.taxAmount, currency).negate(),
+    }));
+
+    const next = quote.calculation.breakdown.components.map(component => ({
+      componentType: component.componentType,
+      taxCategory: component.taxCategory || 'S',
+      taxRate: component.taxRate ?? 0,
+      gross: Money.of(component.totalPrice, currency),
+      tax: Money.of(component.taxAmount, currency),
+    }));
+
+    for (const component of [...previous, ...next]) {
+      const itemId = itinerary.opaqueMask ? 'PACKAGE' : component.componentType;
+      addLine(itemId, `${itemId.charAt(0)}${itemId.slice(1).toLowerCase()} price change`, component.taxCategory, component.taxRate, component.gross, component.tax);
+    }
+
+    const changeFee = Money.of(priced.changeFee, currency);
+    if (changeFee.isPositive()) {
+      const rate = resolveTaxRate(await taxEngine.getTaxRates(), undefined, new Date());
+      const [tax] = changeFee.allocate([rate.ratePercent, 100]);
+      addLine('CHANGE_FEE', 'Change fee', rate.taxCategory, rate.ratePercent, changeFee, tax);
+    }
+
+    return [...lines.entries()]
+      .filter(([, line]) => !line.gross.isZero())
+      .map(([key, line]) => {
+        const net = line.gross.subtract(line.tax).toNumber();
+        return {
+          itemId: key.split(':')[0],
+          description: line.description,
+          quantity: 1,
+          unitPrice: net,
+          taxRate: line.taxRate,
+          taxCategory: line.taxCategory,
+          lineTotal: net,
+          taxAmount: line.tax.toNumber(),
+        };
+      });
+  }
+}
+
+/**
+ * What the customer sees of an amendment quote
+ */
+export function toAmendmentQuoteResponse(amendment: AmendmentQuote): AmendmentQuoteResponse {
+  return {
+    bookingId: amendment.bookingId,
+    quote: toQuoteResponse(amendment.quote),
+    changedComponents: amendment.changedComponents,
+    previousTotal: amendment.previousTotal,
+    newTotal: amendment.newTotal,
+    priceDifference: amendment.priceDifference,
+    changeFee: amendment.changeFee,
+    amountDue: amendment.amountDue,
+    currency: amendment.currency,
+  };
+}
+
+/**
+ * The booked selection with the change applied
+ */
+function applyChange(itinerary: AmendableItinerary, change: ItineraryChange): QuoteSelection {
+  const travelers: TravelerComposition = change.travelers || {
+    adults: itinerary.adults,
+    childAges: itinerary.childAges,
+    infants: itinerary.infants,
+  };
+
+  const pick = (requested: string | null | undefined, booked: string | null) =>
+    requested === undefined ? booked || undefined : requested || undefined;
+
+  const roomId = pick(change.roomId, itinerary.roomId);
+
+  return {
+    flightId: pick(change.flightId, itinerary.flightId),
+    hotelId: pick(change.hotelId, itinerary.hotelId),
+    roomId,
+    transferId: pick(change.transferId, itinerary.transferId),
+    checkInDate: change.checkInDate || itinerary.checkInDate,
+    checkOutDate: change.checkOutDate || itinerary.checkOutDate,
+    travelers,
+    // A different party or room is re-allocated unless rooms are given
+    rooms: change.rooms ?? (change.travelers || roomId !== itinerary.roomId ? undefined : itinerary.rooms),
+  };
+}
+
+/**
+ * Components whose booked terms the new selection changes
+ */
+function detectChangedComponents(itinerary: AmendableItinerary, selection: QuoteSelection): PackageComponentType[] {
+  const sameParty =
+    selection.travelers.adults === itinerary.adults &&
+    selection.travelers.infants === itinerary.infants &&
+    [...selection.travelers.childAges].sort().join() === [...itinerary.childAges].sort().join();
+  const sameDates =
+    selection.checkInDate.getTime() === itinerary.checkInDate.getTime() &&
+    selection.checkOutDate.getTime() === itinerary.checkOutDate.getTime();
+
+  const changed: PackageComponentType[] = [];
+
+  if ((selection.flightId || null) !== itinerary.flightId || (itinerary.flightId && !sameParty)) {
+    changed.push('FLIGHT');
+  }
+
+  if (
+    (selection.hotelId || null) !== itinerary.hotelId ||
+    (selection.roomId || null) !== itinerary.roomId ||
+    (itinerary.roomId && (!sameParty || !sameDates || (selection.rooms !== undefined && selection.rooms !== itinerary.rooms)))
+  ) {
+    changed.push('HOTEL');
+  }
+
+  if ((selection.transferId || null) !== itinerary.transferId || (itinerary.transferId && (!sameParty || !sameDates))) {
+    changed.push('TRANSFER');
+  }
+
+  return changed;
+}
+
+function toBookingAmendment(amendment: BookingAmendmentRecord): BookingAmendment {
+  return {
+    id: amendment.id,
+    itineraryId: amendment.itineraryId,
+    quoteId: amendment.quoteId || undefined,
+    previousVersion: amendment.previousVersion,
+    priceVersion: amendment.priceVersion,
+    selection: amendment.selection as unknown as QuoteSelection,
+    changedComponents: amendment.changedComponents as PackageComponentType[],
+    previousTotal: Number(amendment.previousTotal),
+    newTotal: Number(amendment.newTotal),
+    changeFee: Number(amendment.changeFee),
+    amountDue: Number(amendment.amountDue),
+    currency: amendment.currency,
+    actor: amendment.actor,
+    reason: amendment.reason || undefined,
+    createdAt: amendment.createdAt,
+  };
+}
+
+// Export singleton instance
+export const amendmentService = new AmendmentService();
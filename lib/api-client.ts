@@ -10,22 +10,51 @@ import type {
   ApiConfig,
   FlightSearchRequest,
   FlightSearchResponse,
+  FlightSearchPageRequest,
   HotelSearchRequest,
   HotelSearchResponse,
+  HotelSearchPageRequest,
   AvailabilityCheckRequest,
   AvailabilityCheckResponse,
+  QuoteRequest,
+  QuoteResponse,
+  InventoryHoldRequest,
+  InventoryHoldResponse,
   CreateBookingRequest,
   CreateBookingResponse,
   BookingStatusRequest,
   BookingStatusResponse,
+  BookingTransitionRequest,
+  BookingTransitionResponse,
+  BookingHistoryResponse,
   CancelBookingRequest,
   CancelBookingResponse,
+  CancellationQuoteRequest,
+  CancellationQuoteResponse,
+  CustomerProof,
+  AmendmentQuoteRequest,
+  AmendmentQuoteResponse,
+  AmendBookingRequest,
+  AmendBookingResponse,
+  BookingAmendmentsResponse,
   PriceCalculationRequest,
   PriceCalculationResponse,
+  ItineraryPriceRequest,
+  ItineraryPriceResponse,
+  MarginSimulationRequest,
+  MarginSimulationResponse,
+  ExchangeRateImportRequest,
+  ExchangeRateImportResponse,
   CreateInvoiceRequest,
   CreateInvoiceResponse,
+  AdvanceInvoiceRequest,
+  InvoiceLedgerResponse,
+  CreditNoteRequest,
+  CreditNoteResponse,
   PaymentRequest,
   PaymentResponse,
+  RecordPaymentRequest,
+  RecordPaymentResponse,
   PackageBlueprintRequest,
   PackageBlueprintResponse,
   PackageSearchApiRequest,
@@ -111,6 +140,15 @@ export class OlympicHubApiClient {
     }
   }
 
+  /**
+   * Access to a booking: the customer's proof, or the staff key without one
+   */
+  private bookingAccessHeaders(proof?: CustomerProof): HeadersInit {
+    return proof
+      ? { 'X-Booking-Reference': proof.bookingReference, 'X-Customer-Email': proof.customerEmail }
+      : { 'X-Staff-Key': process.env.STAFF_API_KEY || '' };
+  }
+
   // ====================================
   // SEARCH & AVAILABILITY
   // ====================================
@@ -129,6 +167,28 @@ export class OlympicHubApiClient {
     });
   }
 
+  async getFlightSearchResults(params: FlightSearchPageRequest): Promise<ApiResponse<FlightSearchResponse>> {
+    const query = new URLSearchParams({
+      ...(params.page && { page: String(params.page) }),
+      ...(params.perPage && { perPage: String(params.perPage) }),
+      ...(params.directOnly && { directOnly: 'true' }),
+    });
+
+    return this.request<FlightSearchResponse>(`/api/flights/search/${params.searchId}?${query}`);
+  }
+
+  async getHotelSearchResults(params: HotelSearchPageRequest): Promise<ApiResponse<HotelSearchResponse>> {
+    const query = new URLSearchParams({
+      ...(params.page && { page: String(params.page) }),
+      ...(params.perPage && { perPage: String(params.perPage) }),
+      ...(params.stars?.length && { stars: params.stars.join(',') }),
+      ...(params.amenities?.length && { amenities: params.amenities.join(',') }),
+      ...(params.maxPrice !== undefined && { maxPrice: String(params.maxPrice) }),
+    });
+
+    return this.request<HotelSearchResponse>(`/api/hotels/search/${params.searchId}?${query}`);
+  }
+
   async checkAvailability(params: AvailabilityCheckRequest): Promise<ApiResponse<AvailabilityCheckResponse>> {
     return this.request<AvailabilityCheckResponse>('/api/availability/check', {
       method: 'POST',
@@ -140,6 +200,30 @@ export class OlympicHubApiClient {
   // BOOKING
   // ====================================
 
+  async createQuote(params: QuoteRequest): Promise<ApiResponse<QuoteResponse>> {
+    return this.request<QuoteResponse>('/api/quotes', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async getQuote(quoteId: string): Promise<ApiResponse<QuoteResponse>> {
+    return this.request<QuoteResponse>(`/api/quotes/${quoteId}`);
+  }
+
+  async createHold(params: InventoryHoldRequest): Promise<ApiResponse<InventoryHoldResponse>> {
+    return this.request<InventoryHoldResponse>('/api/holds', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  }
+
+  async releaseHold(holdId: string): Promise<ApiResponse<{ success: boolean }>> {
+    return this.request<{ success: boolean }>(`/api/holds/${holdId}`, {
+      method: 'DELETE',
+    });
+  }
+
   async createBooking(params: CreateBookingRequest): Promise<ApiResponse<CreateBookingResponse>> {
     return this.request<CreateBookingResponse>('/api/bookings', {
       method: 'POST',
@@ -149,16 +233,71 @@ export class OlympicHubApiClient {
 
   async getBookingStatus(params: BookingStatusRequest): Promise<ApiResponse<BookingStatusResponse>> {
     const query = new URLSearchParams({
-      bookingId: params.bookingId,
+      ...(params.bookingId && { bookingId: params.bookingId }),
       ...(params.bookingReference && { bookingReference: params.bookingReference }),
+      ...(params.customerEmail && { customerEmail: params.customerEmail }),
     });
     
-    return this.request<BookingStatusResponse>(`/api/bookings/status?${query}`);
+    return this.request<BookingStatusResponse>(`/api/bookings/status?${query}`, {
+      ...(params.bookingId && { headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' } }),
+    });
+  }
+
+  async updateBookingStatus(params: BookingTransitionRequest): Promise<ApiResponse<BookingTransitionResponse>> {
+    const { bookingId, ...transition } = params;
+
+    return this.request<BookingTransitionResponse>(`/api/bookings/${bookingId}/status`, {
+      method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      body: JSON.stringify(transition),
+    });
+  }
+
+  async getBookingHistory(bookingId: string): Promise<ApiResponse<BookingHistoryResponse>> {
+    return this.request<BookingHistoryResponse>(`/api/bookings/${bookingId}/history`, {
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+    });
   }
 
-  async cancelBooking(params: CancelBookingRequest): Promise<ApiResponse<CancelBookingResponse>> {
+  async quoteAmendment(params: AmendmentQuoteRequest, proof?: CustomerProof): Promise<ApiResponse<AmendmentQuoteResponse>> {
+    return this.request<AmendmentQuoteResponse>(`/api/bookings/${params.bookingId}/amendments/quote`, {
+      method: 'POST',
+      headers: this.bookingAccessHeaders(proof),
+      body: JSON.stringify({ change: params.change }),
+    });
+  }
+
+  async amendBooking(params: AmendBookingRequest, proof?: CustomerProof): Promise<ApiResponse<AmendBookingResponse>> {
+    const { bookingId, ...amendment } = params;
+
+    return this.request<AmendBookingResponse>(`/api/bookings/${bookingId}/amendments`, {
+      method: 'POST',
+      headers: this.bookingAccessHeaders(proof),
+      body: JSON.stringify(amendment),
+    });
+  }
+
+  async getAmendments(bookingId: string, proof?: CustomerProof): Promise<ApiResponse<BookingAmendmentsResponse>> {
+    return this.request<BookingAmendmentsResponse>(`/api/bookings/${bookingId}/amendments`, {
+      headers: this.bookingAccessHeaders(proof),
+    });
+  }
+
+  async getCancellationQuote(
+    params: CancellationQuoteRequest,
+    proof?: CustomerProof
+  ): Promise<ApiResponse<CancellationQuoteResponse>> {
+    const query = new URLSearchParams({ refundMethod: params.refundMethod || 'ORIGINAL' });
+
+    return this.request<CancellationQuoteResponse>(`/api/bookings/${params.bookingId}/cancellation-quote?${query}`, {
+      headers: this.bookingAccessHeaders(proof),
+    });
+  }
+
+  async cancelBooking(params: CancelBookingRequest, proof?: CustomerProof): Promise<ApiResponse<CancelBookingResponse>> {
     return this.request<CancelBookingResponse>(`/api/bookings/${params.bookingId}/cancel`, {
       method: 'POST',
+      headers: this.bookingAccessHeaders(proof),
       body: JSON.stringify(params),
     });
   }
@@ -174,6 +313,32 @@ export class OlympicHubApiClient {
     });
   }
 
+  async getItineraryPrice(params: ItineraryPriceRequest): Promise<ApiResponse<ItineraryPriceResponse>> {
+    if (params.audience === 'STAFF') {
+      return this.request<ItineraryPriceResponse>(`/api/itineraries/${params.itineraryId}/price?audience=STAFF`, {
+        headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      });
+    }
+
+    return this.request<ItineraryPriceResponse>(`/api/itineraries/${params.itineraryId}/price`);
+  }
+
+  async importExchangeRates(params: ExchangeRateImportRequest): Promise<ApiResponse<ExchangeRateImportResponse>> {
+    return this.request<ExchangeRateImportResponse>('/api/exchange-rates/import', {
+      method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      body: JSON.stringify(params),
+    });
+  }
+
+  async simulateMarginRules(params: MarginSimulationRequest): Promise<ApiResponse<MarginSimulationResponse>> {
+    return this.request<MarginSimulationResponse>('/api/pricing/simulate', {
+      method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      body: JSON.stringify(params),
+    });
+  }
+
   // ====================================
   // INVOICES & PAYMENTS
   // ====================================
@@ -181,10 +346,35 @@ export class OlympicHubApiClient {
   async createInvoice(params: CreateInvoiceRequest): Promise<ApiResponse<CreateInvoiceResponse>> {
     return this.request<CreateInvoiceResponse>('/api/invoices', {
       method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
       body: JSON.stringify(params),
     });
   }
 
+  async createAdvanceInvoice(params: AdvanceInvoiceRequest): Promise<ApiResponse<CreateInvoiceResponse>> {
+    return this.request<CreateInvoiceResponse>('/api/invoices/advance', {
+      method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      body: JSON.stringify(params),
+    });
+  }
+
+  async getInvoiceLedger(itineraryId: string, proof?: CustomerProof): Promise<ApiResponse<InvoiceLedgerResponse>> {
+    return this.request<InvoiceLedgerResponse>(`/api/itineraries/${itineraryId}/invoices`, {
+      headers: this.bookingAccessHeaders(proof),
+    });
+  }
+
+  async issueCreditNote(params: CreditNoteRequest): Promise<ApiResponse<CreditNoteResponse>> {
+    const { invoiceId, ...note } = params;
+
+    return this.request<CreditNoteResponse>(`/api/invoices/${invoiceId}/credit-notes`, {
+      method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      body: JSON.stringify(note),
+    });
+  }
+
   async processPayment(params: PaymentRequest): Promise<ApiResponse<PaymentResponse>> {
     return this.request<PaymentResponse>('/api/payments', {
       method: 'POST',
@@ -192,6 +382,16 @@ export class OlympicHubApiClient {
     });
   }
 
+  async recordPayment(params: RecordPaymentRequest): Promise<ApiResponse<RecordPaymentResponse>> {
+    const { bookingId, ...payment } = params;
+
+    return this.request<RecordPaymentResponse>(`/api/bookings/${bookingId}/payments`, {
+      method: 'POST',
+      headers: { 'X-Staff-Key': process.env.STAFF_API_KEY || '' },
+      body: JSON.stringify(payment),
+    });
+  }
+
   // ====================================
   // PACKAGES & BLUEPRINTS
   // ====================================
@@ -0,0 +1,71 @@
+/**
+ * Booking Access - Who may read or change a booking
+ *
+ * A booking id proves nothing on its own. Staff tools send the staff key
+ * (see lib/staff-auth.ts); customers prove the booking is theirs with its
+ * booking reference and the email it was booked with, sent in the
+ * X-Booking-Reference and X-Customer-Email headers.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { bookingReferenceGenerator } from '@/lib/booking-reference';
+import { isStaffRequest } from '@/lib/staff-auth';
+import type { CustomerProof } from '@/types/api';
+
+const prisma = new PrismaClient();
+
+// History actor of changes made through staff tools
+export const STAFF_ACTOR = 'staff';
+
+/**
+ * The customer proof sent with a request, null when either part is missing
+ */
+export function customerProofOf(request: Request): CustomerProof | null {
+  const bookingReference = request.headers.get('X-Booking-Reference');
+  const customerEmail = request.headers.get('X-Customer-Email');
+
+  return bookingReference && customerEmail ? { bookingReference, customerEmail } : null;
+}
+
+/**
+ * Whether the proof matches the booking's reference and customer email
+ *
+ * The reference is compared in its canonical form and the email ignoring
+ * case, as customers type them.
+ */
+export function ownsBooking(
+  booking: { bookingReference?: string | null; customerEmail?: string | null },
+  proof: CustomerProof
+): boolean {
+  const bookingReference = bookingReferenceGenerator.normalize(proof.bookingReference);
+  const customerEmail = booking.customerEmail?.trim().toLowerCase();
+
+  return Boolean(
+    bookingReference &&
+      booking.bookingReference === bookingReference &&
+      customerEmail &&
+      customerEmail === proof.customerEmail.trim().toLowerCase()
+  );
+}
+
+/**
+ * Who is acting on the booking: STAFF_ACTOR for staff tools, the customer
+ * email for its customer, null when the request may not touch the booking
+ */
+export async function resolveBookingActor(request: Request, bookingId: string): Promise<string | null> {
+  if (isStaffRequest(request)) {
+    return STAFF_ACTOR;
+  }
+
+  const proof = customerProofOf(request);
+  if (!proof) {
+    return null;
+  }
+
+  const booking = await prisma.itinerary.findUnique({
+    where: { id: bookingId },
+    select: { bookingReference: true, customerEmail: true },
+  });
+
+  return booking && ownsBooking(booking, proof) ? booking.customerEmail : null;
+}
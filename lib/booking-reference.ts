@@ -0,0 +1,149 @@
+/**
+ * Booking Reference - Short, human-friendly booking codes
+ *
+ * References look like `W-K3M9Q4X`: a prefix for the channel the booking
+ * came from, six random characters and a check character. The alphabet
+ * leaves out 0/O and 1/I so a reference read out over the phone can't be
+ * mistyped into another valid one, and the check character (Luhn mod 32)
+ * catches single typos and most swapped neighbours before hitting the
+ * database.
+ *
+ * Uniqueness is enforced by the unique index on Itinerary.bookingReference:
+ * allocate() retries with a fresh code when a concurrent booking got the
+ * same one.
+ */
+
+import { randomInt } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { BookingChannel } from '@/types/package';
+
+export const REFERENCE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export interface BookingReferenceConfig {
+  prefixes: Record<BookingChannel, string>;
+  codeLength: number; // Random characters, without the check character
+  maxAttempts: number; // Codes tried before giving up on a collision
+}
+
+const DEFAULT_CONFIG: BookingReferenceConfig = {
+  prefixes: { WEB: 'W', MOBILE: 'M', API: 'A' },
+  codeLength: 6,
+  maxAttempts: 5,
+};
+
+export class BookingReferenceGenerator {
+  private config: BookingReferenceConfig;
+
+  constructor(config: Partial<BookingReferenceConfig> = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      prefixes: { ...DEFAULT_CONFIG.prefixes, ...config.prefixes },
+    };
+
+    for (const [channel, prefix] of Object.entries(this.config.prefixes)) {
+      if (!prefix || !isInAlphabet(prefix)) {
+        throw new Error(`Booking reference prefix "${prefix}" for ${channel} must only use ${REFERENCE_ALPHABET}`);
+      }
+    }
+  }
+
+  /**
+   * Generate a new reference for a channel (not yet checked for uniqueness)
+   */
+  generate(channel: BookingChannel = 'WEB'): string {
+    const prefix = this.config.prefixes[channel];
+    let code = '';
+
+    for (let i = 0; i < this.config.codeLength; i++) {
+      code += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)];
+    }
+
+    return `${prefix}-${code}${checkCharacter(prefix + code)}`;
+  }
+
+  /**
+   * Canonical form of a reference as typed by a customer
+   *
+   * Accepts lower case, spaces and missing or extra dashes. Returns null when
+   * the characters or the check character don't add up.
+   */
+  normalize(input: string): string | null {
+    const compact = input.toUpperCase().replace(/[\s-]/g, '');
+
+    // Everything before the random code and check character is the prefix
+    const prefixLength = compact.length - this.config.codeLength - 1;
+    if (prefixLength < 1 || !isInAlphabet(compact)) {
+      return null;
+    }
+
+    if (checkCharacter(compact.slice(0, -1)) !== compact.slice(-1)) {
+      return null;
+    }
+
+    return `${compact.slice(0, prefixLength)}-${compact.slice(prefixLength)}`;
+  }
+
+  /**
+   * Run `create` with a fresh reference, retrying when the reference is taken
+   *
+   * `create` has to insert the reference under the unique index, so a
+   * concurrent booking with the same code makes it fail rather than both
+   * succeeding.
+   */
+  async allocate<T>(channel: BookingChannel, create: (reference: string) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await create(this.generate(channel));
+      } catch (error) {
+        if (!isReferenceCollision(error) || attempt >= this.config.maxAttempts) {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Luhn mod N check character over REFERENCE_ALPHABET
+ */
+export function checkCharacter(input: string): string {
+  const n = REFERENCE_ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = input.length - 1; i >= 0; i--) {
+    const codePoint = REFERENCE_ALPHABET.indexOf(input[i]);
+    if (codePoint < 0) {
+      throw new Error(`"${input[i]}" is not a booking reference character`);
+    }
+
+    const addend = factor * codePoint;
+    sum += Math.floor(addend / n) + (addend % n);
+    factor = factor === 2 ? 1 : 2;
+  }
+
+  return REFERENCE_ALPHABET[(n - (sum % n)) % n];
+}
+
+function isInAlphabet(value: string): boolean {
+  return [...value].every(char => REFERENCE_ALPHABET.includes(char));
+}
+
+function isReferenceCollision(error: unknown): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+    return false;
+  }
+
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.includes('bookingReference') : String(target).includes('bookingReference');
+}
+
+// Export singleton instance
+export const bookingReferenceGenerator = new BookingReferenceGenerator({
+  prefixes: {
+    WEB: process.env.BOOKING_REFERENCE_PREFIX_WEB || DEFAULT_CONFIG.prefixes.WEB,
+    MOBILE: process.env.BOOKING_REFERENCE_PREFIX_MOBILE || DEFAULT_CONFIG.prefixes.MOBILE,
+    API: process.env.BOOKING_REFERENCE_PREFIX_API || DEFAULT_CONFIG.prefixes.API,
+  },
+});
@@ -0,0 +1,299 @@
+/**
+ * Booking Service - Turning quotes into booked itineraries
+ *
+ * Every booking is priced from a quote. A booking that arrives with a valid
+ * quote is charged exactly the quoted price; one without a quote is quoted on
+ * the spot. Expired quotes are re-priced first and a changed price has to be
+ * confirmed by the customer (see QuotePriceChangedError).
+ */
+
+import { PrismaClient, type Itinerary as ItineraryRecord } from '@prisma/client';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { quoteService, QuotePriceChangedError } from '@/lib/quote-service';
+import { countTravelers, resolveTravelerComposition } from '@/lib/travelers';
+import { Money } from '@/lib/money';
+import { bookingReferenceGenerator } from '@/lib/booking-reference';
+import { bookingAmountDue, bookingStateMachine, derivePaymentStatus, sumApprovedPayments } from '@/lib/booking-state-machine';
+import { inventoryService, quoteAllocation } from '@/lib/inventory-service';
+import type {
+  BookingStatusResponse,
+  CreateBookingRequest,
+  CreateBookingResponse,
+  RecordPaymentRequest,
+  RecordPaymentResponse,
+} from '@/types/api';
+import type { BookingStatus, Itinerary, Quote } from '@/types/package';
+
+const prisma = new PrismaClient();
+
+// Bookings that take payments; balances may still come in after travel
+const PAYABLE_STATUSES: BookingStatus[] = ['CONFIRMED', 'PAID', 'COMPLETED'];
+
+export type PaymentErrorCode = 'NOT_FOUND' | 'INVALID_PAYMENT';
+
+export class PaymentError extends Error {
+  constructor(
+    readonly code: PaymentErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentError';
+  }
+}
+
+export class BookingService {
+  /**
+   * Create a booking at the quoted price
+   *
+   * The booking takes over the hold placed at the review step; without one
+   * the inventory is held here and given back if the booking fails.
+   *
+   * @throws QuotePriceChangedError when the quote expired and re-pricing changed the total
+   * @throws HoldMismatchError when the given hold was placed for another allocation
+   * @throws InventoryUnavailableError when the hold expired or the inventory is sold out
+   */
+  async createBooking(request: CreateBookingRequest): Promise<CreateBookingResponse> {
+    const quote = request.quoteId
+      ? await this.resolveBookableQuote(request.quoteId)
+      : await this.quoteItinerary(request);
+
+    const { selection, calculation } = quote;
+    const allocation = quoteAllocation(quote);
+    const holdId = request.holdId || (await inventoryService.placeHold(allocation, { quoteId: quote.id })).id;
+
+    // A taken reference rolls the whole transaction back, quote claim included
+    const itinerary = await bookingReferenceGenerator.allocate(
+      request.sourceChannel || 'WEB',
+      bookingReference => prisma.$transaction(async tx => {
+        // Claim the quote first so two bookings can never share it
+        const claimed = await tx.quote.updateMany({
+          where: { id: quote.id, status: 'ACTIVE' },
+          data: { status: 'BOOKED' },
+        });
+
+        if (claimed.count === 0) {
+          throw new Error(`Quote ${quote.id} is no longer available`);
+        }
+
+        const created = await tx.itinerary.create({
+          data: {
+            customerName: request.customer.name,
+            customerEmail: request.customer.email,
+            flightId: selection.flightId,
+            hotelId: selection.hotelId,
+            roomId: selection.roomId,
+            rooms: calculation.componentPricing?.roomsNeeded ?? selection.rooms ?? 1,
+            transferId: selection.transferId,
+            packageBlueprintId: selection.packageBlueprintId ?? request.itinerary?.packageBlueprintId,
+            checkInDate: selection.checkInDate,
+            checkOutDate: selection.checkOutDate,
+            travelers: countTravelers(selection.travelers),
+            adults: selection.travelers.adults,
+            childAges: selection.travelers.childAges,
+            infants: selection.travelers.infants,
+            totalPrice: quote.totalPrice,
+            currency: quote.currency,
+            opaqueMask: quote.options.opaqueMask,
+            status: 'CONFIRMED',
+            bookingReference,
+            priceComponents: {
+              create: packagingEngine.toPriceComponentRecords(calculation.breakdown),
+            },
+            statusHistory: {
+              create: {
+                toStatus: 'CONFIRMED',
+                actor: request.agentId || request.customer.email,
+                reason: `Booked from quote ${quote.id}`,
+              },
+            },
+          },
+        });
+
+        await tx.quote.update({
+          where: { id: quote.id },
+          data: { itineraryId: created.id },
+        });
+
+        await inventoryService.attachHold(tx, holdId, created.id, allocation);
+
+        return created;
+      })
+    ).catch(async error => {
+      if (!request.holdId) {
+        await inventoryService.releaseHold(holdId);
+      }
+      throw error;
+    });
+
+    return {
+      success: true,
+      bookingId: itinerary.id,
+      bookingReference: itinerary.bookingReference || '',
+      itinerary: this.toItinerary(itinerary),
+      quoteId: quote.id,
+    };
+  }
+
+  /**
+   * Current status and payment status of a booking
+   *
+   * Found by internal ID or by the customer-facing booking reference, which
+   * may be typed loosely (case, dashes); a reference with a wrong check
+   * character isn't looked up.
+   */
+  async getBookingStatus(params: { bookingId?: string; bookingReference?: string }): Promise<BookingStatusResponse | null> {
+    const bookingReference = params.bookingReference && bookingReferenceGenerator.normalize(params.bookingReference);
+
+    if (!params.bookingId && !bookingReference) {
+      return null;
+    }
+
+    const itinerary = await prisma.itinerary.findFirst({
+      where: params.bookingId ? { id: params.bookingId } : { bookingReference },
+      include: { payments: true },
+    });
+
+    if (!itinerary) {
+      return null;
+    }
+
+    const totalPrice = bookingAmountDue(itinerary);
+    const paidAmount = sumApprovedPayments(itinerary.payments, itinerary.currency);
+    const hasRefunds = itinerary.payments.some(payment => Number(payment.amount) < 0);
+
+    return {
+      status: itinerary.status as BookingStatus,
+      itinerary: this.toItinerary(itinerary),
+      paymentStatus: derivePaymentStatus(totalPrice, paidAmount, hasRefunds),
+      lastUpdated: itinerary.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Record a payment confirmed by the payment provider
+   *
+   * A CONFIRMED booking that is paid in full moves to PAID, which makes its
+   * inventory hold firm.
+   *
+   * @throws PaymentError when the booking is missing or the payment doesn't fit it
+   */
+  async recordPayment(payment: RecordPaymentRequest): Promise<RecordPaymentResponse> {
+    const { bookingId, actor = 'system' } = payment;
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id: bookingId },
+      include: { payments: true },
+    });
+
+    if (!itinerary) {
+      throw new PaymentError('NOT_FOUND', `Booking ${bookingId} not found`);
+    }
+
+    if (!PAYABLE_STATUSES.includes(itinerary.status as BookingStatus)) {
+      throw new PaymentError('INVALID_PAYMENT', `A ${itinerary.status} booking can't take payments`);
+    }
+
+    if (payment.currency !== itinerary.currency) {
+      throw new PaymentError('INVALID_PAYMENT', `Booking ${bookingId} is payable in ${itinerary.currency}, got ${payment.currency}`);
+    }
+
+    if (!Money.of(payment.amount, payment.currency).isPositive()) {
+      throw new PaymentError('INVALID_PAYMENT', 'A payment needs a positive amount; refunds are booked by cancelling');
+    }
+
+    const created = await prisma.payment.create({
+      data: {
+        itineraryId: bookingId,
+        amount: Money.of(payment.amount, payment.currency).toNumber(),
+        currency: payment.currency,
+        method: payment.method,
+        status: 'APPROVED',
+        transactionId: payment.transactionId,
+      },
+    });
+
+    const totalPrice = bookingAmountDue(itinerary);
+    const paidAmount = sumApprovedPayments([...itinerary.payments, created], itinerary.currency);
+    const paymentStatus = derivePaymentStatus(totalPrice, paidAmount, false);
+    let status = itinerary.status as BookingStatus;
+
+    if (paymentStatus === 'PAID' && status === 'CONFIRMED') {
+      await bookingStateMachine.transition(bookingId, 'PAID', {
+        actor,
+        reason: `Payment ${payment.transactionId || created.id} settled the booking`,
+        effects: tx => inventoryService.confirmBookingHold(tx, bookingId),
+      });
+      status = 'PAID';
+    }
+
+    return { paymentId: created.id, paymentStatus, status };
+  }
+
+  /**
+   * Resolve a quote for booking, refusing silent price changes
+   */
+  private async resolveBookableQuote(quoteId: string): Promise<Quote> {
+    const { quote, priceChanges } = await quoteService.resolveQuote(quoteId);
+
+    if (priceChanges) {
+      throw new QuotePriceChangedError(quote.id, priceChanges);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Quote the itinerary of a booking that came without a quote
+   */
+  private async quoteItinerary(request: CreateBookingRequest): Promise<Quote> {
+    const { itinerary } = request;
+
+    if (!itinerary?.checkInDate || !itinerary.checkOutDate) {
+      throw new Error('A booking without a quote needs check-in and check-out dates');
+    }
+
+    return quoteService.createQuote(
+      {
+        flightId: itinerary.flight?.id,
+        hotelId: itinerary.hotel?.id,
+        roomId: itinerary.room?.id,
+        transferId: itinerary.transfer?.id,
+        checkInDate: new Date(itinerary.checkInDate),
+        checkOutDate: new Date(itinerary.checkOutDate),
+        travelers: resolveTravelerComposition(itinerary.travelers, itinerary.travelerComposition),
+        rooms: itinerary.rooms,
+        packageBlueprintId: itinerary.packageBlueprintId,
+      },
+      {
+        currency: itinerary.currency,
+      }
+    );
+  }
+
+  private toItinerary(itinerary: ItineraryRecord): Itinerary {
+    return {
+      id: itinerary.id,
+      customerName: itinerary.customerName || undefined,
+      customerEmail: itinerary.customerEmail || undefined,
+      rooms: itinerary.rooms,
+      checkInDate: itinerary.checkInDate,
+      checkOutDate: itinerary.checkOutDate,
+      travelers: itinerary.travelers,
+      travelerComposition: {
+        adults: itinerary.adults,
+        childAges: itinerary.childAges,
+        infants: itinerary.infants,
+      },
+      totalPrice: Number(itinerary.totalPrice),
+      currency: itinerary.currency,
+      opaqueMask: itinerary.opaqueMask,
+      status: itinerary.status as BookingStatus,
+      bookingReference: itinerary.bookingReference || undefined,
+      packageBlueprintId: itinerary.packageBlueprintId || undefined,
+      createdAt: itinerary.createdAt,
+      updatedAt: itinerary.updatedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const bookingService = new BookingService();
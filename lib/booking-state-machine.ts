@@ -0,0 +1,273 @@
+/**
+ * Booking State Machine - Allowed Itinerary.status transitions
+ *
+ * Defines which status a booking may move to, the guards each move has to
+ * pass and the hooks that run once a move is committed. Every transition is
+ * written to BookingStatusHistory together with who made it and why, in the
+ * same transaction as the status change.
+ */
+
+import { PrismaClient, type Prisma, type BookingStatusHistory as BookingStatusHistoryRecord } from '@prisma/client';
+import { Money } from '@/lib/money';
+import type { BookingStatus, BookingStatusChange, PaymentStatus } from '@/types/package';
+
+const prisma = new PrismaClient();
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  DRAFT: ['PENDING', 'CONFIRMED', 'CANCELLED'],
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['PAID', 'CANCELLED'],
+  PAID: ['COMPLETED', 'CANCELLED'],
+  CANCELLED: [],
+  COMPLETED: [],
+};
+
+/**
+ * What guards get to look at
+ */
+export interface BookingGuardContext {
+  itinerary: {
+    id: string;
+    status: BookingStatus;
+    totalPrice: Money; // Change fees included
+    checkOutDate: Date;
+  };
+  paidAmount: Money; // Approved payments net of refunds
+  now: Date;
+}
+
+/**
+ * Returns the reason the transition is refused, or null to allow it
+ */
+export type BookingGuard = (context: BookingGuardContext) => string | null;
+
+export interface BookingTransitionEvent {
+  itineraryId: string;
+  fromStatus: BookingStatus;
+  toStatus: BookingStatus;
+  actor: string;
+  reason?: string;
+  change: BookingStatusChange;
+}
+
+export type BookingTransitionHook = (event: BookingTransitionEvent) => Promise<void> | void;
+
+export type BookingTransitionErrorCode = 'NOT_FOUND' | 'INVALID_TRANSITION' | 'GUARD_FAILED' | 'CONFLICT';
+
+export class BookingTransitionError extends Error {
+  constructor(
+    readonly code: BookingTransitionErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BookingTransitionError';
+  }
+}
+
+const GUARDS: Partial<Record<BookingStatus, BookingGuard[]>> = {
+  PAID: [
+    ({ itinerary, paidAmount }) => paidAmount.compare(itinerary.totalPrice) >= 0
+      ? null
+      : `Only ${paidAmount.toString()} of ${itinerary.totalPrice.toString()} ${itinerary.totalPrice.currency} has been paid`,
+  ],
+  COMPLETED: [
+    ({ itinerary, now }) => itinerary.checkOutDate <= now
+      ? null
+      : 'A booking can only be completed after check-out',
+  ],
+};
+
+export class BookingStateMachine {
+  private hooks = new Map<BookingStatus | '*', BookingTransitionHook[]>();
+
+  /**
+   * Check the transition table only (guards need the database)
+   */
+  canTransition(from: BookingStatus, to: BookingStatus): boolean {
+    return BOOKING_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Run a hook after every committed transition into `status` ('*' for all)
+   *
+   * @returns A function that removes the hook again
+   */
+  registerHook(status: BookingStatus | '*', hook: BookingTransitionHook): () => void {
+    this.hooks.set(status, [...(this.hooks.get(status) || []), hook]);
+
+    return () => {
+      this.hooks.set(status, (this.hooks.get(status) || []).filter(h => h !== hook));
+    };
+  }
+
+  /**
+   * Move a booking to a new status
+   *
+   * The status update is conditional on the status it was read with, so two
+   * concurrent transitions can't both win. `effects` runs inside the same
+   * transaction, for writes that must stand or fall with the status change.
+   * Hooks run after commit; a failing hook doesn't undo the transition and is
+   * reported in `hookErrors`.
+   *
+   * @throws BookingTransitionError when the booking is missing, the move isn't
+   *   allowed, a guard refuses it or another transition got there first
+   */
+  async transition(
+    itineraryId: string,
+    toStatus: BookingStatus,
+    options: {
+      actor: string;
+      reason?: string;
+      metadata?: Record<string, unknown>;
+      effects?: (tx: Prisma.TransactionClient, change: BookingStatusChange) => Promise<void>;
+      timeout?: number; // For effects slower than the default transaction timeout
+    }
+  ): Promise<{ change: BookingStatusChange; hookErrors: string[] }> {
+    const { fromStatus, change } = await prisma.$transaction(async tx => {
+      const itinerary = await tx.itinerary.findUnique({
+        where: { id: itineraryId },
+        include: { payments: true },
+      });
+
+      if (!itinerary) {
+        throw new BookingTransitionError('NOT_FOUND', `Booking ${itineraryId} not found`);
+      }
+
+      const from = itinerary.status as BookingStatus;
+
+      if (!this.canTransition(from, toStatus)) {
+        throw new BookingTransitionError('INVALID_TRANSITION', `Booking ${itineraryId} can't move from ${from} to ${toStatus}`);
+      }
+
+      const context: BookingGuardContext = {
+        itinerary: {
+          id: itinerary.id,
+          status: from,
+          totalPrice: bookingAmountDue(itinerary),
+          checkOutDate: itinerary.checkOutDate,
+        },
+        paidAmount: sumApprovedPayments(itinerary.payments, itinerary.currency),
+        now: new Date(),
+      };
+
+      const refusal = (GUARDS[toStatus] || []).map(guard => guard(context)).find(Boolean);
+      if (refusal) {
+        throw new BookingTransitionError('GUARD_FAILED', refusal);
+      }
+
+      const updated = await tx.itinerary.updateMany({
+        where: { id: itineraryId, status: from },
+        data: { status: toStatus },
+      });
+
+      if (updated.count === 0) {
+        throw new BookingTransitionError('CONFLICT', `Booking ${itineraryId} changed status concurrently`);
+      }
+
+      const history = await tx.bookingStatusHistory.create({
+        data: {
+          itineraryId,
+          fromStatus: from,
+          toStatus,
+          actor: options.actor,
+          reason: options.reason,
+          metadata: options.metadata as Prisma.InputJsonValue | undefined,
+        },
+      });
+
+      const change = toStatusChange(history);
+      await options.effects?.(tx, change);
+
+      return { fromStatus: from, change };
+    }, { timeout: options.timeout });
+
+    const event: BookingTransitionEvent = {
+      itineraryId,
+      fromStatus,
+      toStatus,
+      actor: options.actor,
+      reason: options.reason,
+      change,
+    };
+
+    const hookErrors: string[] = [];
+    for (const hook of [...(this.hooks.get(toStatus) || []), ...(this.hooks.get('*') || [])]) {
+      try {
+        await hook(event);
+      } catch (error) {
+        hookErrors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return { change, hookErrors };
+  }
+
+  /**
+   * Status history of a booking, oldest first
+   */
+  async getHistory(itineraryId: string): Promise<BookingStatusChange[]> {
+    const history = await prisma.bookingStatusHistory.findMany({
+      where: { itineraryId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return history.map(toStatusChange);
+  }
+}
+
+/**
+ * What a booking costs the customer: its price plus the change fees its
+ * amendments charged
+ */
+export function bookingAmountDue(
+  itinerary: { totalPrice: Prisma.Decimal | number; changeFees: Prisma.Decimal | number; currency: string }
+): Money {
+  return Money.of(itinerary.totalPrice, itinerary.currency).add(Money.of(itinerary.changeFees, itinerary.currency));
+}
+
+/**
+ * Approved payments net of refunds
+ */
+export function sumApprovedPayments(
+  payments: { amount: Prisma.Decimal | number; currency: string; status: string }[],
+  currency: string
+): Money {
+  return Money.sum(
+    payments
+      .filter(payment => payment.status === 'APPROVED')
+      .map(payment => {
+        if (payment.currency !== currency) {
+          throw new Error(`Payment in ${payment.currency} on a booking in ${currency}`);
+        }
+        return Money.of(payment.amount, currency);
+      }),
+    currency
+  );
+}
+
+/**
+ * Payment status from what has been paid against the total
+ */
+export function derivePaymentStatus(totalPrice: Money, paidAmount: Money, hasRefunds: boolean): PaymentStatus {
+  if (paidAmount.isZero() || paidAmount.isNegative()) {
+    return hasRefunds ? 'REFUNDED' : 'UNPAID';
+  }
+
+  return paidAmount.compare(totalPrice) >= 0 ? 'PAID' : 'PARTIALLY_PAID';
+}
+
+function toStatusChange(history: BookingStatusHistoryRecord): BookingStatusChange {
+  return {
+    id: history.id,
+    itineraryId: history.itineraryId,
+    fromStatus: (history.fromStatus as BookingStatus) || undefined,
+    toStatus: history.toStatus as BookingStatus,
+    actor: history.actor,
+    reason: history.reason || undefined,
+    metadata: (history.metadata as Record<string, unknown>) || undefined,
+    createdAt: history.createdAt,
+  };
+}
+
+// Export singleton instance
+export const bookingStateMachine = new BookingStateMachine();
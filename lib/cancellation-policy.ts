@@ -0,0 +1,136 @@
+/**
+ * Cancellation Policy - Pure penalty and refund calculation
+ *
+ * Every booked price component is covered by at most one policy: the room's
+ * for the hotel, otherwise the component supplier's, otherwise the package
+ * blueprint's. A component without any policy cancels free of charge; a
+ * non-refundable policy or fare forfeits it completely. Otherwise the tier
+ * with the most days before check-in that the cancellation still meets sets
+ * the penalty, and cancelling later than the last tier forfeits everything.
+ */
+
+import { Money } from '@/lib/money';
+import type {
+  CancellationPenaltyTier,
+  CancellationPolicy,
+  PriceComponent,
+} from '@/types/package';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * What a price component is booked with, for policy resolution
+ */
+export interface CancellationTarget {
+  componentType: PriceComponent['componentType'];
+  supplierId?: string;
+  roomId?: string;
+  packageBlueprintId?: string;
+  nonRefundableFare?: boolean;
+}
+
+export interface ComponentPenalty {
+  policy?: CancellationPolicy;
+  tier?: CancellationPenaltyTier;
+  nonRefundable: boolean;
+  cancellationFee: Money;
+  refundable: Money;
+}
+
+/**
+ * Whole days from the cancellation to check-in (negative once checked in)
+ */
+export function daysBeforeCheckIn(checkInDate: Date, cancelledAt: Date): number {
+  const checkInDay = Date.UTC(checkInDate.getUTCFullYear(), checkInDate.getUTCMonth(), checkInDate.getUTCDate());
+  const cancelDay = Date.UTC(cancelledAt.getUTCFullYear(), cancelledAt.getUTCMonth(), cancelledAt.getUTCDate());
+  return Math.round((checkInDay - cancelDay) / MS_PER_DAY);
+}
+
+/**
+ * The policy covering a component, or undefined for free cancellation
+ *
+ * Scopes are tried room, supplier, package blueprint; within a scope a
+ * component-specific policy wins over a general one, then higher priority.
+ */
+export function resolveCancellationPolicy(
+  policies: CancellationPolicy[],
+  target: CancellationTarget
+): CancellationPolicy | undefined {
+  const covers = (policy: CancellationPolicy) => !policy.componentType || policy.componentType === target.componentType;
+  const byPrecedence = (a: CancellationPolicy, b: CancellationPolicy) =>
+    Number(Boolean(b.componentType)) - Number(Boolean(a.componentType)) || b.priority - a.priority;
+
+  const scopes: ((policy: CancellationPolicy) => boolean)[] = [
+    policy => Boolean(target.roomId) && policy.roomId === target.roomId,
+    policy => Boolean(target.supplierId) && policy.supplierId === target.supplierId,
+    policy => Boolean(target.packageBlueprintId) && policy.packageBlueprintId === target.packageBlueprintId,
+  ];
+
+  for (const inScope of scopes) {
+    const candidates = policies.filter(policy => inScope(policy) && covers(policy)).sort(byPrecedence);
+    if (candidates.length > 0) {
+      return candidates[0];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The tier that applies `daysBefore` days ahead of check-in, if any
+ */
+export function selectPenaltyTier(
+  tiers: CancellationPenaltyTier[],
+  daysBefore: number
+): CancellationPenaltyTier | undefined {
+  return tiers
+    .filter(tier => tier.minDaysBefore <= daysBefore)
+    .sort((a, b) => b.minDaysBefore - a.minDaysBefore)[0];
+}
+
+/**
+ * Penalty and refundable part of one component's price
+ *
+ * @param totalPrice - What the customer was charged for the component
+ * @param options.policyRate - 1 policy currency = X component currency, for fixed penalties
+ */
+export function calculateComponentPenalty(
+  totalPrice: Money,
+  policy: CancellationPolicy | undefined,
+  daysBefore: number,
+  options: { nonRefundableFare?: boolean; policyRate?: number } = {}
+): ComponentPenalty {
+  const zero = Money.zero(totalPrice.currency);
+
+  if (options.nonRefundableFare || policy?.nonRefundable) {
+    return { policy, nonRefundable: true, cancellationFee: totalPrice, refundable: zero };
+  }
+
+  if (!policy) {
+    return { nonRefundable: false, cancellationFee: zero, refundable: totalPrice };
+  }
+
+  const tier = selectPenaltyTier(policy.tiers, daysBefore);
+  if (!tier) {
+    return { policy, nonRefundable: false, cancellationFee: totalPrice, refundable: zero };
+  }
+
+  let fixed = Money.of(tier.penaltyFixed, policy.currency);
+  if (fixed.currency !== totalPrice.currency) {
+    if (options.policyRate === undefined) {
+      throw new Error(`No ${policy.currency}/${totalPrice.currency} rate for the fixed penalty of "${policy.name}"`);
+    }
+    fixed = fixed.convert(options.policyRate, totalPrice.currency);
+  }
+
+  const cancellationFee = Money.min(totalPrice.percent(tier.penaltyPercent).add(fixed), totalPrice);
+
+  return {
+    policy,
+    tier,
+    nonRefundable: false,
+    cancellationFee,
+    refundable: totalPrice.subtract(cancellationFee),
+  };
+}
+
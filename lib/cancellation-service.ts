@@ -0,0 +1,327 @@
+/**
+ * Cancellation Service - Quoting and carrying out booking cancellations
+ *
+ * A cancellation quote applies the cancellation policies to every booked
+ * PriceComponent (see lib/cancellation-policy.ts) and weighs the fees
+ * against what the customer actually paid. Cancelling moves the booking to
+ * CANCELLED and, in the same transaction, books the refund: a pending
+ * negative payment for refunds to the original payment method, or credit
+ * the customer keeps. Either way the refund is documented by a credit note
+ * against the booking's invoice (see lib/credit-note-service.ts). The
+ * booking's seats and rooms go back into inventory with it.
+ */
+
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { Money } from '@/lib/money';
+import { currencyService } from '@/lib/currency-service';
+import { inventoryService } from '@/lib/inventory-service';
+import { creditNoteService } from '@/lib/credit-note-service';
+import { NUMBERING_TRANSACTION_TIMEOUT_MS } from '@/lib/invoice-numbering';
+import { bookingStateMachine, BookingTransitionError, sumApprovedPayments } from '@/lib/booking-state-machine';
+import {
+  calculateComponentPenalty,
+  daysBeforeCheckIn,
+  resolveCancellationPolicy,
+  type CancellationTarget,
+} from '@/lib/cancellation-policy';
+import type {
+  CancelBookingRequest,
+  CancelBookingResponse,
+  CancellationQuoteResponse,
+} from '@/types/api';
+import type {
+  BookingStatus,
+  CancellationPolicy,
+  CancellationQuote,
+  ComponentRefund,
+  PackageComponentType,
+  PriceComponent,
+  RefundMethod,
+} from '@/types/package';
+
+const prisma = new PrismaClient();
+
+/**
+ * Thrown when the refund no longer matches the amount the customer accepted
+ * (e.g., the cancellation moved into a stricter tier since it was quoted)
+ */
+export class RefundChangedError extends Error {
+  constructor(
+    readonly quote: CancellationQuote,
+    readonly acceptedRefundAmount: number
+  ) {
+    super(`The refund changed from ${acceptedRefundAmount} to ${quote.refundAmount} ${quote.currency}`);
+    this.name = 'RefundChangedError';
+  }
+}
+
+export class CancellationService {
+  /**
+   * Load the active policies of the given suppliers, room and blueprint
+   */
+  async getCancellationPolicies(scope: {
+    supplierIds: string[];
+    roomId?: string;
+    packageBlueprintId?: string;
+  }): Promise<CancellationPolicy[]> {
+    const or: Prisma.CancellationPolicyWhereInput[] = [
+      ...(scope.supplierIds.length > 0 ? [{ supplierId: { in: scope.supplierIds } }] : []),
+      ...(scope.roomId ? [{ roomId: scope.roomId }] : []),
+      ...(scope.packageBlueprintId ? [{ packageBlueprintId: scope.packageBlueprintId }] : []),
+    ];
+
+    if (or.length === 0) {
+      return [];
+    }
+
+    const policies = await prisma.cancellationPolicy.findMany({
+      where: { isActive: true, OR: or },
+      include: { tiers: true },
+    });
+
+    return policies.map(policy => ({
+      id: policy.id,
+      name: policy.name,
+      supplierId: policy.supplierId || undefined,
+      roomId: policy.roomId || undefined,
+      packageBlueprintId: policy.packageBlueprintId || undefined,
+      componentType: (policy.componentType?.toUpperCase() as PackageComponentType) || undefined,
+      nonRefundable: policy.nonRefundable,
+      tiers: policy.tiers.map(tier => ({
+        minDaysBefore: tier.minDaysBefore,
+        penaltyPercent: Number(tier.penaltyPercent),
+        penaltyFixed: Number(tier.penaltyFixed),
+      })),
+      changeFee: Number(policy.changeFee),
+      currency: policy.currency,
+      priority: policy.priority,
+    }));
+  }
+
+  /**
+   * Work out fees and refund for cancelling a booking now, without cancelling it
+   *
+   * @throws BookingTransitionError when the booking is missing or can't be cancelled
+   */
+  async quoteCancellation(
+    bookingId: string,
+    options: { refundMethod?: RefundMethod; cancelledAt?: Date } = {}
+  ): Promise<CancellationQuote> {
+    const { refundMethod = 'ORIGINAL', cancelledAt = new Date() } = options;
+
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id: bookingId },
+      include: {
+        priceComponents: { where: { supersededAt: null } },
+        payments: true,
+        flight: { select: { supplierId: true, refundable: true } },
+        hotel: { select: { supplierId: true } },
+        transfer: { select: { supplierId: true } },
+      },
+    });
+
+    if (!itinerary) {
+      throw new BookingTransitionError('NOT_FOUND', `Booking ${bookingId} not found`);
+    }
+
+    if (!bookingStateMachine.canTransition(itinerary.status as BookingStatus, 'CANCELLED')) {
+      throw new BookingTransitionError('INVALID_TRANSITION', `Booking ${bookingId} is ${itinerary.status} and can't be cancelled`);
+    }
+
+    const { currency } = itinerary;
+    const supplierIds: Partial<Record<PackageComponentType, string>> = {
+      FLIGHT: itinerary.flight?.supplierId || undefined,
+      HOTEL: itinerary.hotel?.supplierId || undefined,
+      TRANSFER: itinerary.transfer?.supplierId || undefined,
+    };
+
+    const policies = await this.getCancellationPolicies({
+      supplierIds: Object.values(supplierIds).filter((id): id is string => Boolean(id)),
+      roomId: itinerary.roomId || undefined,
+      packageBlueprintId: itinerary.packageBlueprintId || undefined,
+    });
+
+    // Fixed penalties are defined in the policy currency
+    const policyRates = new Map<string, number>();
+    for (const policyCurrency of new Set(policies.map(policy => policy.currency))) {
+      const rate = await currencyService.getRate(policyCurrency, currency, cancelledAt);
+      policyRates.set(policyCurrency, rate.rate);
+    }
+
+    const daysBefore = daysBeforeCheckIn(itinerary.checkInDate, cancelledAt);
+
+    const components: ComponentRefund[] = itinerary.priceComponents.map(component => {
+      const componentType = component.componentType as PriceComponent['componentType'];
+      const target: CancellationTarget = {
+        componentType,
+        supplierId: supplierIds[componentType as PackageComponentType],
+        roomId: componentType === 'HOTEL' ? itinerary.roomId || undefined : undefined,
+        packageBlueprintId: itinerary.packageBlueprintId || undefined,
+        nonRefundableFare: componentType === 'FLIGHT' && itinerary.flight?.refundable === false,
+      };
+
+      const policy = resolveCancellationPolicy(policies, target);
+      const totalPrice = Money.of(component.totalPrice, currency);
+      const penalty = calculateComponentPenalty(totalPrice, policy, daysBefore, {
+        nonRefundableFare: target.nonRefundableFare,
+        policyRate: policy && policyRates.get(policy.currency),
+      });
+
+      return {
+        priceComponentId: component.id,
+        componentType,
+        totalPrice: totalPrice.toNumber(),
+        cancellationFee: penalty.cancellationFee.toNumber(),
+        refundable: penalty.refundable.toNumber(),
+        nonRefundable: penalty.nonRefundable,
+        policyId: policy?.id,
+        policyName: policy?.name,
+        tier: penalty.tier,
+      };
+    });
+
+    const cancellationFee = Money.sum(components.map(c => Money.of(c.cancellationFee, currency)), currency);
+    // Change fees paid for amendments bought a service already delivered
+    const changeFees = Money.of(itinerary.changeFees, currency);
+    const paidAmount = sumApprovedPayments(itinerary.payments, currency);
+    const refundAmount = refundMethod === 'NONE'
+      ? Money.zero(currency)
+      : Money.max(paidAmount.subtract(cancellationFee).subtract(changeFees), Money.zero(currency));
+
+    return {
+      bookingId: itinerary.id,
+      bookingReference: itinerary.bookingReference || undefined,
+      cancelledAt,
+      daysBeforeCheckIn: daysBefore,
+      components,
+      cancellationFee: cancellationFee.toNumber(),
+      changeFees: changeFees.toNumber(),
+      paidAmount: paidAmount.toNumber(),
+      refundAmount: refundAmount.toNumber(),
+      currency,
+      refundMethod,
+      opaqueMask: itinerary.opaqueMask,
+    };
+  }
+
+  /**
+   * Cancel a booking and book its refund
+   *
+   * @throws RefundChangedError when `acceptedRefundAmount` no longer matches
+   * @throws BookingTransitionError when the booking can't be cancelled
+   * @throws InvoiceError when the refund's credit note fails SEF validation
+   */
+  async cancelBooking(request: CancelBookingRequest, options: { actor: string }): Promise<CancelBookingResponse> {
+    const quote = await this.quoteCancellation(request.bookingId, { refundMethod: request.refundMethod });
+
+    if (
+      request.acceptedRefundAmount !== undefined &&
+      !Money.of(request.acceptedRefundAmount, quote.currency).equals(Money.of(quote.refundAmount, quote.currency))
+    ) {
+      throw new RefundChangedError(quote, request.acceptedRefundAmount);
+    }
+
+    const refundAmount = Money.of(quote.refundAmount, quote.currency);
+    const creditNote = refundAmount.isPositive()
+      ? await creditNoteService.prepareRefundNote(quote, request.reason)
+      : null;
+    let creditNoteNumber: string | undefined;
+
+    await bookingStateMachine.transition(request.bookingId, 'CANCELLED', {
+      actor: options.actor,
+      timeout: creditNote ? NUMBERING_TRANSACTION_TIMEOUT_MS : undefined,
+      reason: request.reason,
+      metadata: {
+        refundMethod: quote.refundMethod,
+        cancellationFee: quote.cancellationFee,
+        refundAmount: quote.refundAmount,
+        daysBeforeCheckIn: quote.daysBeforeCheckIn,
+      },
+      effects: async tx => {
+        await inventoryService.releaseBookingHold(tx, request.bookingId);
+
+        if (!creditNote) {
+          return;
+        }
+
+        creditNoteNumber = (await creditNoteService.store(tx, creditNote)).creditNoteNumber;
+
+        if (quote.refundMethod === 'CREDIT') {
+          return;
+        }
+
+        const lastPayment = await tx.payment.findFirst({
+          where: { itineraryId: request.bookingId, status: 'APPROVED', amount: { gt: 0 } },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        await tx.payment.create({
+          data: {
+            itineraryId: request.bookingId,
+            amount: refundAmount.negate().toNumber(),
+            currency: quote.currency,
+            method: lastPayment?.method || 'BANK_TRANSFER',
+            status: 'PENDING',
+          },
+        });
+      },
+    });
+
+    return {
+      success: true,
+      refundAmount: quote.refundAmount,
+      refundStatus: refundAmount.isPositive()
+        ? (quote.refundMethod === 'CREDIT' ? 'PROCESSED' : 'PENDING')
+        : undefined,
+      cancellationFee: quote.cancellationFee,
+      refundMethod: quote.refundMethod,
+      creditNoteNumber,
+    };
+  }
+}
+
+/**
+ * What the customer sees of a cancellation quote
+ */
+export function toCancellationQuoteResponse(quote: CancellationQuote): CancellationQuoteResponse {
+  const { currency } = quote;
+
+  // Legacy MARGIN and TAX rows only add up as a whole, as in the price view
+  const opaque = quote.opaqueMask || quote.components.some(
+    component => component.componentType === 'MARGIN' || component.componentType === 'TAX'
+  );
+
+  const lines: CancellationQuoteResponse['lines'] = opaque
+    ? [{
+        label: 'PACKAGE',
+        totalPrice: Money.sum(quote.components.map(c => Money.of(c.totalPrice, currency)), currency).toNumber(),
+        cancellationFee: quote.cancellationFee,
+        refundable: Money.sum(quote.components.map(c => Money.of(c.refundable, currency)), currency).toNumber(),
+        nonRefundable: quote.components.length > 0 && quote.components.every(c => c.nonRefundable),
+      }]
+    : quote.components.map(component => ({
+        label: component.componentType as PackageComponentType,
+        totalPrice: component.totalPrice,
+        cancellationFee: component.cancellationFee,
+        refundable: component.refundable,
+        nonRefundable: component.nonRefundable,
+        policyName: component.policyName,
+      }));
+
+  return {
+    bookingId: quote.bookingId,
+    bookingReference: quote.bookingReference,
+    daysBeforeCheckIn: quote.daysBeforeCheckIn,
+    lines,
+    cancellationFee: quote.cancellationFee,
+    changeFees: quote.changeFees,
+    paidAmount: quote.paidAmount,
+    refundAmount: quote.refundAmount,
+    currency,
+    refundMethod: quote.refundMethod,
+    quotedAt: quote.cancelledAt.toISOString(),
+  };
+}
+
+// Export singleton instance
+export const cancellationService = new CancellationService();
@@ -0,0 +1,180 @@
+/**
+ * Component Pricing - Net prices of the selected flight, room and transfer
+ *
+ * Turns supplier unit prices into component totals for a stay: flights per
+ * passenger type, rooms night by night from the rate calendar for as many
+ * rooms as the party needs plus extra beds, and transfers per person or per
+ * vehicle. Pure, so the package builder can show the same numbers the
+ * PackagingEngine charges.
+ */
+
+import { Money } from '@/lib/money';
+import { calculateNights } from '@/lib/utils';
+import { calculateNightlyRates } from '@/lib/room-rate-calendar';
+import { classifyTravelers, countSeatedTravelers, validateTravelerComposition } from '@/lib/travelers';
+import type {
+  ComponentPriceLine,
+  ComponentPricing,
+  Flight,
+  PassengerType,
+  Room,
+  Transfer,
+  TravelerComposition,
+} from '@/types/package';
+
+/**
+ * Price every selected component for the stay and party
+ *
+ * @param params.rooms - Rooms requested by the customer; validated against
+ *   occupancy. The fewest rooms that fit the party are used if omitted.
+ */
+export function calculateComponentPrices(params: {
+  flight?: Flight;
+  room?: Room;
+  transfer?: Transfer;
+  checkInDate: Date;
+  checkOutDate: Date;
+  travelers: TravelerComposition;
+  rooms?: number;
+}): ComponentPricing {
+  const { flight, room, transfer, travelers } = params;
+
+  validateTravelerComposition(travelers);
+
+  const nights = calculateNights(params.checkInDate, params.checkOutDate);
+  const party = classifyTravelers(travelers);
+  const lines: ComponentPriceLine[] = [];
+  let roomsNeeded: number | undefined;
+  let extraBeds: number | undefined;
+  let vehiclesNeeded: number | undefined;
+
+  if (flight) {
+    const childPrice = discounted(flight.netPrice, flight.childDiscountPercent, flight.currency);
+
+    lines.push(passengerLine('FLIGHT', 'PASSENGER', 'ADULT', flight.netPrice, party.adults, flight.currency));
+    lines.push(passengerLine('FLIGHT', 'PASSENGER', 'CHILD', childPrice, party.children, flight.currency));
+    lines.push(passengerLine('FLIGHT', 'PASSENGER', 'INFANT', 0, party.infants, flight.currency));
+  }
+
+  if (room) {
+    if (nights < 1) {
+      throw new Error('Check-out must be at least one night after check-in');
+    }
+
+    ({ roomsNeeded, extraBeds } = allocateRooms(room, travelers, params.rooms));
+
+    for (const night of calculateNightlyRates(room, params.checkInDate, params.checkOutDate)) {
+      lines.push({
+        ...priceLine('HOTEL', 'ROOM_NIGHT', night.total, roomsNeeded, room.currency),
+        date: night.date,
+        rateName: night.rateName,
+        weekendSupplement: night.weekendSupplement || undefined,
+      });
+    }
+
+    if (extraBeds > 0) {
+      lines.push(priceLine('HOTEL', 'EXTRA_BED_NIGHT', room.extraBedPrice || 0, extraBeds * nights, room.currency));
+    }
+  }
+
+  if (transfer) {
+    const isPrivate = transfer.transferType.toUpperCase() === 'PRIVATE';
+    const seated = countSeatedTravelers(travelers);
+
+    if (isPrivate && transfer.capacity > 0 && seated > transfer.capacity) {
+      // The party no longer fits one car, so whole vehicles are charged
+      vehiclesNeeded = Math.ceil(seated / transfer.capacity);
+      const vehiclePrice = transfer.pricePerVehicle
+        ?? Money.of(transfer.pricePerPerson, transfer.currency).multiply(transfer.capacity).toNumber();
+
+      lines.push(priceLine('TRANSFER', 'VEHICLE', vehiclePrice, vehiclesNeeded, transfer.currency));
+    } else {
+      const childPrice = discounted(transfer.pricePerPerson, transfer.childDiscountPercent, transfer.currency);
+
+      lines.push(passengerLine('TRANSFER', 'PERSON', 'ADULT', transfer.pricePerPerson, party.adults, transfer.currency));
+      lines.push(passengerLine('TRANSFER', 'PERSON', 'CHILD', childPrice, party.children, transfer.currency));
+    }
+  }
+
+  return {
+    lines: lines.filter(line => line.quantity > 0),
+    nights,
+    roomsNeeded,
+    extraBeds,
+    vehiclesNeeded,
+  };
+}
+
+/**
+ * Work out rooms and extra beds for the party
+ *
+ * Adults always get a regular bed; children fill the remaining regular beds
+ * first and extra beds after that. Infants sleep in a cot and never count.
+ */
+function allocateRooms(
+  room: Room,
+  travelers: TravelerComposition,
+  requestedRooms?: number
+): { roomsNeeded: number; extraBeds: number } {
+  if (room.maxOccupancy < 1) {
+    throw new Error(`Room ${room.id} has no occupancy configured`);
+  }
+
+  const maxExtraBeds = room.maxExtraBeds || 0;
+  const beds = countSeatedTravelers(travelers);
+  const minimumRooms = Math.max(
+    Math.ceil(travelers.adults / room.maxOccupancy),
+    Math.ceil(beds / (room.maxOccupancy + maxExtraBeds))
+  );
+
+  if (requestedRooms !== undefined && (!Number.isInteger(requestedRooms) || requestedRooms < minimumRooms)) {
+    throw new Error(
+      `${room.roomType} sleeps ${room.maxOccupancy} (+${maxExtraBeds} extra beds); ` +
+      `${travelers.adults} adults and ${travelers.childAges.length} children need at least ${minimumRooms} rooms`
+    );
+  }
+
+  const roomsNeeded = requestedRooms ?? minimumRooms;
+
+  return {
+    roomsNeeded,
+    extraBeds: Math.max(beds - roomsNeeded * room.maxOccupancy, 0),
+  };
+}
+
+function discounted(price: number, discountPercent: number | undefined, currency: string): number {
+  if (!discountPercent) {
+    return price;
+  }
+
+  const amount = Money.of(price, currency);
+  return amount.subtract(amount.percent(discountPercent)).toNumber();
+}
+
+function passengerLine(
+  componentType: ComponentPriceLine['componentType'],
+  unit: ComponentPriceLine['unit'],
+  passengerType: PassengerType,
+  unitPrice: number,
+  quantity: number,
+  currency: string
+): ComponentPriceLine {
+  return { ...priceLine(componentType, unit, unitPrice, quantity, currency), passengerType };
+}
+
+function priceLine(
+  componentType: ComponentPriceLine['componentType'],
+  unit: ComponentPriceLine['unit'],
+  unitPrice: number,
+  quantity: number,
+  currency: string
+): ComponentPriceLine {
+  return {
+    componentType,
+    unit,
+    unitPrice,
+    quantity,
+    netPrice: Money.of(quantity, currency).multiply(unitPrice).toNumber(),
+    currency,
+  };
+}
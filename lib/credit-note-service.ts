@@ -0,0 +1,497 @@
+/**
+ * Credit Note Service - Credit and debit notes correcting issued invoices
+ *
+ * An invoice that went to SEF can't be changed or deleted; it is corrected
+ * by a note that references it. A credit note (knjižno odobrenje) reverses
+ * the invoice in full or line by line, a debit note (knjižno zaduženje)
+ * adds to its lines. Notes are validated like invoices, stored with their
+ * UBL XML and numbered in the transaction that stores them.
+ *
+ * An invoice its credit notes reverse in full is CANCELLED. When that
+ * happens to a final invoice by a correction from staff, the advances it
+ * deducted are open again for the final invoice that replaces it.
+ *
+ * Every cancellation refund is documented by a credit note against the
+ * booking's invoice (see lib/cancellation-service.ts), whether the refund
+ * is paid out or kept as credit.
+ */
+
+import { PrismaClient, type Prisma, type CreditNote as CreditNoteRecord } from '@prisma/client';
+import { Money } from '@/lib/money';
+import { currencyService, BASE_CURRENCY } from '@/lib/currency-service';
+import { invoiceNumbering, NUMBERING_TRANSACTION_TIMEOUT_MS } from '@/lib/invoice-numbering';
+import { getSellerDetails, InvoiceError, invoiceService, invoiceToCorrect, toPackageLines } from '@/lib/invoice-service';
+import type { CreditNoteRequest, CreditNoteResponse } from '@/types/api';
+import type {
+  CreditNoteLine,
+  CreditNoteType,
+  FiscalData,
+  InvoiceLineItem,
+  InvoiceValidationIssue,
+  TaxCategory,
+  UblInvoiceInput,
+} from '@/types/invoice';
+import type { CancellationQuote, RefundMethod } from '@/types/package';
+
+const prisma = new PrismaClient();
+
+type CorrectedInvoice = Prisma.InvoiceDataGetPayload<{ include: { creditNotes: true } }>;
+
+type NotedItinerary = Pick<
+  Prisma.ItineraryGetPayload<object>,
+  'id' | 'bookingReference' | 'checkInDate' | 'checkOutDate' | 'currency' | 'opaqueMask'
+>;
+
+/**
+ * A note that passed validation and waits for its number
+ */
+export interface CreditNoteDraft {
+  itineraryId: string;
+  noteType: CreditNoteType;
+  invoice?: { id: string; invoiceNumber: string };
+  reason?: string;
+  refundMethod?: RefundMethod;
+  lines: CreditNoteLine[];
+  currency: string;
+  ubl?: UblInvoiceInput; // Unset when there is no invoice to correct
+}
+
+/**
+ * What an invoice line still charges after the notes against it
+ */
+interface OpenLine {
+  line: InvoiceLineItem;
+  gross: Money;
+  tax: Money;
+}
+
+export class CreditNoteService {
+  /**
+   * Credit or debit an issued invoice
+   *
+   * @throws InvoiceError when the invoice doesn't exist or can't be
+   *   corrected, or the note is invalid
+   */
+  async issueNote(request: CreditNoteRequest): Promise<CreditNoteResponse> {
+    const noteType = request.noteType || 'CREDIT';
+    const invoice = await prisma.invoiceData.findUnique({
+      where: { id: request.invoiceId },
+      include: { creditNotes: true, settledBy: { select: { invoiceNumber: true } }, itinerary: true },
+    });
+
+    if (!invoice) {
+      throw new InvoiceError('NOT_FOUND', `Invoice ${request.invoiceId} not found`);
+    }
+    if (invoice.invoiceType === 'PROFAKTURA') {
+      throw new InvoiceError('NOT_INVOICEABLE', `Pro forma invoice ${invoice.invoiceNumber} is no tax document to correct`);
+    }
+    if (invoice.status === 'CANCELLED') {
+      throw new InvoiceError('NOT_INVOICEABLE', `Invoice ${invoice.invoiceNumber} has been reversed in full`);
+    }
+    if (invoice.settledBy) {
+      throw new InvoiceError(
+        'NOT_INVOICEABLE',
+        `Advance invoice ${invoice.invoiceNumber} was deducted on ${invoice.settledBy.invoiceNumber}; correct that invoice`
+      );
+    }
+
+    const currency = invoice.currency;
+    const open = openLines(invoice);
+    const requested: NonNullable<CreditNoteRequest['lines']> = request.lines?.length
+      ? request.lines
+      : noteType === 'CREDIT'
+        ? Array.from(open.values()).filter(each => each.gross.isPositive()).map(each => ({ itemId: each.line.itemId }))
+        : [];
+
+    const issues: InvoiceValidationIssue[] = [];
+    const lines: CreditNoteLine[] = [];
+
+    if (requested.length === 0) {
+      issues.push({ rule: 'BR-RS-NOTE', message: noteType === 'CREDIT' ? 'Nothing is left to credit' : 'A debit note needs lines with amounts' });
+    }
+
+    requested.forEach((each, index) => {
+      const location = `Line ${index + 1}`;
+      const line = open.get(each.itemId);
+      const amount = each.amount !== undefined
+        ? Money.of(each.amount, currency)
+        : noteType === 'CREDIT' ? line?.gross : undefined;
+
+      if (!line) {
+        issues.push({ rule: 'BR-RS-NOTE', message: `Invoice ${invoice.invoiceNumber} has no line ${each.itemId}`, location });
+      } else if (!amount?.isPositive()) {
+        issues.push({ rule: 'BR-RS-NOTE', message: `Line ${each.itemId} needs a positive amount`, location });
+      } else if (noteType === 'CREDIT' && amount.compare(line.gross) > 0) {
+        issues.push({ rule: 'BR-RS-NOTE', message: `Line ${each.itemId} only charges ${line.gross.toString()} more`, location });
+      } else {
+        // A line reversed in full gives back exactly the VAT it still charges
+        const tax = noteType === 'CREDIT' && amount.equals(line.gross) ? line.tax : taxIncluded(amount, line.line.taxRate);
+        lines.push(toNoteLine(line.line, amount, tax));
+      }
+    });
+
+    const credited = Money.sum(lines.map(line => Money.of(line.amount, currency)), currency);
+    const remaining = invoiceBalance(invoice);
+    if (noteType === 'CREDIT' && credited.compare(remaining) > 0) {
+      issues.push({ rule: 'BR-RS-NOTE', message: `Invoice ${invoice.invoiceNumber} only charges ${remaining.toString()} more` });
+    }
+
+    if (issues.length > 0) {
+      throw new InvoiceError('INVALID', `Note for invoice ${invoice.invoiceNumber} is not valid`, issues);
+    }
+
+    const draft = await this.prepare(invoice.itinerary, { noteType, invoice, reason: request.reason, lines });
+    const note = await prisma.$transaction(tx => this.store(tx, draft), { timeout: NUMBERING_TRANSACTION_TIMEOUT_MS });
+
+    return {
+      success: true,
+      creditNoteId: note.id,
+      creditNoteNumber: note.creditNoteNumber,
+      xmlUrl: note.ublXml ? `/api/credit-notes/${note.id}/xml` : undefined,
+    };
+  }
+
+  /**
+   * The credit note documenting a cancellation refund, split over the
+   * refundable components
+   *
+   * Each line carries the share of the component's VAT that is credited.
+   * It is validated here, before the cancellation starts; store it in the
+   * cancelling transaction.
+   *
+   * @throws InvoiceError when the note breaks a SEF rule or the UBL schema
+   */
+  async prepareRefundNote(quote: CancellationQuote, reason?: string): Promise<CreditNoteDraft> {
+    const { currency } = quote;
+    const itinerary = await prisma.itinerary.findUniqueOrThrow({
+      where: { id: quote.bookingId },
+      include: { priceComponents: { where: { supersededAt: null } }, invoices: { include: { creditNotes: true } } },
+    });
+
+    const invoiceNumber = invoiceToCorrect(itinerary.invoices);
+    const invoice = itinerary.invoices.find(each => each.invoiceNumber === invoiceNumber);
+    const invoiceLines = invoice ? (invoice.lines as unknown as InvoiceLineItem[]) : [];
+
+    const refundAmount = Money.of(quote.refundAmount, currency);
+    const credited = refundAmount.allocate(quote.components.map(c => Money.of(c.refundable, currency)));
+
+    const lines: CreditNoteLine[] = quote.components
+      .map((component, index) => {
+        const stored = itinerary.priceComponents.find(c => c.id === component.priceComponentId);
+        const amount = credited[index];
+        const totalPrice = Money.of(component.totalPrice, currency);
+        const [taxAmount] = Money.of(stored?.taxAmount ?? 0, currency).allocate([
+          amount,
+          Money.max(totalPrice.subtract(amount), Money.zero(currency)),
+        ]);
+        const taxCategory = (stored?.taxCategory as TaxCategory | null) || undefined;
+        const taxRate = stored?.taxRatePercent !== null && stored?.taxRatePercent !== undefined
+          ? Number(stored.taxRatePercent)
+          : undefined;
+        const invoiceLine = invoiceLines.find(line => line.itemId === component.priceComponentId) ||
+          invoiceLines.find(line => (line.taxCategory || 'S') === (taxCategory || 'S') && line.taxRate === taxRate);
+
+        return {
+          priceComponentId: component.priceComponentId,
+          invoiceItemId: invoiceLine?.itemId,
+          componentType: component.componentType,
+          description: `Cancellation refund - ${component.componentType.toLowerCase()}`,
+          amount: amount.toNumber(),
+          taxCategory: invoiceLine ? invoiceLine.taxCategory || 'S' : taxCategory,
+          taxRate: invoiceLine ? invoiceLine.taxRate : taxRate,
+          exemptionReasonCode: invoiceLine?.exemptionReasonCode,
+          exemptionReason: invoiceLine?.exemptionReason,
+          taxAmount: taxAmount.toNumber(),
+        };
+      })
+      .filter(line => line.amount !== 0);
+
+    return this.prepare(itinerary, {
+      noteType: 'CREDIT',
+      invoice,
+      reason,
+      refundMethod: quote.refundMethod,
+      lines,
+    });
+  }
+
+  /**
+   * Number and store a prepared note inside the caller's transaction
+   *
+   * The UBL document is rendered and validated again under the reserved
+   * number, so the stored XML is the one that passed; give the transaction
+   * NUMBERING_TRANSACTION_TIMEOUT_MS.
+   *
+   * @throws InvoiceError INVALID when the numbered document fails validation
+   * @throws InvoiceError CONFLICT when a concurrent note already credited
+   *   what a correction from staff meant to credit
+   */
+  async store(tx: Prisma.TransactionClient, draft: CreditNoteDraft): Promise<CreditNoteRecord> {
+    const { currency } = draft;
+    const issueDate = draft.ubl?.invoice.invoiceDate ?? new Date();
+    const creditNoteNumber = await invoiceNumbering.reserve(tx, draft.noteType === 'CREDIT' ? 'CREDIT_NOTE' : 'DEBIT_NOTE', issueDate);
+    const total = Money.sum(draft.lines.map(line => Money.of(line.amount, currency)), currency);
+    const tax = Money.sum(draft.lines.map(line => Money.of(line.taxAmount, currency)), currency);
+    let ublXml: string | undefined;
+
+    if (draft.ubl) {
+      const { xml, validation } = await invoiceService.renderInvoice({
+        ...draft.ubl,
+        invoice: { ...draft.ubl.invoice, invoiceNumber: creditNoteNumber },
+      });
+
+      if (!validation.valid) {
+        throw new InvoiceError('INVALID', `Note ${creditNoteNumber} fails SEF validation`, validation.issues);
+      }
+      ublXml = xml;
+    }
+
+    const note = await tx.creditNote.create({
+      data: {
+        itineraryId: draft.itineraryId,
+        creditNoteNumber,
+        noteType: draft.noteType,
+        invoiceId: draft.invoice?.id,
+        invoiceNumber: draft.invoice?.invoiceNumber,
+        issueDate,
+        reason: draft.reason,
+        refundMethod: draft.refundMethod,
+        lines: draft.lines as unknown as Prisma.InputJsonValue,
+        taxableAmount: total.subtract(tax).toNumber(),
+        taxAmount: tax.toNumber(),
+        totalAmount: total.toNumber(),
+        currency,
+        ublXml,
+        exchangeRate: draft.ubl?.taxExchangeRate?.rate,
+        exchangeRateDate: draft.ubl?.taxExchangeRate?.rateDate,
+        exchangeRateSource: draft.ubl?.taxExchangeRate?.source,
+      },
+    });
+
+    if (draft.invoice && draft.noteType === 'CREDIT') {
+      await this.cancelWhenReversed(tx, draft.invoice.id, !draft.refundMethod);
+    }
+
+    return note;
+  }
+
+  /**
+   * The UBL XML of an issued note, as it was issued
+   */
+  async getNoteXml(noteId: string): Promise<{ itineraryId: string; creditNoteNumber: string; xml: string } | null> {
+    const note = await prisma.creditNote.findUnique({
+      where: { id: noteId },
+      select: { itineraryId: true, creditNoteNumber: true, ublXml: true },
+    });
+
+    return note?.ublXml
+      ? { itineraryId: note.itineraryId, creditNoteNumber: note.creditNoteNumber, xml: note.ublXml }
+      : null;
+  }
+
+  /**
+   * Build the UBL input of a note and check it like an invoice
+   */
+  private async prepare(
+    itinerary: NotedItinerary,
+    note: Pick<CreditNoteDraft, 'noteType' | 'reason' | 'refundMethod' | 'lines'> & { invoice?: CorrectedInvoice }
+  ): Promise<CreditNoteDraft> {
+    const { invoice, noteType, lines } = note;
+    const currency = itinerary.currency;
+    const draft: CreditNoteDraft = {
+      itineraryId: itinerary.id,
+      noteType,
+      invoice: invoice && { id: invoice.id, invoiceNumber: invoice.invoiceNumber },
+      reason: note.reason,
+      refundMethod: note.refundMethod,
+      lines,
+      currency,
+    };
+
+    if (!invoice) {
+      return draft;
+    }
+
+    const issueDate = new Date();
+    const lineItems = toNoteLineItems(lines, currency, itinerary.opaqueMask);
+    const taxable = Money.sum(lineItems.map(item => Money.of(item.lineTotal, currency)), currency);
+    const tax = Money.sum(lineItems.map(item => Money.of(item.taxAmount ?? 0, currency)), currency);
+    const seller = getSellerDetails();
+    const series = noteType === 'CREDIT' ? 'CREDIT_NOTE' : 'DEBIT_NOTE';
+
+    const ubl: UblInvoiceInput = {
+      invoice: {
+        // Checked under a preview number first; store() renders it again under the real one
+        invoiceNumber: invoiceNumbering.format(series, invoiceNumbering.fiscalYearOf(issueDate), 0),
+        invoiceDate: issueDate,
+        pib: seller.pib,
+        maticniBroj: seller.maticniBroj,
+        companyName: seller.companyName,
+        companyAddress: seller.companyAddress,
+        buyerPib: invoice.buyerPib || undefined,
+        buyerMaticniBroj: invoice.buyerMaticniBroj || undefined,
+        buyerName: invoice.buyerName,
+        buyerAddress: invoice.buyerAddress || undefined,
+        taxableAmount: taxable.toNumber(),
+        taxAmount: tax.toNumber(),
+        totalAmount: taxable.add(tax).toNumber(),
+        currency,
+        isFiscalized: false,
+      },
+      lineItems,
+      fiscal: {
+        invoiceType: invoice.invoiceType as FiscalData['invoiceType'],
+        taxCategory: lineItems[0]?.taxCategory || 'S',
+        taxPercent: lineItems[0]?.taxRate ?? 0,
+        paymentMeans: invoice.paymentMeans as FiscalData['paymentMeans'],
+        bankAccount: seller.bankAccount,
+        orderReference: itinerary.bookingReference || itinerary.id,
+      },
+      itinerary: {
+        id: itinerary.id,
+        bookingReference: itinerary.bookingReference || undefined,
+        checkInDate: itinerary.checkInDate,
+        checkOutDate: itinerary.checkOutDate,
+      },
+      taxExchangeRate: currency === BASE_CURRENCY
+        ? undefined
+        : await currencyService.getRate(currency, BASE_CURRENCY, issueDate),
+      correction: {
+        noteType,
+        invoiceNumber: invoice.invoiceNumber,
+        issueDate: invoice.invoiceDate,
+        reason: note.reason,
+      },
+    };
+
+    const { validation } = await invoiceService.renderInvoice(ubl);
+    if (!validation.valid) {
+      throw new InvoiceError('INVALID', `Note for invoice ${invoice.invoiceNumber} fails SEF validation`, validation.issues);
+    }
+
+    return { ...draft, ubl };
+  }
+
+  /**
+   * Mark an invoice CANCELLED once its notes reverse it in full
+   *
+   * @param strict - Refuse to credit more than the invoice charged;
+   *   refunds may, since they follow what was paid
+   */
+  private async cancelWhenReversed(tx: Prisma.TransactionClient, invoiceId: string, strict: boolean): Promise<void> {
+    const invoice = await tx.invoiceData.findUniqueOrThrow({
+      where: { id: invoiceId },
+      include: { creditNotes: true },
+    });
+    const remaining = invoiceBalance(invoice);
+    const overcredited = Array.from(openLines(invoice).values()).some(line => line.gross.isNegative());
+
+    if (strict && (remaining.isNegative() || overcredited)) {
+      throw new InvoiceError('CONFLICT', `Invoice ${invoice.invoiceNumber} was credited concurrently`);
+    }
+    if (remaining.isPositive()) {
+      return;
+    }
+
+    await tx.invoiceData.updateMany({
+      where: { id: invoiceId, status: 'ISSUED' },
+      data: { status: 'CANCELLED' },
+    });
+
+    // So the final invoice that replaces it deducts them again
+    if (strict) {
+      await tx.invoiceData.updateMany({
+        where: { settledByInvoiceId: invoiceId },
+        data: { settledByInvoiceId: null },
+      });
+    }
+  }
+}
+
+/**
+ * Gross amount and VAT every invoice line still charges, by itemId
+ */
+function openLines(invoice: CorrectedInvoice): Map<string, OpenLine> {
+  const currency = invoice.currency;
+  const open = new Map<string, OpenLine>();
+
+  for (const line of invoice.lines as unknown as InvoiceLineItem[]) {
+    const tax = Money.of(line.taxAmount ?? 0, currency);
+    open.set(line.itemId, { line, gross: Money.of(line.lineTotal, currency).add(tax), tax });
+  }
+
+  for (const note of invoice.creditNotes) {
+    for (const noteLine of note.lines as unknown as CreditNoteLine[]) {
+      const line = noteLine.invoiceItemId ? open.get(noteLine.invoiceItemId) : undefined;
+      if (!line) {
+        continue;
+      }
+
+      const sign = note.noteType === 'DEBIT' ? 1 : -1;
+      line.gross = line.gross.add(Money.of(noteLine.amount, currency).multiply(sign));
+      line.tax = line.tax.add(Money.of(noteLine.taxAmount, currency).multiply(sign));
+    }
+  }
+
+  return open;
+}
+
+/**
+ * What an invoice still charges after the notes against it, VAT included
+ */
+function invoiceBalance(invoice: CorrectedInvoice): Money {
+  const currency = invoice.currency;
+
+  return invoice.creditNotes.reduce((balance, note) => {
+    const amount = Money.of(Number(note.totalAmount), currency);
+    return note.noteType === 'DEBIT' ? balance.add(amount) : balance.subtract(amount);
+  }, Money.of(Number(invoice.totalAmount), currency));
+}
+
+/**
+ * VAT included in a gross amount at a rate
+ */
+function taxIncluded(gross: Money, taxRate: number): Money {
+  return taxRate > 0 ? gross.allocate([taxRate, 100])[0] : Money.zero(gross.currency);
+}
+
+function toNoteLine(line: InvoiceLineItem, amount: Money, tax: Money): CreditNoteLine {
+  return {
+    invoiceItemId: line.itemId,
+    description: line.description,
+    amount: amount.toNumber(),
+    taxCategory: line.taxCategory || 'S',
+    taxRate: line.taxRate,
+    exemptionReasonCode: line.exemptionReasonCode,
+    exemptionReason: line.exemptionReason,
+    taxAmount: tax.toNumber(),
+  };
+}
+
+/**
+ * Note lines as UBL lines; opaque packages get one package line per tax
+ * rate, as on their invoice
+ */
+function toNoteLineItems(lines: CreditNoteLine[], currency: string, opaque: boolean): InvoiceLineItem[] {
+  const lineItems = lines.map((line, index) => {
+    const net = Money.of(line.amount, currency).subtract(Money.of(line.taxAmount, currency)).toNumber();
+
+    return {
+      itemId: line.invoiceItemId || line.priceComponentId || `LINE-${index + 1}`,
+      description: line.description,
+      quantity: 1,
+      unitPrice: net,
+      taxRate: line.taxRate ?? 0,
+      taxCategory: line.taxCategory,
+      exemptionReasonCode: line.exemptionReasonCode,
+      exemptionReason: line.exemptionReason,
+      lineTotal: net,
+      taxAmount: line.taxAmount,
+    };
+  });
+
+  return opaque ? toPackageLines(lineItems, currency) : lineItems;
+}
+
+// Export singleton instance
+export const creditNoteService = new CreditNoteService();
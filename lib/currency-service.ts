@@ -0,0 +1,300 @@
+/**
+ * Currency Service - Exchange Rates and Currency Conversion
+ *
+ * Stores date-effective exchange rates (NBS middle rates against RSD by
+ * default), converts amounts between currencies via the base currency and
+ * records a rate snapshot for every conversion so priced components and
+ * invoices can always be traced back to the rate that was used.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { divideDecimal, Money } from '@/lib/money';
+import type {
+  ExchangeRate,
+  ExchangeRateImportResult,
+  ExchangeRateSnapshot,
+  ExchangeRateType,
+} from '@/types/currency';
+
+const prisma = new PrismaClient();
+
+export const BASE_CURRENCY = 'RSD';
+
+// Decimals rates are stored and crossed with, as in ExchangeRate.rate
+export const RATE_SCALE = 6;
+
+/**
+ * Thrown when an imported rate list can't be read; nothing is imported then
+ */
+export class RateListError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateListError';
+  }
+}
+
+export class CurrencyService {
+  /**
+   * Get the rate to convert one unit of `from` into `to` on a date
+   *
+   * The most recent rate effective on or before the date is used, and
+   * conversions between two foreign currencies cross through RSD.
+   */
+  async getRate(
+    from: string,
+    to: string,
+    date: Date = new Date(),
+    rateType: ExchangeRateType = 'MIDDLE'
+  ): Promise<ExchangeRateSnapshot> {
+    if (from === to) {
+      return { fromCurrency: from, toCurrency: to, rate: 1, rateDate: date, source: 'IDENTITY' };
+    }
+
+    const [fromRate, toRate] = await Promise.all([
+      this.getBaseRate(from, date, rateType),
+      this.getBaseRate(to, date, rateType),
+    ]);
+
+    return {
+      fromCurrency: from,
+      toCurrency: to,
+      rate: Number(divideDecimal(fromRate.rate, toRate.rate, RATE_SCALE)),
+      // The older of the two rates is the one that limits the conversion
+      rateDate: fromRate.rateDate < toRate.rateDate ? fromRate.rateDate : toRate.rateDate,
+      source: fromRate.source === toRate.source ? fromRate.source : `${fromRate.source}/${toRate.source}`,
+    };
+  }
+
+  /**
+   * Convert an amount and return the rate snapshot used
+   */
+  async convert(
+    amount: Money,
+    to: string,
+    date: Date = new Date()
+  ): Promise<{ amount: Money; exchangeRate: ExchangeRateSnapshot }> {
+    const exchangeRate = await this.getRate(amount.currency, to, date);
+
+    return {
+      amount: amount.convert(exchangeRate.rate, to),
+      exchangeRate,
+    };
+  }
+
+  /**
+   * Import an NBS exchange rate list exported as CSV or XML
+   *
+   * @throws RateListError when the list can't be read
+   */
+  async importRates(
+    content: string,
+    format: 'CSV' | 'XML',
+    options: { source?: string; rateType?: ExchangeRateType; effectiveDate?: Date } = {}
+  ): Promise<ExchangeRateImportResult> {
+    const { source = 'NBS', rateType = 'MIDDLE' } = options;
+    const parsed = format === 'CSV'
+      ? parseNbsCsv(content, options.effectiveDate)
+      : parseNbsXml(content, options.effectiveDate);
+
+    const rates: ExchangeRate[] = parsed.map(rate => ({
+      ...rate,
+      baseCurrency: BASE_CURRENCY,
+      rateType,
+      source,
+    }));
+
+    await prisma.$transaction(
+      rates.map(rate => prisma.exchangeRate.upsert({
+        where: {
+          currency_baseCurrency_rateType_effectiveDate: {
+            currency: rate.currency,
+            baseCurrency: rate.baseCurrency,
+            rateType: rate.rateType,
+            effectiveDate: rate.effectiveDate,
+          },
+        },
+        create: rate,
+        update: {
+          rate: rate.rate,
+          unit: rate.unit,
+          source: rate.source,
+        },
+      }))
+    );
+
+    return {
+      imported: rates.length,
+      effectiveDates: uniqueDates(rates.map(rate => rate.effectiveDate)),
+      currencies: Array.from(new Set(rates.map(rate => rate.currency))),
+    };
+  }
+
+  /**
+   * Rate of one unit of a currency in RSD
+   */
+  private async getBaseRate(
+    currency: string,
+    date: Date,
+    rateType: ExchangeRateType
+  ): Promise<{ rate: string; rateDate: Date; source: string }> {
+    if (currency === BASE_CURRENCY) {
+      return { rate: '1', rateDate: date, source: 'IDENTITY' };
+    }
+
+    const rate = await prisma.exchangeRate.findFirst({
+      where: {
+        currency,
+        baseCurrency: BASE_CURRENCY,
+        rateType,
+        effectiveDate: { lte: date },
+      },
+      orderBy: {
+        effectiveDate: 'desc',
+      },
+    });
+
+    if (!rate) {
+      throw new Error(`No ${rateType} exchange rate for ${currency} on or before ${date.toISOString().slice(0, 10)}`);
+    }
+
+    return {
+      rate: divideDecimal(rate.rate.toString(), rate.unit, RATE_SCALE),
+      rateDate: rate.effectiveDate,
+      source: rate.source,
+    };
+  }
+}
+
+type ParsedRate = Pick<ExchangeRate, 'currency' | 'rate' | 'unit' | 'effectiveDate'>;
+
+/**
+ * Parse an NBS rate list in CSV form
+ *
+ * Columns are detected from the header row (Serbian or English names), the
+ * separator may be ";" or "," and rates may use a decimal comma. A file without
+ * a date column needs an explicit effective date.
+ */
+export function parseNbsCsv(content: string, effectiveDate?: Date): ParsedRate[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const separator = lines[0].includes(';') ? ';' : ',';
+  const header = lines[0].split(separator).map(normalizeHeader);
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+
+  const currencyCol = column('oznaka valute', 'valuta', 'currency', 'currency code');
+  const unitCol = column('vazi za', 'jedinica', 'unit');
+  const rateCol = column('srednji kurs', 'middle rate', 'rate');
+  const dateCol = column('datum', 'date');
+
+  if (currencyCol === -1 || rateCol === -1) {
+    throw new RateListError('CSV rate list needs a currency and a middle rate column');
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = line.split(separator).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+    if (cells.length < header.length) {
+      throw new RateListError(`CSV rate list line ${index + 2} has ${cells.length} of ${header.length} columns`);
+    }
+
+    return {
+      currency: cells[currencyCol].toUpperCase(),
+      rate: parseDecimal(cells[rateCol]),
+      unit: unitCol !== -1 ? parseInt(cells[unitCol], 10) || 1 : 1,
+      effectiveDate: requireDate(dateCol !== -1 ? parseRateDate(cells[dateCol]) : effectiveDate),
+    };
+  });
+}
+
+/**
+ * Parse an NBS rate list in XML form
+ *
+ * Every element that carries a currency code and a middle rate is read as a
+ * rate; the list date comes from a top-level Date element unless given.
+ */
+export function parseNbsXml(content: string, effectiveDate?: Date): ParsedRate[] {
+  const listDate = effectiveDate || parseRateDate(readTag(content, 'ExchangeRateListDate', 'Date'));
+  const items = content.match(/<(Item|ExchangeRate)\b[^>]*>[\s\S]*?<\/\1>/g) || [];
+
+  return items.flatMap(item => {
+    const currency = readTag(item, 'CurrencyCodeAlfaChar', 'CurrencyCode', 'Currency');
+    const rate = readTag(item, 'MiddleRate', 'Rate');
+
+    if (!currency || !rate) {
+      return [];
+    }
+
+    return [{
+      currency: currency.toUpperCase(),
+      rate: parseDecimal(rate),
+      unit: parseInt(readTag(item, 'Unit') || '1', 10) || 1,
+      effectiveDate: requireDate(parseRateDate(readTag(item, 'Date')) || listDate),
+    }];
+  });
+}
+
+function readTag(xml: string, ...tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${tag}\\b[^>]*>([^<]*)</${tag}>`));
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return undefined;
+}
+
+function normalizeHeader(name: string): string {
+  return name
+    .trim()
+    .replace(/^"|"$/g, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function parseDecimal(value: string): number {
+  // "1.234,5678" and "117,1734" are NBS style, "117.1734" is plain
+  const normalized = value.includes(',')
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value;
+  const parsed = parseFloat(normalized);
+
+  if (Number.isNaN(parsed)) {
+    throw new RateListError(`Invalid exchange rate "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Accepts dd.mm.yyyy (NBS) and ISO dates, always as a UTC calendar date
+ */
+function parseRateDate(value?: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const nbs = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})\.?$/);
+  if (nbs) {
+    return new Date(Date.UTC(Number(nbs[3]), Number(nbs[2]) - 1, Number(nbs[1])));
+  }
+
+  const iso = new Date(value);
+  return Number.isNaN(iso.getTime()) ? undefined : iso;
+}
+
+function requireDate(date?: Date): Date {
+  if (!date) {
+    throw new RateListError('Exchange rate list has no effective date');
+  }
+  return date;
+}
+
+function uniqueDates(dates: Date[]): Date[] {
+  return Array.from(new Set(dates.map(date => date.getTime()))).map(time => new Date(time));
+}
+
+// Export singleton instance
+export const currencyService = new CurrencyService();
@@ -0,0 +1,459 @@
+/**
+ * Inventory Service - Holding and allocating flight seats and room nights
+ *
+ * A hold takes seats off Flight.availableSeats and rooms off the
+ * RoomAllotment of every night as soon as it is placed, with conditional
+ * decrements that only succeed while enough is left. Two customers racing
+ * for the last seat therefore can't both get it: one update matches, the
+ * other finds nothing to decrement and the hold fails as a whole.
+ *
+ * A night without a RoomAllotment opens with the room's defaultAllotment.
+ * Rooms without one are sold on their available flag alone on such nights,
+ * uncounted, as before allotments existed.
+ *
+ * Holds are placed at the review step and expire after
+ * HOLD_VALIDITY_MINUTES unless a booking is made from them. A booking's hold
+ * stays until the booking is paid in full, which makes the allocation firm
+ * (CONFIRMED), or cancelled. Expired and cancelled holds put their seats and
+ * rooms back.
+ */
+
+import { PrismaClient, type Prisma, type InventoryHold as InventoryHoldRecord } from '@prisma/client';
+import { quoteService } from '@/lib/quote-service';
+import { searchCache } from '@/lib/search-cache';
+import { stayNights } from '@/lib/room-rate-calendar';
+import { countSeatedTravelers } from '@/lib/travelers';
+import type { InventoryHold, InventoryHoldStatus, Quote } from '@/types/package';
+
+const prisma = new PrismaClient();
+
+export const HOLD_VALIDITY_MINUTES = 15;
+
+/**
+ * What a hold takes out of inventory
+ */
+export interface InventoryAllocation {
+  flightId?: string;
+  seats: number;
+  roomId?: string;
+  rooms: number;
+  checkInDate: Date;
+  checkOutDate: Date;
+}
+
+/**
+ * Thrown when there aren't enough seats or rooms left; nothing is held then
+ */
+export class InventoryUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InventoryUnavailableError';
+  }
+}
+
+/**
+ * Thrown when a booking brings a hold placed for other seats, rooms or dates
+ * than its quote; the hold is left as it was
+ */
+export class HoldMismatchError extends Error {
+  constructor(readonly holdId: string) {
+    super(`Hold ${holdId} doesn't hold what the quote was priced for`);
+    this.name = 'HoldMismatchError';
+  }
+}
+
+export class InventoryService {
+  /**
+   * Hold the seats and rooms a quote was priced for
+   *
+   * @returns null when the quote doesn't exist or is already booked
+   * @throws InventoryUnavailableError when any of it is sold out
+   */
+  async holdQuote(quoteId: string): Promise<InventoryHold | null> {
+    const quote = await quoteService.getQuote(quoteId);
+
+    if (!quote || quote.status === 'BOOKED') {
+      return null;
+    }
+
+    return this.placeHold(quoteAllocation(quote), { quoteId });
+  }
+
+  /**
+   * Take an allocation out of inventory for HOLD_VALIDITY_MINUTES
+   *
+   * Expired holds on the same flight or room are released first so their
+   * inventory can be held again.
+   *
+   * @throws InventoryUnavailableError when any of it is sold out
+   */
+  async placeHold(allocation: InventoryAllocation, options: { quoteId?: string } = {}): Promise<InventoryHold> {
+    await this.releaseExpiredHolds({ flightId: allocation.flightId, roomId: allocation.roomId });
+
+    const hold = await prisma.$transaction(async tx => {
+      await this.allocate(tx, allocation);
+
+      return tx.inventoryHold.create({
+        data: {
+          ...allocation,
+          quoteId: options.quoteId,
+          expiresAt: new Date(Date.now() + HOLD_VALIDITY_MINUTES * 60 * 1000),
+        },
+      });
+    });
+
+    return toInventoryHold(hold);
+  }
+
+  /**
+   * Set how many rooms are left to sell on each night from `from` up to (not including) `to`
+   *
+   * Overrides the room's defaultAllotment on those nights. Cached hotel
+   * searches are dropped since availability changed.
+   */
+  async setRoomAllotment(roomId: string, from: Date, to: Date, available: number): Promise<number> {
+    const nights = stayNights(from, to);
+
+    await prisma.$transaction(
+      nights.map(date =>
+        prisma.roomAllotment.upsert({
+          where: { roomId_date: { roomId, date } },
+          create: { roomId, date, available },
+          update: { available },
+        })
+      )
+    );
+
+    await searchCache.invalidate('HOTEL');
+
+    return nights.length;
+  }
+
+  /**
+   * Get a hold by ID
+   */
+  async getHold(holdId: string): Promise<InventoryHold | null> {
+    const hold = await prisma.inventoryHold.findUnique({
+      where: { id: holdId },
+    });
+
+    return hold ? toInventoryHold(hold) : null;
+  }
+
+  /**
+   * Tie a live hold to the booking made from it
+   *
+   * The hold has to hold exactly the booking's allocation: a smaller hold
+   * placed for another quote would leave the rest of the booking unallocated.
+   *
+   * @throws HoldMismatchError when the hold was placed for a different allocation
+   * @throws InventoryUnavailableError when the hold expired, was released or already used
+   */
+  async attachHold(
+    tx: Prisma.TransactionClient,
+    holdId: string,
+    itineraryId: string,
+    allocation: InventoryAllocation
+  ): Promise<void> {
+    const hold = await tx.inventoryHold.findUnique({
+      where: { id: holdId },
+    });
+
+    if (hold && !sameAllocation(toAllocation(hold), allocation)) {
+      throw new HoldMismatchError(holdId);
+    }
+
+    const attached = await tx.inventoryHold.updateMany({
+      where: { id: holdId, status: 'HELD', itineraryId: null, expiresAt: { gt: new Date() } },
+      data: { itineraryId },
+    });
+
+    if (attached.count === 0) {
+      throw new InventoryUnavailableError(`Hold ${holdId} has expired or is already used`);
+    }
+  }
+
+  /**
+   * Make a booking's allocation firm once it is paid
+   *
+   * A hold that no longer holds anything (expired by releases that still
+   * expired booked holds) is allocated again, which fails if the inventory
+   * has been sold in the meantime.
+   *
+   * @throws InventoryUnavailableError when a released hold can't be allocated again
+   */
+  async confirmBookingHold(tx: Prisma.TransactionClient, itineraryId: string): Promise<void> {
+    const hold = await tx.inventoryHold.findUnique({
+      where: { itineraryId },
+    });
+
+    if (!hold || hold.status === 'CONFIRMED') {
+      return;
+    }
+
+    if (hold.status !== 'HELD') {
+      await this.allocate(tx, toAllocation(hold));
+    }
+
+    const confirmed = await tx.inventoryHold.updateMany({
+      where: { id: hold.id, status: hold.status },
+      data: { status: 'CONFIRMED', confirmedAt: new Date(), releasedAt: null },
+    });
+
+    if (confirmed.count === 0) {
+      throw new InventoryUnavailableError(`Hold ${hold.id} changed while it was confirmed`);
+    }
+  }
+
+  /**
+   * Give a booking's seats and rooms back (on cancellation)
+   */
+  async releaseBookingHold(tx: Prisma.TransactionClient, itineraryId: string): Promise<void> {
+    const hold = await tx.inventoryHold.findUnique({
+      where: { itineraryId },
+    });
+
+    if (hold) {
+      await this.release(tx, hold, 'RELEASED');
+    }
+  }
+
+  /**
+   * Move a booking's allocation to its amended selection, keeping its status
+   *
+   * @throws InventoryUnavailableError when the new allocation is sold out
+   */
+  async reallocateBookingHold(
+    tx: Prisma.TransactionClient,
+    itineraryId: string,
+    allocation: InventoryAllocation
+  ): Promise<void> {
+    const hold = await tx.inventoryHold.findUnique({
+      where: { itineraryId },
+    });
+
+    if (!hold || (hold.status !== 'HELD' && hold.status !== 'CONFIRMED')) {
+      return;
+    }
+
+    await this.restore(tx, toAllocation(hold));
+    await this.allocate(tx, allocation);
+    await tx.inventoryHold.update({
+      where: { id: hold.id },
+      data: allocation,
+    });
+  }
+
+  /**
+   * Release a hold the customer walked away from
+   */
+  async releaseHold(holdId: string): Promise<boolean> {
+    return prisma.$transaction(async tx => {
+      const hold = await tx.inventoryHold.findUnique({
+        where: { id: holdId },
+      });
+
+      // Holds that became bookings are released by cancelling the booking
+      return hold && !hold.itineraryId ? this.release(tx, hold, 'RELEASED') : false;
+    });
+  }
+
+  /**
+   * Expire holds past their expiry (up to 100 a call), putting their inventory back
+   *
+   * Holds a booking was made from don't expire; the booking keeps them
+   * until it is paid or cancelled.
+   *
+   * @returns The number of holds expired
+   */
+  async releaseExpiredHolds(scope: { flightId?: string; roomId?: string } = {}): Promise<number> {
+    const scoped = [
+      ...(scope.flightId ? [{ flightId: scope.flightId }] : []),
+      ...(scope.roomId ? [{ roomId: scope.roomId }] : []),
+    ];
+
+    const expired = await prisma.inventoryHold.findMany({
+      where: {
+        status: 'HELD',
+        itineraryId: null,
+        expiresAt: { lte: new Date() },
+        ...(scoped.length > 0 && { OR: scoped }),
+      },
+      take: 100,
+    });
+
+    let released = 0;
+    for (const hold of expired) {
+      if (await prisma.$transaction(tx => this.release(tx, hold, 'EXPIRED'))) {
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Take seats and room nights out of inventory, or throw without taking any
+   *
+   * Nights are decremented in date order so concurrent holds lock rows in
+   * the same order.
+   */
+  private async allocate(tx: Prisma.TransactionClient, allocation: InventoryAllocation): Promise<void> {
+    if (allocation.flightId && allocation.seats > 0) {
+      const taken = await tx.flight.updateMany({
+        where: { id: allocation.flightId, availableSeats: { gte: allocation.seats } },
+        data: { availableSeats: { decrement: allocation.seats } },
+      });
+
+      if (taken.count === 0) {
+        throw new InventoryUnavailableError(`Flight ${allocation.flightId} has fewer than ${allocation.seats} seats left`);
+      }
+    }
+
+    if (allocation.roomId && allocation.rooms > 0) {
+      const { roomId } = allocation;
+      const room = await tx.room.findUnique({
+        where: { id: roomId },
+        select: { available: true, defaultAllotment: true },
+      });
+
+      if (!room?.available) {
+        throw new InventoryUnavailableError(`Room ${roomId} is not for sale`);
+      }
+
+      const nights = stayNights(allocation.checkInDate, allocation.checkOutDate);
+      const { defaultAllotment } = room;
+
+      if (defaultAllotment !== null) {
+        await tx.roomAllotment.createMany({
+          data: nights.map(date => ({ roomId, date, available: defaultAllotment })),
+          skipDuplicates: true,
+        });
+      }
+
+      for (const night of nights) {
+        const taken = await tx.roomAllotment.updateMany({
+          where: { roomId, date: night, available: { gte: allocation.rooms } },
+          data: { available: { decrement: allocation.rooms } },
+        });
+
+        if (taken.count > 0) {
+          continue;
+        }
+
+        const uncounted = defaultAllotment === null &&
+          (await tx.roomAllotment.count({ where: { roomId, date: night } })) === 0;
+
+        if (!uncounted) {
+          throw new InventoryUnavailableError(
+            `Room ${allocation.roomId} has fewer than ${allocation.rooms} rooms left on ${night.toISOString().slice(0, 10)}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Put an allocation back into inventory
+   */
+  private async restore(tx: Prisma.TransactionClient, allocation: InventoryAllocation): Promise<void> {
+    if (allocation.flightId && allocation.seats > 0) {
+      await tx.flight.update({
+        where: { id: allocation.flightId },
+        data: { availableSeats: { increment: allocation.seats } },
+      });
+    }
+
+    if (allocation.roomId && allocation.rooms > 0) {
+      for (const night of stayNights(allocation.checkInDate, allocation.checkOutDate)) {
+        await tx.roomAllotment.updateMany({
+          where: { roomId: allocation.roomId, date: night },
+          data: { available: { increment: allocation.rooms } },
+        });
+      }
+    }
+  }
+
+  /**
+   * End a live hold and restore its inventory; false if it already ended
+   */
+  private async release(
+    tx: Prisma.TransactionClient,
+    hold: InventoryHoldRecord,
+    status: Extract<InventoryHoldStatus, 'RELEASED' | 'EXPIRED'>
+  ): Promise<boolean> {
+    const ended = await tx.inventoryHold.updateMany({
+      where: {
+        id: hold.id,
+        status: { in: status === 'EXPIRED' ? ['HELD'] : ['HELD', 'CONFIRMED'] },
+        ...(status === 'EXPIRED' && { itineraryId: null }),
+      },
+      data: { status, releasedAt: new Date() },
+    });
+
+    if (ended.count === 0) {
+      return false;
+    }
+
+    await this.restore(tx, toAllocation(hold));
+    return true;
+  }
+}
+
+/**
+ * The seats and rooms a quote was priced for
+ */
+export function quoteAllocation(quote: Quote): InventoryAllocation {
+  const { selection, calculation } = quote;
+
+  return {
+    flightId: selection.flightId,
+    seats: selection.flightId ? countSeatedTravelers(selection.travelers) : 0,
+    roomId: selection.roomId,
+    rooms: selection.roomId ? calculation.componentPricing?.roomsNeeded ?? selection.rooms ?? 1 : 0,
+    checkInDate: selection.checkInDate,
+    checkOutDate: selection.checkOutDate,
+  };
+}
+
+function sameAllocation(a: InventoryAllocation, b: InventoryAllocation): boolean {
+  return (
+    (a.flightId ?? null) === (b.flightId ?? null) &&
+    a.seats === b.seats &&
+    (a.roomId ?? null) === (b.roomId ?? null) &&
+    a.rooms === b.rooms &&
+    a.checkInDate.getTime() === b.checkInDate.getTime() &&
+    a.checkOutDate.getTime() === b.checkOutDate.getTime()
+  );
+}
+
+function toAllocation(hold: InventoryHoldRecord): InventoryAllocation {
+  return {
+    flightId: hold.flightId || undefined,
+    seats: hold.seats,
+    roomId: hold.roomId || undefined,
+    rooms: hold.rooms,
+    checkInDate: hold.checkInDate,
+    checkOutDate: hold.checkOutDate,
+  };
+}
+
+function toInventoryHold(hold: InventoryHoldRecord): InventoryHold {
+  return {
+    id: hold.id,
+    status: hold.status as InventoryHoldStatus,
+    expiresAt: hold.expiresAt,
+    flightId: hold.flightId || undefined,
+    seats: hold.seats,
+    roomId: hold.roomId || undefined,
+    rooms: hold.rooms,
+    checkInDate: hold.checkInDate,
+    checkOutDate: hold.checkOutDate,
+    quoteId: hold.quoteId || undefined,
+    itineraryId: hold.itineraryId || undefined,
+    createdAt: hold.createdAt,
+  };
+}
+
+// Export singleton instance
+export const inventoryService = new InventoryService();
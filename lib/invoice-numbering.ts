@@ -0,0 +1,114 @@
+/**
+ * Invoice Numbering - Gapless document numbers per series and fiscal year
+ *
+ * Every series (FAKTURA, PROFAKTURA, AVANSNA_FAKTURA, credit and debit
+ * notes) has one counter per fiscal year in DocumentSequence, and numbers
+ * are formatted by a pattern such as `FA-{YYYY}-{NNNNNN}`.
+ *
+ * A number is reserved inside the transaction that issues the document:
+ * raising the counter locks its row until that transaction ends, so
+ * concurrent documents of a series queue up instead of sharing a number,
+ * and a transaction that aborts takes its number back with it. That is what
+ * keeps the series free of gaps, as SEF requires. The fiscal year is the
+ * calendar year in Serbian time.
+ */
+
+import type { Prisma } from '@prisma/client';
+import type { DocumentSeries } from '@/types/invoice';
+
+export const FISCAL_TIME_ZONE = 'Europe/Belgrade';
+
+// Issuing transactions validate the document under its reserved number, which takes a moment
+export const NUMBERING_TRANSACTION_TIMEOUT_MS = 30_000;
+
+const YEAR_TOKEN = /\{(YYYY|YY)\}/g;
+const COUNTER_TOKEN = /\{(N+)\}/g;
+
+export interface InvoiceNumberingConfig {
+  patterns: Record<DocumentSeries, string>;
+}
+
+const DEFAULT_CONFIG: InvoiceNumberingConfig = {
+  patterns: {
+    PROFAKTURA: 'PF-{YYYY}-{NNNNNN}',
+    FAKTURA: 'FA-{YYYY}-{NNNNNN}',
+    AVANSNA_FAKTURA: 'AV-{YYYY}-{NNNNNN}',
+    CREDIT_NOTE: 'KO-{YYYY}-{NNNNNN}',
+    DEBIT_NOTE: 'KZ-{YYYY}-{NNNNNN}',
+  },
+};
+
+export class InvoiceNumbering {
+  private config: InvoiceNumberingConfig;
+
+  constructor(config: Partial<InvoiceNumberingConfig> = {}) {
+    this.config = {
+      patterns: { ...DEFAULT_CONFIG.patterns, ...config.patterns },
+    };
+
+    const literals = new Set<string>();
+    for (const [series, pattern] of Object.entries(this.config.patterns)) {
+      // Counters restart every year, so the year has to tell the numbers apart
+      if ((pattern.match(YEAR_TOKEN) || []).length === 0 || (pattern.match(COUNTER_TOKEN) || []).length !== 1) {
+        throw new Error(`Number pattern "${pattern}" for ${series} needs a {YYYY} or {YY} and exactly one {N...} counter`);
+      }
+
+      // Series share InvoiceData.invoiceNumber, so their patterns must differ outside the tokens
+      const literal = pattern.replace(YEAR_TOKEN, '').replace(COUNTER_TOKEN, '');
+      if (literals.has(literal)) {
+        throw new Error(`Number pattern "${pattern}" for ${series} can produce another series' numbers`);
+      }
+      literals.add(literal);
+    }
+  }
+
+  /**
+   * Fiscal year a document issued at `date` is numbered in
+   */
+  fiscalYearOf(date: Date): number {
+    return Number(new Intl.DateTimeFormat('en', { timeZone: FISCAL_TIME_ZONE, year: 'numeric' }).format(date));
+  }
+
+  /**
+   * Format the nth number of a series in a fiscal year
+   */
+  format(series: DocumentSeries, fiscalYear: number, sequence: number): string {
+    return this.config.patterns[series]
+      .replace(YEAR_TOKEN, token => (token === '{YYYY}' ? String(fiscalYear) : String(fiscalYear % 100).padStart(2, '0')))
+      .replace(COUNTER_TOKEN, (_token, digits: string) => String(sequence).padStart(digits.length, '0'));
+  }
+
+  /**
+   * Take the next number of a series inside the issuing transaction
+   *
+   * The counter row stays locked until `tx` commits or rolls back, so keep
+   * the rest of that transaction short.
+   */
+  async reserve(tx: Prisma.TransactionClient, series: DocumentSeries, date: Date = new Date()): Promise<string> {
+    const fiscalYear = this.fiscalYearOf(date);
+
+    // The first document of a year creates its counter; concurrent firsts don't conflict
+    await tx.documentSequence.createMany({
+      data: [{ series, fiscalYear }],
+      skipDuplicates: true,
+    });
+
+    const { lastNumber } = await tx.documentSequence.update({
+      where: { series_fiscalYear: { series, fiscalYear } },
+      data: { lastNumber: { increment: 1 } },
+    });
+
+    return this.format(series, fiscalYear, lastNumber);
+  }
+}
+
+// Export singleton instance
+export const invoiceNumbering = new InvoiceNumbering({
+  patterns: {
+    PROFAKTURA: process.env.INVOICE_NUMBER_PATTERN_PROFAKTURA || DEFAULT_CONFIG.patterns.PROFAKTURA,
+    FAKTURA: process.env.INVOICE_NUMBER_PATTERN_FAKTURA || DEFAULT_CONFIG.patterns.FAKTURA,
+    AVANSNA_FAKTURA: process.env.INVOICE_NUMBER_PATTERN_AVANSNA_FAKTURA || DEFAULT_CONFIG.patterns.AVANSNA_FAKTURA,
+    CREDIT_NOTE: process.env.INVOICE_NUMBER_PATTERN_CREDIT_NOTE || DEFAULT_CONFIG.patterns.CREDIT_NOTE,
+    DEBIT_NOTE: process.env.INVOICE_NUMBER_PATTERN_DEBIT_NOTE || DEFAULT_CONFIG.patterns.DEBIT_NOTE,
+  },
+});
@@ -0,0 +1,705 @@
+/**
+ * Invoice Service - Issuing SEF e-invoices for bookings
+ *
+ * An invoice is built from the booked price components (or from lines
+ * given by staff), checked against the SEF business rules and the UBL 2.1
+ * schema, and stored together with the XML exactly as it was issued. The
+ * invoice number is only reserved (see lib/invoice-numbering.ts) once the
+ * document passed, in the transaction that stores it, so a refused or
+ * failed invoice never leaves a gap in the series.
+ *
+ * A booking can have several invoices. Every payment received before the
+ * final invoice is invoiced as an advance (avansna faktura), split over the
+ * booking's VAT rates in proportion to the booked price. The final invoice
+ * covers the whole booking and deducts all advances not deducted yet,
+ * together with their VAT. The ledger lists every document of a booking,
+ * including amendment invoices and credit notes.
+ *
+ * Invoices in another currency state their VAT in RSD as well, at the NBS
+ * rate of the invoice date.
+ *
+ * An invoice still to be paid by transfer carries a model 97 poziv na broj
+ * derived from its number, and in RSD also the NBS IPS QR code for paying
+ * it from a banking app (see lib/payment-slip.ts).
+ */
+
+import { PrismaClient, type Prisma } from '@prisma/client';
+import { Money } from '@/lib/money';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { currencyService, BASE_CURRENCY } from '@/lib/currency-service';
+import { sumApprovedPayments } from '@/lib/booking-state-machine';
+import { buildInvoiceLineItems, calculateInvoiceTotals } from '@/lib/invoice-totals';
+import { resolveTaxRate, taxEngine } from '@/lib/tax-engine';
+import { invoiceNumbering, NUMBERING_TRANSACTION_TIMEOUT_MS } from '@/lib/invoice-numbering';
+import { buildUblInvoice, checkSefRules, ublDocumentType } from '@/lib/ubl-invoice';
+import { UBL_SCHEMA_DIR, validateUblSchema } from '@/lib/ubl-schema';
+import {
+  buildCisPaymentData,
+  buildIpsQrPayload,
+  formatPaymentId,
+  IPS_CURRENCY,
+  PAYMENT_CODES,
+  PaymentSlipError,
+} from '@/lib/payment-slip';
+import type { AdvanceInvoiceRequest, CreateInvoiceRequest, CreateInvoiceResponse } from '@/types/api';
+import type {
+  AdvanceDeduction,
+  AmendmentInvoice,
+  FiscalData,
+  InvoiceData,
+  InvoiceLedger,
+  InvoiceLedgerEntry,
+  InvoiceLineItem,
+  InvoiceStatus,
+  InvoiceValidationIssue,
+  InvoiceXmlValidation,
+  TaxSubtotal,
+  UblInvoiceInput,
+} from '@/types/invoice';
+import type { BookingStatus, PackageComponentType, PriceBreakdown } from '@/types/package';
+
+const prisma = new PrismaClient();
+
+export const INVOICEABLE_STATUSES: BookingStatus[] = ['CONFIRMED', 'PAID', 'COMPLETED'];
+
+// Days a bank transfer has after the invoice date
+export const PAYMENT_TERM_DAYS = 8;
+
+export type InvoiceErrorCode = 'NOT_FOUND' | 'NOT_INVOICEABLE' | 'ALREADY_INVOICED' | 'INVALID' | 'CONFLICT';
+
+export class InvoiceError extends Error {
+  constructor(
+    readonly code: InvoiceErrorCode,
+    message: string,
+    readonly issues: InvoiceValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+type InvoiceRecord = Prisma.InvoiceDataGetPayload<object>;
+
+type InvoicedItinerary = Prisma.ItineraryGetPayload<{ include: { invoices: true } }>;
+
+/**
+ * The agency as seller, from AGENCY_* environment variables
+ */
+export function getSellerDetails(): Pick<InvoiceData, 'pib' | 'maticniBroj' | 'companyName' | 'companyAddress'> & { bankAccount?: string } {
+  return {
+    pib: process.env.AGENCY_PIB || '',
+    maticniBroj: process.env.AGENCY_MATICNI_BROJ || '',
+    companyName: process.env.AGENCY_NAME || '',
+    companyAddress: process.env.AGENCY_ADDRESS || '',
+    bankAccount: process.env.AGENCY_BANK_ACCOUNT || undefined,
+  };
+}
+
+/**
+ * The invoice later documents of a booking refer to: the final invoice once
+ * there is one, otherwise the latest advance invoice. Pro forma and
+ * cancelled invoices are never corrected.
+ */
+export function invoiceToCorrect(
+  invoices: { invoiceNumber: string; invoiceType: string; invoiceDate: Date; status: string }[]
+): string | undefined {
+  const latestFirst = invoices
+    .filter(invoice => invoice.invoiceType !== 'PROFAKTURA' && invoice.status !== 'CANCELLED')
+    .sort((a, b) => b.invoiceDate.getTime() - a.invoiceDate.getTime());
+  return (latestFirst.find(invoice => invoice.invoiceType === 'FAKTURA') || latestFirst[0])?.invoiceNumber;
+}
+
+export class InvoiceService {
+  /**
+   * Issue the final invoice of a booking, deducting its open advances
+   *
+   * @throws InvoiceError when the booking can't be invoiced (yet or again)
+   *   or the document breaks a SEF rule or the UBL schema
+   */
+  async createInvoice(request: CreateInvoiceRequest): Promise<CreateInvoiceResponse> {
+    const itinerary = await this.loadInvoiceable(request.itineraryId);
+    const invoiceDate = new Date();
+    const currency = itinerary.currency;
+
+    const lineItems = request.lineItems?.length
+      ? calculateInvoiceTotals(request.lineItems, currency).lineItems
+      : await this.getBookedLineItems(itinerary.id, itinerary.opaqueMask, invoiceDate);
+
+    if (!lineItems) {
+      throw new InvoiceError('NOT_INVOICEABLE', `Booking ${request.itineraryId} has no price components`);
+    }
+
+    const openAdvances = itinerary.invoices.filter(
+      invoice => invoice.invoiceType === 'AVANSNA_FAKTURA' && !invoice.settledByInvoiceId
+    );
+    const advances: AdvanceDeduction[] = openAdvances.map(advance => ({
+      invoiceNumber: advance.invoiceNumber,
+      issueDate: advance.invoiceDate,
+      taxSubtotals: toTaxSubtotals(advance.lines as unknown as InvoiceLineItem[], currency),
+    }));
+    const prepaid = Money.sum(openAdvances.map(advance => Money.of(Number(advance.totalAmount), currency)), currency);
+
+    const input = await this.buildInput(itinerary, {
+      invoiceType: 'FAKTURA',
+      invoiceDate,
+      lineItems,
+      customerInfo: request.customerInfo,
+      paymentMeans: request.paymentMethod,
+      settled: itinerary.status !== 'CONFIRMED',
+      advances,
+    });
+
+    const links = {
+      itineraryId: itinerary.id,
+      prepaidAmount: prepaid.toNumber(),
+      requestPayment: itinerary.status === 'CONFIRMED',
+    };
+
+    const stored = await this.issue(input, links, async (tx, invoice) => {
+      // Deduct every advance exactly once, even with two final invoices racing
+      const settled = await tx.invoiceData.updateMany({
+        where: { id: { in: openAdvances.map(advance => advance.id) }, settledByInvoiceId: null },
+        data: { settledByInvoiceId: invoice.id },
+      });
+
+      if (settled.count !== openAdvances.length) {
+        throw new InvoiceError('CONFLICT', `Advances of booking ${itinerary.id} were deducted concurrently`);
+      }
+    });
+
+    return toCreateInvoiceResponse(stored);
+  }
+
+  /**
+   * Issue the advance invoice for a payment received before the final invoice
+   *
+   * @throws InvoiceError when the payment isn't an approved payment of an
+   *   invoiceable booking, was invoiced already, or the final invoice exists
+   */
+  async issueAdvanceInvoice(request: AdvanceInvoiceRequest): Promise<CreateInvoiceResponse> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: request.paymentId },
+      include: { advanceInvoice: { select: { id: true } } },
+    });
+
+    if (!payment) {
+      throw new InvoiceError('NOT_FOUND', `Payment ${request.paymentId} not found`);
+    }
+    if (payment.advanceInvoice) {
+      throw new InvoiceError('ALREADY_INVOICED', `Payment ${request.paymentId} has already been invoiced`);
+    }
+
+    const itinerary = await this.loadInvoiceable(payment.itineraryId);
+    const currency = itinerary.currency;
+    const amount = Money.of(Number(payment.amount), payment.currency);
+
+    if (payment.status !== 'APPROVED' || !amount.isPositive()) {
+      throw new InvoiceError('NOT_INVOICEABLE', `Only approved payments are invoiced as advances`);
+    }
+    if (payment.currency !== currency) {
+      throw new InvoiceError('NOT_INVOICEABLE', `Payment is in ${payment.currency}, the booking in ${currency}`);
+    }
+
+    const invoiceDate = new Date();
+    const bookedLines = await this.getBookedLineItems(itinerary.id, false, invoiceDate);
+    if (!bookedLines) {
+      throw new InvoiceError('NOT_INVOICEABLE', `Booking ${itinerary.id} has no price components`);
+    }
+
+    const reference = itinerary.bookingReference || itinerary.id;
+    const input = await this.buildInput(itinerary, {
+      invoiceType: 'AVANSNA_FAKTURA',
+      invoiceDate,
+      lineItems: toAdvanceLines(amount, bookedLines, reference),
+      customerInfo: request.customerInfo || {
+        name: itinerary.customerName || 'Customer',
+        email: itinerary.customerEmail || '',
+      },
+      paymentMeans: payment.method as FiscalData['paymentMeans'],
+      settled: true,
+    });
+
+    return toCreateInvoiceResponse(await this.issue(input, { itineraryId: itinerary.id, paymentId: payment.id }));
+  }
+
+  /**
+   * Every invoice, amendment invoice and credit note of a booking, oldest first
+   */
+  async getLedger(itineraryId: string): Promise<InvoiceLedger | null> {
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id: itineraryId },
+      include: {
+        invoices: { include: { settledBy: { select: { invoiceNumber: true } } } },
+        amendmentInvoices: true,
+        creditNotes: true,
+        payments: true,
+      },
+    });
+
+    if (!itinerary) {
+      return null;
+    }
+
+    const currency = itinerary.currency;
+    const entries: InvoiceLedgerEntry[] = [
+      ...itinerary.invoices.map(invoice => ({
+        documentId: invoice.id,
+        documentNumber: invoice.invoiceNumber,
+        documentType: invoice.invoiceType as FiscalData['invoiceType'],
+        status: invoice.status as InvoiceStatus,
+        issueDate: invoice.invoiceDate,
+        referencedInvoiceNumber: invoice.settledBy?.invoiceNumber,
+        paymentId: invoice.paymentId || undefined,
+        taxableAmount: Number(invoice.taxableAmount),
+        taxAmount: Number(invoice.taxAmount),
+        totalAmount: Number(invoice.totalAmount),
+        prepaidAmount: Number(invoice.prepaidAmount),
+        amountDue: Money.of(Number(invoice.totalAmount), currency)
+          .subtract(Money.of(Number(invoice.prepaidAmount), currency))
+          .toNumber(),
+        xmlUrl: invoice.ublXml ? `/api/invoices/${invoice.id}/xml` : undefined,
+      })),
+      ...itinerary.amendmentInvoices.map(document => ({
+        documentId: document.id,
+        documentNumber: document.documentNumber,
+        documentType: document.documentType as AmendmentInvoice['documentType'],
+        issueDate: document.issueDate,
+        referencedInvoiceNumber: document.invoiceNumber || undefined,
+        taxableAmount: Number(document.taxableAmount),
+        taxAmount: Number(document.taxAmount),
+        totalAmount: Number(document.totalAmount),
+        prepaidAmount: 0,
+        amountDue: Number(document.totalAmount),
+      })),
+      // Notes store what they credit or debit as positive amounts
+      ...itinerary.creditNotes.map(note => {
+        const sign = note.noteType === 'DEBIT' ? 1 : -1;
+
+        return {
+          documentId: note.id,
+          documentNumber: note.creditNoteNumber,
+          documentType: note.noteType === 'DEBIT' ? 'DEBIT_NOTE' as const : 'CREDIT_NOTE' as const,
+          issueDate: note.issueDate,
+          referencedInvoiceNumber: note.invoiceNumber || undefined,
+          taxableAmount: sign * Number(note.taxableAmount),
+          taxAmount: sign * Number(note.taxAmount),
+          totalAmount: sign * Number(note.totalAmount),
+          prepaidAmount: 0,
+          amountDue: sign * Number(note.totalAmount),
+          xmlUrl: note.ublXml ? `/api/credit-notes/${note.id}/xml` : undefined,
+        };
+      }),
+    ].sort((a, b) => a.issueDate.getTime() - b.issueDate.getTime());
+
+    const sum = (amounts: number[]) => Money.sum(amounts.map(value => Money.of(value, currency)), currency);
+    const advanceEntries = entries.filter(entry => entry.documentType === 'AVANSNA_FAKTURA');
+    const invoiced = sum(entries.map(entry => entry.amountDue));
+    const paid = sumApprovedPayments(itinerary.payments, currency);
+
+    return {
+      itineraryId,
+      bookingReference: itinerary.bookingReference || undefined,
+      currency,
+      entries,
+      totals: {
+        invoiced: invoiced.toNumber(),
+        advancesInvoiced: sum(advanceEntries.map(entry => entry.totalAmount)).toNumber(),
+        advancesOpen: sum(advanceEntries.filter(entry => !entry.referencedInvoiceNumber).map(entry => entry.totalAmount)).toNumber(),
+        paid: paid.toNumber(),
+        balance: invoiced.subtract(paid).toNumber(),
+      },
+    };
+  }
+
+  /**
+   * The UBL XML of an issued invoice, as it was issued
+   */
+  async getInvoiceXml(invoiceId: string): Promise<{ itineraryId: string; invoiceNumber: string; xml: string } | null> {
+    const invoice = await prisma.invoiceData.findUnique({
+      where: { id: invoiceId },
+      select: { itineraryId: true, invoiceNumber: true, ublXml: true },
+    });
+
+    return invoice?.ublXml
+      ? { itineraryId: invoice.itineraryId, invoiceNumber: invoice.invoiceNumber, xml: invoice.ublXml }
+      : null;
+  }
+
+  /**
+   * The IPS QR payload of an issued invoice, for drawing its QR code
+   */
+  async getPaymentQr(invoiceId: string): Promise<{ itineraryId: string; invoiceNumber: string; payload: string } | null> {
+    const invoice = await prisma.invoiceData.findUnique({
+      where: { id: invoiceId },
+      select: { itineraryId: true, invoiceNumber: true, fiscalQrCode: true },
+    });
+
+    return invoice?.fiscalQrCode
+      ? { itineraryId: invoice.itineraryId, invoiceNumber: invoice.invoiceNumber, payload: invoice.fiscalQrCode }
+      : null;
+  }
+
+  /**
+   * Render an invoice and check it against the SEF rules and the UBL schema
+   *
+   * Without the schemas installed the document isn't valid, so nothing is
+   * issued unchecked.
+   */
+  async renderInvoice(input: UblInvoiceInput): Promise<{ xml: string; validation: InvoiceXmlValidation }> {
+    const xml = buildUblInvoice(input);
+    const ruleIssues = checkSefRules(input);
+    const schema = await validateUblSchema(xml, ublDocumentType(input));
+    const issues = [
+      ...ruleIssues,
+      ...schema.issues,
+      ...(schema.schemaChecked ? [] : [{
+        rule: 'XSD',
+        message: `The UBL 2.1 schemas aren't installed in ${UBL_SCHEMA_DIR} (see schemas/ubl-2.1/README.md)`,
+      }]),
+    ];
+
+    return {
+      xml,
+      validation: { valid: issues.length === 0, schemaChecked: schema.schemaChecked, issues },
+    };
+  }
+
+  /**
+   * A booking that may be invoiced, with its invoices so far
+   *
+   * @throws InvoiceError when it doesn't exist, isn't booked yet or already
+   *   has its final invoice
+   */
+  private async loadInvoiceable(itineraryId: string): Promise<InvoicedItinerary> {
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id: itineraryId },
+      include: { invoices: true },
+    });
+
+    if (!itinerary) {
+      throw new InvoiceError('NOT_FOUND', `Booking ${itineraryId} not found`);
+    }
+    if (!INVOICEABLE_STATUSES.includes(itinerary.status as BookingStatus)) {
+      throw new InvoiceError('NOT_INVOICEABLE', `A ${itinerary.status} booking can't be invoiced`);
+    }
+    // A final invoice credit notes reversed in full can be issued again
+    if (itinerary.invoices.some(invoice => invoice.invoiceType === 'FAKTURA' && invoice.status !== 'CANCELLED')) {
+      throw new InvoiceError('ALREADY_INVOICED', `Booking ${itineraryId} already has its final invoice`);
+    }
+
+    return itinerary;
+  }
+
+  private async buildInput(
+    itinerary: InvoicedItinerary,
+    document: {
+      invoiceType: FiscalData['invoiceType'];
+      invoiceDate: Date;
+      lineItems: InvoiceLineItem[];
+      customerInfo: CreateInvoiceRequest['customerInfo'];
+      paymentMeans: FiscalData['paymentMeans'];
+      settled: boolean; // Paid already, so due on the invoice date
+      advances?: AdvanceDeduction[];
+    }
+  ): Promise<UblInvoiceInput> {
+    const { invoiceType, invoiceDate, lineItems, customerInfo } = document;
+    const currency = itinerary.currency;
+    const taxable = Money.sum(lineItems.map(item => Money.of(item.lineTotal, currency)), currency);
+    const tax = Money.sum(lineItems.map(item => Money.of(item.taxAmount ?? 0, currency)), currency);
+    const seller = getSellerDetails();
+    const reference = itinerary.bookingReference || itinerary.id;
+
+    return {
+      invoice: {
+        // Checked under a preview number first; issue() renders it again under the real one
+        invoiceNumber: invoiceNumbering.format(invoiceType, invoiceNumbering.fiscalYearOf(invoiceDate), 0),
+        invoiceDate,
+        pib: seller.pib,
+        maticniBroj: seller.maticniBroj,
+        companyName: seller.companyName,
+        companyAddress: seller.companyAddress,
+        buyerPib: customerInfo.pib || undefined,
+        buyerMaticniBroj: customerInfo.maticniBroj || undefined,
+        buyerName: customerInfo.name,
+        buyerAddress: customerInfo.address || undefined,
+        taxableAmount: taxable.toNumber(),
+        taxAmount: tax.toNumber(),
+        totalAmount: taxable.add(tax).toNumber(),
+        currency,
+        isFiscalized: false,
+      },
+      lineItems,
+      fiscal: {
+        invoiceType,
+        taxCategory: lineItems[0]?.taxCategory || 'S',
+        taxPercent: lineItems[0]?.taxRate ?? 0,
+        paymentMeans: document.paymentMeans,
+        paymentDueDate: document.settled
+          ? invoiceDate
+          : new Date(invoiceDate.getTime() + PAYMENT_TERM_DAYS * 24 * 60 * 60 * 1000),
+        bankAccount: seller.bankAccount,
+        orderReference: reference,
+      },
+      itinerary: {
+        id: itinerary.id,
+        bookingReference: itinerary.bookingReference || undefined,
+        checkInDate: itinerary.checkInDate,
+        checkOutDate: itinerary.checkOutDate,
+      },
+      taxExchangeRate: currency === BASE_CURRENCY
+        ? undefined
+        : await currencyService.getRate(currency, BASE_CURRENCY, invoiceDate),
+      advances: document.advances,
+    };
+  }
+
+  /**
+   * Validate, number and store an invoice
+   *
+   * The invoice is checked under a preview number before a number is taken,
+   * then rendered and checked again under its real number, payment reference
+   * and QR code inside the numbering transaction: the stored XML is the one
+   * that passed, and a failure gives the number back.
+   *
+   * @param links.requestPayment - Whether the customer still pays the invoice,
+   *   which then gets its payment reference and QR code
+   * @param effects - Further writes that must commit with the invoice
+   */
+  private async issue(
+    input: UblInvoiceInput,
+    links: { itineraryId: string; paymentId?: string; prepaidAmount?: number; requestPayment?: boolean },
+    effects?: (tx: Prisma.TransactionClient, invoice: InvoiceRecord) => Promise<void>
+  ): Promise<InvoiceRecord> {
+    const { validation } = await this.renderInvoice(input);
+    if (!validation.valid) {
+      throw new InvoiceError('INVALID', `Invoice for booking ${input.itinerary.bookingReference || input.itinerary.id} fails SEF validation`, validation.issues);
+    }
+
+    if (links.requestPayment) {
+      // Under the preview number, so a seller the QR code can't name fails before numbering
+      toPaymentRequest(input, input.invoice.invoiceNumber, links.prepaidAmount);
+    }
+
+    return prisma.$transaction(async tx => {
+      const { invoice, fiscal } = input;
+      const invoiceNumber = await invoiceNumbering.reserve(tx, fiscal.invoiceType, invoice.invoiceDate);
+      const payment = links.requestPayment ? toPaymentRequest(input, invoiceNumber, links.prepaidAmount) : {};
+      const { xml, validation: issued } = await this.renderInvoice({ ...input, invoice: { ...invoice, invoiceNumber, ...payment } });
+
+      if (!issued.valid) {
+        throw new InvoiceError('INVALID', `Invoice ${invoiceNumber} fails SEF validation`, issued.issues);
+      }
+
+      const stored = await tx.invoiceData.create({
+        data: {
+          itineraryId: links.itineraryId,
+          paymentId: links.paymentId,
+          invoiceNumber,
+          invoiceDate: invoice.invoiceDate,
+          pib: invoice.pib,
+          maticniBroj: invoice.maticniBroj,
+          companyName: invoice.companyName,
+          companyAddress: invoice.companyAddress,
+          buyerPib: invoice.buyerPib,
+          buyerMaticniBroj: invoice.buyerMaticniBroj,
+          buyerName: invoice.buyerName,
+          buyerAddress: invoice.buyerAddress,
+          invoiceType: fiscal.invoiceType,
+          paymentMeans: fiscal.paymentMeans,
+          paymentDueDate: fiscal.paymentDueDate,
+          bankAccount: fiscal.bankAccount,
+          cisCode: payment.cisCode,
+          fiscalQrCode: payment.fiscalQrCode,
+          lines: input.lineItems as unknown as Prisma.InputJsonValue,
+          ublXml: xml,
+          taxableAmount: invoice.taxableAmount,
+          taxAmount: invoice.taxAmount,
+          totalAmount: invoice.totalAmount,
+          prepaidAmount: links.prepaidAmount ?? 0,
+          currency: invoice.currency,
+          exchangeRate: input.taxExchangeRate?.rate,
+          exchangeRateDate: input.taxExchangeRate?.rateDate,
+          exchangeRateSource: input.taxExchangeRate?.source,
+        },
+      });
+
+      await effects?.(tx, stored);
+      return stored;
+    }, { timeout: NUMBERING_TRANSACTION_TIMEOUT_MS });
+  }
+
+  /**
+   * Invoice lines for the booked price components
+   *
+   * Opaque packages are invoiced as one package line per tax rate, so the
+   * invoice doesn't reveal what the price view hides.
+   */
+  private async getBookedLineItems(
+    itineraryId: string,
+    opaque: boolean,
+    invoiceDate: Date
+  ): Promise<InvoiceLineItem[] | null> {
+    const breakdown = await packagingEngine.getItineraryPriceBreakdown(itineraryId);
+    if (!breakdown) {
+      return null;
+    }
+
+    const lineItems = await withExemptions(buildInvoiceLineItems(breakdown), breakdown, invoiceDate);
+    return opaque ? toPackageLines(lineItems, breakdown.currency) : lineItems;
+  }
+}
+
+/**
+ * Exemption code and legal basis of the tax rate behind every Z and E line
+ */
+async function withExemptions(
+  lineItems: InvoiceLineItem[],
+  breakdown: PriceBreakdown,
+  date: Date
+): Promise<InvoiceLineItem[]> {
+  if (lineItems.every(item => (item.taxCategory || 'S') === 'S')) {
+    return lineItems;
+  }
+
+  const rates = await taxEngine.getTaxRates(date);
+
+  return lineItems.map(item => {
+    if ((item.taxCategory || 'S') === 'S') {
+      return item;
+    }
+
+    const component = breakdown.components.find(c => c.id === item.itemId);
+    const rate = resolveTaxRate(rates, component?.componentType as PackageComponentType | undefined, date);
+
+    return { ...item, exemptionReasonCode: rate.exemptionReasonCode, exemptionReason: rate.exemptionReason };
+  });
+}
+
+/**
+ * One "Travel package" line per tax category and rate
+ */
+export function toPackageLines(lineItems: InvoiceLineItem[], currency: string): InvoiceLineItem[] {
+  const lines = new Map<string, InvoiceLineItem>();
+
+  for (const item of lineItems) {
+    const key = `${item.taxCategory || 'S'}:${item.taxRate}`;
+    const line = lines.get(key);
+    const lineTotal = Money.of(item.lineTotal, currency).add(Money.of(line?.lineTotal ?? 0, currency)).toNumber();
+    const taxAmount = Money.of(item.taxAmount ?? 0, currency).add(Money.of(line?.taxAmount ?? 0, currency)).toNumber();
+
+    lines.set(key, {
+      ...item,
+      itemId: line?.itemId || `PACKAGE-${lines.size + 1}`,
+      description: 'Travel package',
+      quantity: 1,
+      unitPrice: lineTotal,
+      lineTotal,
+      taxAmount,
+    });
+  }
+
+  return Array.from(lines.values());
+}
+
+/**
+ * One advance line per VAT rate of the booking, the payment split over them
+ * by the booked price; each share includes its VAT
+ */
+function toAdvanceLines(payment: Money, bookedLines: InvoiceLineItem[], reference: string): InvoiceLineItem[] {
+  const currency = payment.currency;
+  const groups = toPackageLines(bookedLines, currency);
+  const shares = payment.allocate(
+    groups.map(group => Money.of(group.lineTotal, currency).add(Money.of(group.taxAmount ?? 0, currency)))
+  );
+
+  return groups
+    .map((group, index) => {
+      const gross = shares[index];
+      const [tax] = group.taxRate > 0 ? gross.allocate([group.taxRate, 100]) : [Money.zero(currency)];
+      const net = gross.subtract(tax).toNumber();
+
+      return {
+        itemId: `ADVANCE-${index + 1}`,
+        description: `Advance payment for booking ${reference}`,
+        quantity: 1,
+        unitPrice: net,
+        taxRate: group.taxRate,
+        taxCategory: group.taxCategory,
+        exemptionReasonCode: group.exemptionReasonCode,
+        exemptionReason: group.exemptionReason,
+        lineTotal: net,
+        taxAmount: tax.toNumber(),
+      };
+    })
+    .filter(line => line.lineTotal !== 0 || line.taxAmount !== 0);
+}
+
+function toTaxSubtotals(lineItems: InvoiceLineItem[], currency: string): TaxSubtotal[] {
+  return toPackageLines(lineItems, currency).map(line => ({
+    taxCategory: line.taxCategory || 'S',
+    taxRate: line.taxRate,
+    taxableAmount: line.lineTotal,
+    taxAmount: line.taxAmount ?? 0,
+  }));
+}
+
+/**
+ * Model 97 reference and IPS QR payload of an invoice paid by transfer
+ *
+ * Nothing for other payment means. The QR code is left out for invoices in
+ * another currency, which IPS can't pay, and when advances covered it all.
+ *
+ * @throws InvoiceError when the seller can't be put on a payment slip
+ */
+function toPaymentRequest(
+  input: UblInvoiceInput,
+  invoiceNumber: string,
+  prepaidAmount: number = 0
+): Pick<InvoiceData, 'cisCode' | 'fiscalQrCode'> {
+  const { invoice, fiscal } = input;
+
+  if (!fiscal.bankAccount || (fiscal.paymentMeans !== 'BANK_TRANSFER' && fiscal.paymentMeans !== 'CIS')) {
+    return {};
+  }
+
+  const payable = Money.of(invoice.totalAmount, invoice.currency).subtract(Money.of(prepaidAmount, invoice.currency));
+
+  try {
+    const slip = buildCisPaymentData(invoiceNumber, fiscal.bankAccount, `Uplata po računu ${invoiceNumber}`);
+    const fiscalQrCode = invoice.currency === IPS_CURRENCY && payable.isPositive()
+      ? buildIpsQrPayload({
+          payeeAccount: slip.recipientAccount,
+          payeeName: `${invoice.companyName}\n${invoice.companyAddress}`,
+          amount: payable.toNumber(),
+          paymentCode: invoice.buyerPib ? PAYMENT_CODES.BUSINESS : PAYMENT_CODES.CONSUMER,
+          purpose: slip.paymentPurpose,
+          model: slip.cisModel,
+          callNumber: slip.cisCallNumber,
+        })
+      : undefined;
+
+    return { cisCode: formatPaymentId(slip), fiscalQrCode };
+  } catch (error) {
+    if (error instanceof PaymentSlipError) {
+      throw new InvoiceError('INVALID', `Invoice ${invoiceNumber} can't be put on a payment slip`, [
+        { rule: 'IPS', message: error.message, location: 'PaymentMeans' },
+      ]);
+    }
+    throw error;
+  }
+}
+
+function toCreateInvoiceResponse(invoice: InvoiceRecord): CreateInvoiceResponse {
+  return {
+    success: true,
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    cisCode: invoice.cisCode || undefined,
+    fiscalQrCode: invoice.fiscalQrCode || undefined,
+    qrUrl: invoice.fiscalQrCode ? `/api/invoices/${invoice.id}/qr` : undefined,
+    xmlUrl: `/api/invoices/${invoice.id}/xml`,
+  };
+}
+
+// Export singleton instance
+export const invoiceService = new InvoiceService();
@@ -0,0 +1,111 @@
+/**
+ * Invoice Totals - Exact line, VAT and document totals for invoices
+ *
+ * Line totals are rounded half-up to the currency's minor units and VAT is
+ * calculated per line or once per tax category and rate, so the invoice
+ * totals always equal the sum of what is printed on the lines.
+ */
+
+import { Money } from '@/lib/money';
+import { calculateTaxAmounts } from '@/lib/tax-engine';
+import type { PriceBreakdown } from '@/types/package';
+import type {
+  InvoiceLineItem,
+  InvoiceTotals,
+  TaxRoundingStrategy,
+  TaxSubtotal,
+} from '@/types/invoice';
+
+/**
+ * Calculate line totals, VAT per line and the document totals
+ */
+export function calculateInvoiceTotals(
+  lineItems: InvoiceLineItem[],
+  currency: string,
+  options: { rounding?: TaxRoundingStrategy } = {}
+): InvoiceTotals {
+  const { rounding = 'PER_DOCUMENT' } = options;
+
+  const lines = lineItems.map(item => ({
+    item,
+    taxCategory: item.taxCategory || 'S',
+    // Unit prices may carry more decimals than the currency; round the product once
+    lineTotal: Money.of(item.quantity, currency).multiply(item.unitPrice),
+  }));
+
+  const taxAmounts = calculateTaxAmounts(
+    lines.map(line => ({
+      taxCategory: line.taxCategory,
+      ratePercent: line.item.taxRate,
+      taxableAmount: line.lineTotal,
+    })),
+    rounding
+  );
+
+  const subtotals = new Map<string, { taxCategory: TaxSubtotal['taxCategory']; taxRate: number; taxable: Money; tax: Money }>();
+  lines.forEach((line, index) => {
+    const key = `${line.taxCategory}:${line.item.taxRate}`;
+    const subtotal = subtotals.get(key) || {
+      taxCategory: line.taxCategory,
+      taxRate: line.item.taxRate,
+      taxable: Money.zero(currency),
+      tax: Money.zero(currency),
+    };
+
+    subtotal.taxable = subtotal.taxable.add(line.lineTotal);
+    subtotal.tax = subtotal.tax.add(taxAmounts[index]);
+    subtotals.set(key, subtotal);
+  });
+
+  const taxableAmount = Money.sum(lines.map(line => line.lineTotal), currency);
+  const taxAmount = Money.sum(taxAmounts, currency);
+
+  return {
+    lineItems: lines.map((line, index) => ({
+      ...line.item,
+      taxCategory: line.taxCategory,
+      lineTotal: line.lineTotal.toNumber(),
+      taxAmount: taxAmounts[index].toNumber(),
+    })),
+    taxSubtotals: Array.from(subtotals.values()).map(subtotal => ({
+      taxCategory: subtotal.taxCategory,
+      taxRate: subtotal.taxRate,
+      taxableAmount: subtotal.taxable.toNumber(),
+      taxAmount: subtotal.tax.toNumber(),
+    })),
+    taxableAmount: taxableAmount.toNumber(),
+    taxAmount: taxAmount.toNumber(),
+    totalAmount: taxableAmount.add(taxAmount).toNumber(),
+    currency,
+    taxRounding: rounding,
+  };
+}
+
+/**
+ * One invoice line per priced component, taxed as the breakdown was
+ *
+ * Component taxes were already rounded by the TaxEngine, so the lines carry
+ * them as-is and the invoice total matches the itinerary total to the cent.
+ */
+export function buildInvoiceLineItems(breakdown: PriceBreakdown): InvoiceLineItem[] {
+  const currency = breakdown.currency;
+
+  return breakdown.components
+    .filter(component => component.componentType !== 'MARGIN' && component.componentType !== 'TAX')
+    .map(component => {
+      const sellPrice = Money.of(component.netPrice, currency)
+        .add(Money.of(component.marginAmount, currency))
+        .toNumber();
+
+      return {
+        itemId: component.id,
+        description: component.componentType,
+        quantity: 1,
+        unitPrice: sellPrice,
+        taxRate: component.taxRate ?? 0,
+        taxCategory: component.taxCategory,
+        lineTotal: sellPrice,
+        taxAmount: component.taxAmount,
+      };
+    });
+}
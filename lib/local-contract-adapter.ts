@@ -0,0 +1,349 @@
+/**
+ * Local Contract Adapter - Supplier adapter for directly contracted inventory
+ *
+ * Reads flights, hotels and transfers from a JSON contract file (the
+ * supplier's apiUrl, LOCAL_CONTRACT_FILE or data/local-contract.json), so
+ * the whole supplier flow runs without Amadeus or Hotelbeds access. Room
+ * allotments are listed per night; nights that aren't listed are closed.
+ *
+ * The file is only read. Bookings and the seats and rooms they take are
+ * kept in memory for the life of the adapter.
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Money } from '@/lib/money';
+import { stayNights } from '@/lib/room-rate-calendar';
+import { SupplierError } from '@/lib/supplier-adapter';
+import type { Flight, FlightSearchParams, HotelSearchParams, Room, Transfer } from '@/types/package';
+import type {
+  SupplierAdapter,
+  SupplierAvailability,
+  SupplierBooking,
+  SupplierBookingRequest,
+  SupplierCancellation,
+  SupplierConfig,
+  SupplierHotel,
+  SupplierItem,
+  TransferSearchParams,
+} from '@/types/supplier';
+
+const DEFAULT_CONTRACT_FILE = 'data/local-contract.json';
+
+/**
+ * Contract file format; dates are ISO 8601 strings
+ */
+interface ContractFile {
+  flights?: (Omit<Flight, 'departureTime' | 'arrivalTime' | 'validUntil' | 'supplierId'> & {
+    departureTime: string;
+    arrivalTime: string;
+    validUntil?: string;
+  })[];
+  hotels?: (Omit<SupplierHotel, 'availableRooms' | 'supplierId'> & {
+    rooms: (Omit<Room, 'hotelId' | 'available' | 'rates'> & {
+      allotment: Record<string, number>; // Rooms per night, keyed YYYY-MM-DD
+    })[];
+  })[];
+  transfers?: Omit<Transfer, 'supplierId'>[];
+}
+
+interface Contract {
+  flights: Flight[];
+  hotels: SupplierHotel[];
+  transfers: Transfer[];
+  allotments: Map<string, Map<string, number>>; // Room ID -> night -> rooms left
+}
+
+interface LocalBooking {
+  items: SupplierItem[];
+  netPrice: Money;
+  status: 'CONFIRMED' | 'CANCELLED';
+}
+
+export class LocalContractAdapter implements SupplierAdapter {
+  private contract?: Promise<Contract>;
+  private loaded?: Contract; // Set once the contract promise resolves
+  private bookings = new Map<string, LocalBooking>();
+
+  constructor(readonly supplier: SupplierConfig) {}
+
+  async searchFlights(params: FlightSearchParams): Promise<Flight[]> {
+    const { flights } = await this.load();
+    const legs = [
+      { origin: params.origin, destination: params.destination, date: params.departureDate },
+      ...(params.returnDate
+        ? [{ origin: params.destination, destination: params.origin, date: params.returnDate }]
+        : []),
+    ];
+
+    return flights.filter(flight =>
+      legs.some(leg =>
+        sameCode(flight.origin, leg.origin) &&
+        sameCode(flight.destination, leg.destination) &&
+        sameDay(flight.departureTime, leg.date)
+      ) &&
+      sameCode(flight.cabinClass, params.cabinClass) &&
+      flight.availableSeats >= params.passengers
+    );
+  }
+
+  async searchHotels(params: HotelSearchParams): Promise<SupplierHotel[]> {
+    const { hotels } = await this.load();
+    const guestsPerRoom = Math.ceil(params.guests / Math.max(params.rooms, 1));
+
+    return hotels
+      .filter(hotel =>
+        sameCode(hotel.city, params.city) &&
+        (!params.stars || hotel.stars >= params.stars) &&
+        (params.amenities || []).every(amenity => hotel.amenities.includes(amenity))
+      )
+      .map(hotel => ({
+        ...hotel,
+        availableRooms: hotel.availableRooms.filter(room =>
+          room.maxOccupancy + (room.maxExtraBeds || 0) >= guestsPerRoom &&
+          this.roomsLeft(room.id, params.checkInDate, params.checkOutDate) >= params.rooms
+        ),
+      }))
+      .filter(hotel => hotel.availableRooms.length > 0);
+  }
+
+  async searchTransfers(params: TransferSearchParams): Promise<Transfer[]> {
+    const { transfers } = await this.load();
+
+    return transfers.filter(transfer =>
+      sameCode(transfer.origin, params.origin) &&
+      sameCode(transfer.destination, params.destination) &&
+      transfer.available &&
+      (transfer.transferType === 'PRIVATE' || transfer.capacity >= params.passengers)
+    );
+  }
+
+  async checkAvailability(item: SupplierItem): Promise<SupplierAvailability> {
+    await this.load();
+
+    switch (item.componentType) {
+      case 'FLIGHT': {
+        const flight = await this.findFlight(item.itemId);
+        return {
+          available: flight.availableSeats >= item.quantity,
+          remaining: flight.availableSeats,
+          netPrice: flight.netPrice,
+          currency: flight.currency,
+        };
+      }
+      case 'HOTEL': {
+        const room = await this.findRoom(item.itemId);
+        const remaining = this.roomsLeft(room.id, item.checkInDate, item.checkOutDate || item.checkInDate);
+        return {
+          available: remaining >= item.quantity,
+          remaining,
+          netPrice: room.pricePerNight,
+          currency: room.currency,
+        };
+      }
+      case 'TRANSFER': {
+        const transfer = await this.findTransfer(item.itemId);
+        return {
+          available: transfer.available,
+          netPrice: transfer.pricePerPerson,
+          currency: transfer.currency,
+        };
+      }
+    }
+  }
+
+  /**
+   * Book every item or none of them
+   */
+  async book(request: SupplierBookingRequest): Promise<SupplierBooking> {
+    const prices: Money[] = [];
+
+    for (const item of request.items) {
+      const availability = await this.checkAvailability(item);
+
+      if (!availability.available) {
+        throw new SupplierError(
+          'UNAVAILABLE',
+          this.supplier.id,
+          `${item.componentType} ${item.itemId} has fewer than ${item.quantity} left`
+        );
+      }
+
+      const units = item.componentType === 'HOTEL'
+        ? item.quantity * stayNights(item.checkInDate, item.checkOutDate || item.checkInDate).length
+        : item.quantity;
+      prices.push(Money.of(availability.netPrice || 0, availability.currency || 'EUR').multiply(units));
+    }
+
+    const currencies = new Set(prices.map(price => price.currency));
+    if (currencies.size > 1) {
+      throw new SupplierError('REJECTED', this.supplier.id, 'A local contract booking must be in one currency');
+    }
+
+    const currency = prices[0]?.currency || 'EUR';
+    const netPrice = Money.sum(prices, currency);
+    const supplierReference = `LC-${request.reference}-${this.bookings.size + 1}`;
+
+    for (const item of request.items) {
+      await this.take(item, 1);
+    }
+    this.bookings.set(supplierReference, { items: request.items, netPrice, status: 'CONFIRMED' });
+
+    return {
+      supplierReference,
+      status: 'CONFIRMED',
+      netPrice: netPrice.toNumber(),
+      currency,
+    };
+  }
+
+  /**
+   * Cancel a booking free of charge; penalties are applied by our own
+   * cancellation policies
+   */
+  async cancel(supplierReference: string): Promise<SupplierCancellation> {
+    const booking = this.bookings.get(supplierReference);
+
+    if (!booking) {
+      throw new SupplierError('NOT_FOUND', this.supplier.id, `No local contract booking ${supplierReference}`);
+    }
+
+    if (booking.status === 'CONFIRMED') {
+      for (const item of booking.items) {
+        await this.take(item, -1);
+      }
+      booking.status = 'CANCELLED';
+    }
+
+    return {
+      supplierReference,
+      status: 'CANCELLED',
+      cancellationFee: 0,
+      currency: booking.netPrice.currency,
+    };
+  }
+
+  /**
+   * Take an item's seats or rooms (direction 1) or give them back (-1)
+   */
+  private async take(item: SupplierItem, direction: 1 | -1): Promise<void> {
+    if (item.componentType === 'FLIGHT') {
+      const flight = await this.findFlight(item.itemId);
+      flight.availableSeats -= direction * item.quantity;
+    }
+
+    if (item.componentType === 'HOTEL') {
+      const { allotments } = await this.load();
+      const nights = allotments.get(item.itemId);
+
+      for (const night of stayNights(item.checkInDate, item.checkOutDate || item.checkInDate)) {
+        const key = toDateKey(night);
+        nights?.set(key, (nights.get(key) || 0) - direction * item.quantity);
+      }
+    }
+  }
+
+  /**
+   * Fewest rooms left on any night of the stay; 0 if a night is closed
+   */
+  private roomsLeft(roomId: string, checkInDate: Date, checkOutDate: Date): number {
+    const nights = stayNights(checkInDate, checkOutDate);
+    const allotment = this.loaded?.allotments.get(roomId);
+
+    if (!allotment || nights.length === 0) {
+      return 0;
+    }
+
+    return Math.min(...nights.map(night => allotment.get(toDateKey(night)) || 0));
+  }
+
+  private async findFlight(flightId: string): Promise<Flight> {
+    const flight = (await this.load()).flights.find(candidate => candidate.id === flightId);
+    if (!flight) {
+      throw new SupplierError('NOT_FOUND', this.supplier.id, `No flight ${flightId} in the local contract`);
+    }
+    return flight;
+  }
+
+  private async findRoom(roomId: string): Promise<Room> {
+    const room = (await this.load()).hotels
+      .flatMap(hotel => hotel.availableRooms)
+      .find(candidate => candidate.id === roomId);
+    if (!room) {
+      throw new SupplierError('NOT_FOUND', this.supplier.id, `No room ${roomId} in the local contract`);
+    }
+    return room;
+  }
+
+  private async findTransfer(transferId: string): Promise<Transfer> {
+    const transfer = (await this.load()).transfers.find(candidate => candidate.id === transferId);
+    if (!transfer) {
+      throw new SupplierError('NOT_FOUND', this.supplier.id, `No transfer ${transferId} in the local contract`);
+    }
+    return transfer;
+  }
+
+  /**
+   * Read and normalise the contract file once
+   */
+  private load(): Promise<Contract> {
+    if (!this.contract) {
+      this.contract = this.readContract().then(contract => (this.loaded = contract));
+      // A broken file is retried on the next call instead of failing forever
+      this.contract.catch(() => (this.contract = undefined));
+    }
+    return this.contract;
+  }
+
+  private async readContract(): Promise<Contract> {
+    const file = path.resolve(this.supplier.apiUrl || process.env.LOCAL_CONTRACT_FILE || DEFAULT_CONTRACT_FILE);
+    let data: ContractFile;
+
+    try {
+      data = JSON.parse(await readFile(file, 'utf8')) as ContractFile;
+    } catch (error) {
+      throw new SupplierError(
+        'UNREACHABLE',
+        this.supplier.id,
+        `Can't read local contract ${file}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const supplierId = this.supplier.id;
+    const allotments = new Map<string, Map<string, number>>();
+
+    const hotels = (data.hotels || []).map(({ rooms, ...hotel }) => ({
+      ...hotel,
+      supplierId,
+      availableRooms: rooms.map(({ allotment, ...room }) => {
+        allotments.set(room.id, new Map(Object.entries(allotment)));
+        return { ...room, hotelId: hotel.id, available: true };
+      }),
+    }));
+
+    return {
+      flights: (data.flights || []).map(flight => ({
+        ...flight,
+        departureTime: new Date(flight.departureTime),
+        arrivalTime: new Date(flight.arrivalTime),
+        validUntil: flight.validUntil ? new Date(flight.validUntil) : undefined,
+        supplierId,
+      })),
+      hotels,
+      transfers: (data.transfers || []).map(transfer => ({ ...transfer, supplierId })),
+      allotments,
+    };
+  }
+}
+
+function sameCode(a: string, b: string): boolean {
+  return a.trim().toUpperCase() === b.trim().toUpperCase();
+}
+
+function sameDay(a: Date, b: Date): boolean {
+  return toDateKey(a) === toDateKey(b);
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
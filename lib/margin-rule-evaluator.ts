@@ -0,0 +1,105 @@
+/**
+ * Margin Rule Evaluator - Pure condition matching for MarginRules
+ *
+ * A rule applies only when every condition it defines matches the package
+ * (AND within a rule). Conditions left empty never restrict the rule, so a
+ * rule without any conditions is a global rule. No database access happens
+ * here; the PackagingEngine just supplies the candidate rules.
+ */
+
+import { calculateNights } from '@/lib/utils';
+import type { MarginRule, MarginRuleContext } from '@/types/package';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Build the evaluation context for a package
+ */
+export function buildMarginRuleContext(params: {
+  checkInDate: Date;
+  checkOutDate?: Date;
+  bookingDate?: Date;
+  travelers?: number;
+  destinationCountry?: string;
+  seasonType?: string;
+  category?: string;
+}): MarginRuleContext {
+  const { checkInDate, checkOutDate, bookingDate = new Date() } = params;
+
+  return {
+    daysAdvance: Math.floor((checkInDate.getTime() - bookingDate.getTime()) / MS_PER_DAY),
+    stayNights: checkOutDate ? calculateNights(checkInDate, checkOutDate) : undefined,
+    travelers: params.travelers,
+    destinationCountry: params.destinationCountry,
+    departureWeekday: checkInDate.getUTCDay(),
+    seasonType: params.seasonType,
+    category: params.category,
+  };
+}
+
+/**
+ * Check whether every condition defined on the rule matches the context
+ */
+export function matchesMarginRule(rule: MarginRule, context: MarginRuleContext): boolean {
+  if (!rule.isActive) {
+    return false;
+  }
+
+  return (
+    inRange(context.daysAdvance, rule.minDaysAdvance, rule.maxDaysAdvance) &&
+    inRange(context.daysAdvance, undefined, rule.bookingDaysAdvance) &&
+    inRange(context.stayNights, rule.minStayNights, rule.maxStayNights) &&
+    inRange(context.travelers, rule.minTravelers, rule.maxTravelers) &&
+    sameValue(context.destinationCountry, rule.destinationCountry) &&
+    sameValue(context.seasonType, rule.seasonType) &&
+    sameValue(context.category, rule.packageCategory) &&
+    matchesWeekday(context.departureWeekday, rule.departureWeekdays)
+  );
+}
+
+/**
+ * Filter candidate rules down to the ones that apply, highest priority first
+ */
+export function selectApplicableMarginRules(
+  rules: MarginRule[],
+  context: MarginRuleContext
+): MarginRule[] {
+  return rules
+    .filter(rule => matchesMarginRule(rule, context))
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Inclusive range check. A bound that is set requires the value to be known.
+ */
+function inRange(value: number | undefined, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) {
+    return true;
+  }
+
+  if (value === undefined) {
+    return false;
+  }
+
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Case-insensitive equality, since categories and seasons are stored as "Family"
+ * in the database but travel through the API as "FAMILY"
+ */
+function sameValue(value: string | undefined, expected?: string): boolean {
+  if (!expected) {
+    return true;
+  }
+
+  return value !== undefined && value.trim().toLowerCase() === expected.trim().toLowerCase();
+}
+
+function matchesWeekday(weekday: number | undefined, weekdays?: number[]): boolean {
+  if (!weekdays || weekdays.length === 0) {
+    return true;
+  }
+
+  return weekday !== undefined && weekdays.includes(weekday);
+}
@@ -0,0 +1,306 @@
+/**
+ * Money - Exact Decimal Amounts for Pricing and Invoicing
+ *
+ * Amounts are held as an integer number of minor units (e.g. cents) so
+ * adding, subtracting and allocating never drifts. Multiplication by a
+ * decimal factor (margin percent, VAT rate, exchange rate) is computed
+ * exactly and rounded once, with an explicit rounding mode.
+ */
+
+export type RoundingMode = 'HALF_UP' | 'HALF_EVEN' | 'DOWN' | 'UP';
+
+// ISO 4217 minor units for the currencies that don't use two decimals
+const MINOR_UNIT_OVERRIDES: Record<string, number> = {
+  JPY: 0,
+  KWD: 3,
+  BHD: 3,
+};
+
+export function minorUnitsOf(currency: string): number {
+  return MINOR_UNIT_OVERRIDES[currency.toUpperCase()] ?? 2;
+}
+
+export class Money {
+  private constructor(
+    readonly minor: bigint,
+    readonly currency: string
+  ) {}
+
+  /**
+   * Create an amount from a decimal value. Strings (e.g. Prisma Decimal
+   * `toString()`) are read exactly; extra decimals are rounded.
+   */
+  static of(
+    amount: number | string | { toString(): string },
+    currency: string,
+    rounding: RoundingMode = 'HALF_UP'
+  ): Money {
+    const { digits, scale } = parseDecimal(String(amount));
+    return new Money(rescale(digits, scale, minorUnitsOf(currency), rounding), currency);
+  }
+
+  static fromMinor(minor: bigint | number, currency: string): Money {
+    return new Money(BigInt(minor), currency);
+  }
+
+  static zero(currency: string): Money {
+    return new Money(BigInt(0), currency);
+  }
+
+  static sum(amounts: Money[], currency: string): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency));
+  }
+
+  static max(a: Money, b: Money): Money {
+    return a.compare(b) >= 0 ? a : b;
+  }
+
+  static min(a: Money, b: Money): Money {
+    return a.compare(b) <= 0 ? a : b;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  abs(): Money {
+    return this.minor < BigInt(0) ? this.negate() : this;
+  }
+
+  /**
+   * Multiply by an exact decimal factor and round to minor units
+   */
+  multiply(factor: number | string, rounding: RoundingMode = 'HALF_UP'): Money {
+    const { digits, scale } = parseDecimal(String(factor));
+    return new Money(divideRounded(this.minor * digits, pow10(scale), rounding), this.currency);
+  }
+
+  /**
+   * Percentage of the amount, e.g. percent(20) for 20% VAT
+   */
+  percent(percent: number | string, rounding: RoundingMode = 'HALF_UP'): Money {
+    const { digits, scale } = parseDecimal(String(percent));
+    return new Money(divideRounded(this.minor * digits, pow10(scale + 2), rounding), this.currency);
+  }
+
+  /**
+   * Convert into another currency at `rate` (1 unit of this currency = rate units of target)
+   */
+  convert(rate: number | string, currency: string, rounding: RoundingMode = 'HALF_UP'): Money {
+    const { digits, scale } = parseDecimal(String(rate));
+    const targetScale = minorUnitsOf(currency) - minorUnitsOf(this.currency);
+    const numerator = this.minor * digits * pow10(Math.max(targetScale, 0));
+    const denominator = pow10(scale + Math.max(-targetScale, 0));
+    return new Money(divideRounded(numerator, denominator, rounding), currency);
+  }
+
+  /**
+   * Split the amount by weights without losing or inventing a single minor unit
+   *
+   * Each part gets its proportional share rounded down; the leftover units go
+   * one by one to the parts with the largest remainders, earlier parts first
+   * on ties. Zero weights everywhere split the amount evenly.
+   */
+  allocate(weights: (number | string | Money)[]): Money[] {
+    if (weights.length === 0) {
+      return [];
+    }
+
+    const scaled = toCommonScale(weights);
+    const total = scaled.reduce((sum, weight) => sum + weight, BigInt(0));
+    const effective = total === BigInt(0) ? scaled.map(() => BigInt(1)) : scaled;
+    const effectiveTotal = total === BigInt(0) ? BigInt(weights.length) : total;
+
+    const negative = this.minor < BigInt(0);
+    const amount = negative ? -this.minor : this.minor;
+
+    const shares = effective.map(weight => (amount * weight) / effectiveTotal);
+    const remainders = effective.map((weight, index) => ({
+      index,
+      remainder: (amount * weight) % effectiveTotal,
+    }));
+
+    let leftover = amount - shares.reduce((sum, share) => sum + share, BigInt(0));
+    remainders
+      .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1))
+      .forEach(({ index }) => {
+        if (leftover > BigInt(0)) {
+          shares[index] += BigInt(1);
+          leftover -= BigInt(1);
+        }
+      });
+
+    return shares.map(share => new Money(negative ? -share : share, this.currency));
+  }
+
+  compare(other: Money): number {
+    this.assertSameCurrency(other);
+    return this.minor === other.minor ? 0 : this.minor > other.minor ? 1 : -1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  isZero(): boolean {
+    return this.minor === BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.minor < BigInt(0);
+  }
+
+  isPositive(): boolean {
+    return this.minor > BigInt(0);
+  }
+
+  /**
+   * Decimal string with exactly the currency's minor units, e.g. "1234.50"
+   */
+  toString(): string {
+    return formatDecimal(this.minor, minorUnitsOf(this.currency));
+  }
+
+  /**
+   * Plain number for API payloads and Prisma Decimal columns. Exact for any
+   * amount an invoice will ever hold.
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): number {
+    return this.toNumber();
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} vs ${other.currency}`);
+    }
+  }
+}
+
+/**
+ * Exact quotient of two decimals rounded to `scale` places, e.g. a cross rate
+ */
+export function divideDecimal(
+  dividend: number | string,
+  divisor: number | string,
+  scale: number,
+  rounding: RoundingMode = 'HALF_UP'
+): string {
+  const a = parseDecimal(String(dividend));
+  const b = parseDecimal(String(divisor));
+
+  if (b.digits === BigInt(0)) {
+    throw new Error('Division by zero');
+  }
+
+  // a / b * 10^scale = a.digits * 10^(scale + b.scale - a.scale) / b.digits
+  const exponent = scale + b.scale - a.scale;
+  const numerator = exponent >= 0 ? a.digits * pow10(exponent) : a.digits;
+  const denominator = exponent >= 0 ? b.digits : b.digits * pow10(-exponent);
+
+  return formatDecimal(divideRounded(numerator, denominator, rounding), scale);
+}
+
+/**
+ * digits * 10^-scale as a decimal string with exactly `scale` decimals
+ */
+function formatDecimal(digits: bigint, scale: number): string {
+  const negative = digits < BigInt(0);
+  const padded = (negative ? -digits : digits).toString().padStart(scale + 1, '0');
+  const whole = padded.slice(0, padded.length - scale);
+  const fraction = padded.slice(padded.length - scale);
+
+  return `${negative ? '-' : ''}${whole}${scale > 0 ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Read a decimal (including exponent notation) as digits * 10^-scale
+ */
+function parseDecimal(value: string): { digits: bigint; scale: number } {
+  const match = value.trim().match(/^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i);
+
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal value "${value}"`);
+  }
+
+  const [, sign, whole = '', fraction = '', exponent = '0'] = match;
+  let digits = BigInt(`${whole}${fraction}` || '0');
+  let scale = fraction.length - parseInt(exponent, 10);
+
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+
+  return { digits: sign === '-' ? -digits : digits, scale };
+}
+
+function rescale(digits: bigint, scale: number, targetScale: number, rounding: RoundingMode): bigint {
+  if (scale <= targetScale) {
+    return digits * pow10(targetScale - scale);
+  }
+  return divideRounded(digits, pow10(scale - targetScale), rounding);
+}
+
+function toCommonScale(weights: (number | string | Money)[]): bigint[] {
+  const parsed = weights.map(weight => weight instanceof Money
+    ? { digits: weight.minor, scale: 0 }
+    : parseDecimal(String(weight)));
+  const scale = Math.max(...parsed.map(p => p.scale));
+
+  return parsed.map(p => {
+    const digits = p.digits * pow10(scale - p.scale);
+    if (digits < BigInt(0)) {
+      throw new Error('Allocation weights must not be negative');
+    }
+    return digits;
+  });
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  if (denominator < BigInt(0)) {
+    return divideRounded(-numerator, -denominator, rounding);
+  }
+
+  const quotient = numerator / denominator; // Truncates toward zero
+  const remainder = numerator % denominator;
+
+  if (remainder === BigInt(0)) {
+    return quotient;
+  }
+
+  const sign = numerator < BigInt(0) ? BigInt(-1) : BigInt(1);
+  const twiceRemainder = (remainder < BigInt(0) ? -remainder : remainder) * BigInt(2);
+
+  switch (rounding) {
+    case 'DOWN':
+      return quotient;
+    case 'UP':
+      return quotient + sign;
+    case 'HALF_EVEN':
+      if (twiceRemainder === denominator) {
+        return quotient % BigInt(2) === BigInt(0) ? quotient : quotient + sign;
+      }
+      return twiceRemainder > denominator ? quotient + sign : quotient;
+    case 'HALF_UP':
+    default:
+      return twiceRemainder >= denominator ? quotient + sign : quotient;
+  }
+}
+
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
@@ -0,0 +1,104 @@
+/**
+ * Opaque Pricing - Customer and staff views of a price breakdown
+ *
+ * The customer view is built field by field from the internal breakdown
+ * rather than by deleting fields from it, so a field added to PriceComponent
+ * later can't leak by accident. Opaque itineraries merge all components into
+ * a single package price. Staff get the internal breakdown unchanged.
+ */
+
+import { Money } from '@/lib/money';
+import type {
+  CustomerPriceBreakdown,
+  CustomerPriceLine,
+  PackageComponentType,
+  PriceBreakdown,
+  PricingAudience,
+} from '@/types/package';
+
+/**
+ * Field names that only ever appear in internal (staff) pricing data
+ */
+export const INTERNAL_PRICE_FIELDS = [
+  'netPrice',
+  'marginAmount',
+  'taxAmount',
+  'originalNetPrice',
+  'originalCurrency',
+  'exchangeRate',
+  'priceLines',
+  'basePrice',
+  'margin',
+  'totalMargin',
+  'subtotal',
+  'components',
+  'appliedRules',
+  'componentPricing',
+] as const;
+
+/**
+ * Build what a customer may see of a breakdown
+ */
+export function toCustomerPriceBreakdown(breakdown: PriceBreakdown, opaqueMask: boolean): CustomerPriceBreakdown {
+  const currency = breakdown.currency;
+  const grandTotal = Money.of(breakdown.grandTotal, currency);
+
+  // Legacy breakdowns carry margin and tax as rows of their own, which only add up as a whole
+  const hasLegacyRows = breakdown.components.some(
+    component => component.componentType === 'MARGIN' || component.componentType === 'TAX'
+  );
+  const opaque = opaqueMask || hasLegacyRows;
+
+  const lines: CustomerPriceLine[] = opaque
+    ? [{ label: 'PACKAGE', totalPrice: grandTotal.toNumber() }]
+    : breakdown.components.map(component => ({
+        label: component.componentType as PackageComponentType,
+        totalPrice: Money.of(component.totalPrice, currency).toNumber(),
+      }));
+
+  const view: CustomerPriceBreakdown = {
+    opaque,
+    lines,
+    grandTotal: grandTotal.toNumber(),
+    currency,
+    taxIncluded: true,
+  };
+
+  assertNoInternalPricing(view);
+  return view;
+}
+
+/**
+ * The breakdown for an audience: full for staff, customer view otherwise
+ */
+export function viewPriceBreakdown(
+  breakdown: PriceBreakdown,
+  options: { opaqueMask: boolean; audience: PricingAudience }
+): CustomerPriceBreakdown | PriceBreakdown {
+  return options.audience === 'STAFF'
+    ? breakdown
+    : toCustomerPriceBreakdown(breakdown, options.opaqueMask);
+}
+
+/**
+ * Throw if any internal pricing field is present anywhere in a value
+ *
+ * Run on every customer-facing payload before it leaves the server.
+ */
+export function assertNoInternalPricing(value: unknown, path: string = 'response'): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => assertNoInternalPricing(item, `${path}[${index}]`));
+    return;
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if ((INTERNAL_PRICE_FIELDS as readonly string[]).includes(key)) {
+      throw new Error(`Internal pricing field "${path}.${key}" in a customer-facing payload`);
+    }
+    assertNoInternalPricing(child, `${path}.${key}`);
+  }
+}
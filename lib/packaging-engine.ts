@@ -6,79 +6,138 @@
  */
 
 import { PrismaClient } from '@prisma/client';
+import { buildMarginRuleContext, selectApplicableMarginRules } from '@/lib/margin-rule-evaluator';
+import { taxEngine, type ComponentTax } from '@/lib/tax-engine';
+import { currencyService } from '@/lib/currency-service';
+import { Money } from '@/lib/money';
+import { calculateComponentPrices } from '@/lib/component-pricing';
+import { countTravelers } from '@/lib/travelers';
+import { viewPriceBreakdown } from '@/lib/opaque-pricing';
 import type { 
+  Flight,
+  Room,
+  RoomRate,
+  Transfer,
+  TravelerComposition,
   PriceComponent, 
+  PackageComponentType,
   MarginRule, 
+  MarginCombinationMode,
+  MarginRuleContext,
+  AppliedMarginRule,
   PackageCalculation,
-  PriceBreakdown 
+  ItineraryPriceSimulation,
+  MarginSimulationResult,
+  MarginSimulationSummary,
+  PriceBreakdown,
+  CustomerPriceBreakdown,
+  PricingAudience
 } from '@/types/package';
+import type { TaxCategory, TaxMode, TaxRoundingStrategy } from '@/types/invoice';
+import type { ExchangeRateSnapshot } from '@/types/currency';
 
 const prisma = new PrismaClient();
 
+const COMPONENT_ORDER: PackageComponentType[] = ['FLIGHT', 'HOTEL', 'TRANSFER'];
+
+type ComponentAmounts = Partial<Record<PackageComponentType, Money>>;
+
+type PackagePriceOptions = {
+  destinationCountry?: string;
+  category?: string;
+  seasonType?: string;
+  applyOpaqueMask?: boolean;
+  currency?: string;
+  bookingDate?: Date; // Defaults to now; set when replaying past bookings
+  marginRules?: MarginRule[]; // Hypothetical rule set used instead of the database
+  taxMode?: TaxMode;
+  taxRounding?: TaxRoundingStrategy;
+};
+
+type ComponentExchangeRates = Partial<Record<PackageComponentType, {
+  originalNetPrice: Money;
+  exchangeRate: ExchangeRateSnapshot;
+}>>;
+
 export class PackagingEngine {
   /**
    * Calculate the final package price with applied margins and taxes
    * 
-   * @param flightPrice - Net price of the flight component
-   * @param hotelPrice - Net price of the hotel component
-   * @param transferPrice - Net price of the transfer component
-   * @param options - Additional options for calculation
+   * @param flightPrice - Net price of the flight component, all passengers
+   * @param hotelPrice - Net price of the hotel component, all rooms and nights
+   * @param transferPrice - Net price of the transfer component, all travelers
+   * @param options - Additional options for calculation. Component prices are
+   *   in `currency` unless `componentCurrencies` says otherwise, in which case
+   *   they are converted at the rate effective on the booking date.
    * @returns PackageCalculation with breakdown and total price
    */
   async calculatePackagePrice(
     flightPrice: number = 0,
     hotelPrice: number = 0,
     transferPrice: number = 0,
-    options: {
+    options: PackagePriceOptions & {
       checkInDate: Date;
-      category?: string;
-      seasonType?: string;
-      applyOpaqueMask?: boolean;
-      currency?: string;
+      checkOutDate?: Date;
+      travelers?: number;
+      componentCurrencies?: Partial<Record<PackageComponentType, string>>;
     }
   ): Promise<PackageCalculation> {
-    const { checkInDate, category, seasonType, applyOpaqueMask = true, currency = 'EUR' } = options;
-
-    // Calculate booking days in advance
-    const today = new Date();
-    const daysAdvance = Math.floor((checkInDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-
-    // Fetch active margin rules
-    const marginRules = await this.getApplicableMarginRules({
-      daysAdvance,
-      category,
-      seasonType,
-    });
-
-    // Calculate base price
-    const basePrice = flightPrice + hotelPrice + transferPrice;
+    const {
+      applyOpaqueMask = true,
+      currency = 'EUR',
+      taxMode = 'STANDARD',
+      taxRounding = 'PER_DOCUMENT',
+    } = options;
+    const taxDate = options.bookingDate || new Date();
+
+    // Fetch active margin rules whose conditions match this package
+    const context = buildMarginRuleContext(options);
+    const marginRules = options.marginRules
+      ? selectApplicableMarginRules(options.marginRules, context)
+      : await this.getApplicableMarginRules(context);
+
+    // Collect net prices of the components included in the package, in the sell currency
+    const { componentNets, exchangeRates } = await this.convertComponentNets(
+      this.collectComponentNets(
+        { flightPrice, hotelPrice, transferPrice },
+        options.componentCurrencies || {},
+        currency
+      ),
+      currency,
+      taxDate
+    );
 
     // Apply margins
-    const { totalMargin, appliedRules } = this.applyMarginRules(basePrice, marginRules);
-
-    // Calculate tax (20% VAT for Serbia)
-    const taxRate = 0.20;
-    const priceBeforeTax = basePrice + totalMargin;
-    const taxAmount = priceBeforeTax * taxRate;
-
-    // Calculate total price
-    const totalPrice = priceBeforeTax + taxAmount;
-
-    // Build price breakdown
+    const { componentMargins, appliedRules } = this.applyMarginRules(componentNets, marginRules, currency);
+
+    // Calculate VAT per component from the rates valid on the tax date
+    const componentTaxes = taxEngine.calculateComponentTaxes(
+      COMPONENT_ORDER
+        .filter(type => componentNets[type] !== undefined)
+        .map(type => ({
+          componentType: type,
+          netPrice: componentNets[type] || Money.zero(currency),
+          marginAmount: componentMargins[type] || Money.zero(currency),
+        })),
+      await taxEngine.getTaxRates(taxDate),
+      { date: taxDate, mode: taxMode, rounding: taxRounding }
+    );
+
+    // Build price breakdown with margin and tax on each component
     const breakdown = this.buildPriceBreakdown({
-      flightPrice,
-      hotelPrice,
-      transferPrice,
-      totalMargin,
-      taxAmount,
+      componentNets,
+      componentMargins,
+      componentTaxes,
+      exchangeRates,
       currency,
     });
 
     return {
-      basePrice,
-      margin: totalMargin,
-      tax: taxAmount,
-      totalPrice,
+      basePrice: breakdown.subtotal,
+      margin: breakdown.totalMargin,
+      tax: breakdown.totalTax,
+      taxMode,
+      totalPrice: breakdown.grandTotal,
       currency,
       breakdown,
       appliedRules,
@@ -86,37 +145,121 @@ export class PackagingEngine {
     };
   }
 
+  /**
+   * Price the actual flight, room and transfer selected for a stay
+   *
+   * Net prices are derived from supplier unit prices (see calculateComponentPrices)
+   * and each component keeps its own supplier currency until conversion.
+   */
+  async calculateItineraryPrice(
+    selection: {
+      flight?: Flight;
+      room?: Room;
+      transfer?: Transfer;
+      checkInDate: Date;
+      checkOutDate: Date;
+      travelers: TravelerComposition;
+      rooms?: number;
+    },
+    options: PackagePriceOptions = {}
+  ): Promise<PackageCalculation> {
+    // Rooms handed in without their calendar are priced from the stored rates
+    const room = selection.room && !selection.room.rates
+      ? {
+          ...selection.room,
+          rates: await this.loadRoomRates(selection.room.id, selection.checkInDate, selection.checkOutDate),
+        }
+      : selection.room;
+
+    const componentPricing = calculateComponentPrices({ ...selection, room });
+    const linesOf = (type: PackageComponentType) =>
+      componentPricing.lines.filter(line => line.componentType === type);
+    const netOf = (type: PackageComponentType) => {
+      const lines = linesOf(type);
+      return lines.length > 0
+        ? Money.sum(lines.map(line => Money.of(line.netPrice, line.currency)), lines[0].currency).toNumber()
+        : 0;
+    };
+
+    const componentCurrencies: Partial<Record<PackageComponentType, string>> = {};
+    componentPricing.lines.forEach(line => { componentCurrencies[line.componentType] = line.currency; });
+
+    const calculation = await this.calculatePackagePrice(
+      netOf('FLIGHT'),
+      netOf('HOTEL'),
+      netOf('TRANSFER'),
+      {
+        ...options,
+        checkInDate: selection.checkInDate,
+        checkOutDate: selection.checkOutDate,
+        travelers: countTravelers(selection.travelers),
+        componentCurrencies,
+      }
+    );
+
+    // Show how each component was priced (passenger types, room nights, extra beds)
+    const components = calculation.breakdown.components.map(component => {
+      const priceLines = linesOf(component.componentType as PackageComponentType);
+      return priceLines.length > 0 ? { ...component, priceLines } : component;
+    });
+
+    return {
+      ...calculation,
+      breakdown: { ...calculation.breakdown, components },
+      componentPricing,
+    };
+  }
+
+  /**
+   * Load the rates of a room that overlap a stay
+   */
+  private async loadRoomRates(roomId: string, checkInDate: Date, checkOutDate: Date): Promise<RoomRate[]> {
+    const rates = await prisma.roomRate.findMany({
+      where: {
+        roomId,
+        startDate: { lt: checkOutDate },
+        endDate: { gte: new Date(Date.UTC(
+          checkInDate.getUTCFullYear(),
+          checkInDate.getUTCMonth(),
+          checkInDate.getUTCDate()
+        )) },
+      },
+    });
+
+    return rates.map(rate => ({
+      id: rate.id,
+      roomId: rate.roomId,
+      name: rate.name || undefined,
+      startDate: rate.startDate,
+      endDate: rate.endDate,
+      pricePerNight: Number(rate.pricePerNight),
+      currency: rate.currency,
+      minStayNights: rate.minStayNights ?? undefined,
+      closedToArrival: rate.closedToArrival,
+      closedArrivalWeekdays: rate.closedArrivalWeekdays,
+      weekendSupplement: rate.weekendSupplement ? Number(rate.weekendSupplement) : undefined,
+      weekendDays: rate.weekendDays,
+      priority: rate.priority,
+    }));
+  }
+
   /**
    * Fetch applicable margin rules based on conditions
+   *
+   * The database only narrows candidates down to active rules; condition
+   * matching is done by the margin rule evaluator.
    */
-  private async getApplicableMarginRules(conditions: {
-    daysAdvance: number;
-    category?: string;
-    seasonType?: string;
-  }): Promise<MarginRule[]> {
-    const { daysAdvance, category, seasonType } = conditions;
+  private async getApplicableMarginRules(context: MarginRuleContext): Promise<MarginRule[]> {
+    return selectApplicableMarginRules(await this.loadActiveMarginRules(), context);
+  }
 
+  /**
+   * Load every active margin rule, highest priority first
+   */
+  private async loadActiveMarginRules(): Promise<MarginRule[]> {
     const rules = await prisma.marginRule.findMany({
       where: {
         isActive: true,
-        OR: [
-          // Rules that match booking days advance
-          {
-            bookingDaysAdvance: {
-              gte: daysAdvance,
-            },
-          },
-          // Rules that match category
-          category ? { packageCategory: category } : {},
-          // Rules that match season
-          seasonType ? { seasonType: seasonType } : {},
-          // Global rules (no conditions)
-          {
-            bookingDaysAdvance: null,
-            packageCategory: null,
-            seasonType: null,
-          },
-        ],
       },
       orderBy: {
         priority: 'desc',
@@ -127,137 +270,427 @@ export class PackagingEngine {
       id: rule.id,
       ruleName: rule.ruleName,
       description: rule.description || undefined,
-      bookingDaysAdvance: rule.bookingDaysAdvance || undefined,
+      bookingDaysAdvance: rule.bookingDaysAdvance ?? undefined,
+      minDaysAdvance: rule.minDaysAdvance ?? undefined,
+      maxDaysAdvance: rule.maxDaysAdvance ?? undefined,
+      minStayNights: rule.minStayNights ?? undefined,
+      maxStayNights: rule.maxStayNights ?? undefined,
+      minTravelers: rule.minTravelers ?? undefined,
+      maxTravelers: rule.maxTravelers ?? undefined,
+      destinationCountry: rule.destinationCountry || undefined,
+      departureWeekdays: rule.departureWeekdays,
       seasonType: rule.seasonType || undefined,
       packageCategory: rule.packageCategory || undefined,
+      componentType: (rule.componentType?.toUpperCase() as PackageComponentType) || undefined,
       marginPercent: Number(rule.marginPercent),
       marginFixed: Number(rule.marginFixed),
+      combinationMode: rule.combinationMode as MarginCombinationMode,
+      stopProcessing: rule.stopProcessing,
       isActive: rule.isActive,
       priority: rule.priority,
     }));
   }
 
+  /**
+   * Replay a hypothetical margin rule set against recent itineraries
+   *
+   * Nothing is persisted: each itinerary's stored net prices are re-priced
+   * as if it had been booked on its original creation date with the given
+   * rules, and compared with the price it was actually sold at.
+   *
+   * @param rules - Rules to simulate (not persisted)
+   * @param options - How many itineraries to replay and whether to keep the active rules
+   */
+  async simulateMarginRules(
+    rules: MarginRule[],
+    options: {
+      limit?: number;
+      includeActiveRules?: boolean;
+      currency?: string;
+    } = {}
+  ): Promise<MarginSimulationResult> {
+    const { limit = 100, includeActiveRules = true, currency = 'EUR' } = options;
+
+    // Simulated rules replace active rules with the same id
+    const simulatedIds = new Set(rules.map(rule => rule.id));
+    const ruleSet = includeActiveRules
+      ? [...(await this.loadActiveMarginRules()).filter(rule => !simulatedIds.has(rule.id)), ...rules]
+      : rules;
+
+    const itineraries = await prisma.itinerary.findMany({
+      where: { currency },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: {
+        priceComponents: { where: { supersededAt: null } },
+        hotel: true,
+      },
+    });
+
+    const results: ItineraryPriceSimulation[] = [];
+
+    for (const itinerary of itineraries) {
+      const netOf = (type: PackageComponentType) => Money.sum(
+        itinerary.priceComponents
+          .filter(c => c.componentType === type)
+          .map(c => Money.of(c.netPrice, currency)),
+        currency
+      ).toNumber();
+
+      const simulated = await this.calculatePackagePrice(
+        netOf('FLIGHT'),
+        netOf('HOTEL'),
+        netOf('TRANSFER'),
+        {
+          checkInDate: itinerary.checkInDate,
+          checkOutDate: itinerary.checkOutDate,
+          travelers: itinerary.travelers,
+          destinationCountry: itinerary.hotel?.country,
+          applyOpaqueMask: itinerary.opaqueMask,
+          currency,
+          bookingDate: itinerary.createdAt,
+          marginRules: ruleSet,
+        }
+      );
+
+      // Even shares that add back up to the total; the first takes any leftover cent
+      const travelerShares = new Array<number>(Math.max(itinerary.travelers, 1)).fill(1);
+      const currentTotal = Money.of(itinerary.totalPrice, currency);
+      const currentMargin = Money.sum(
+        itinerary.priceComponents.map(c => Money.of(c.marginAmount, currency)),
+        currency
+      );
+      const simulatedTotal = Money.of(simulated.totalPrice, currency);
+      const totalPriceDelta = simulatedTotal.subtract(currentTotal);
+
+      results.push({
+        itineraryId: itinerary.id,
+        bookingReference: itinerary.bookingReference || undefined,
+        status: itinerary.status,
+        travelers: itinerary.travelers,
+        current: {
+          totalPrice: currentTotal.toNumber(),
+          margin: currentMargin.toNumber(),
+          pricePerTraveler: currentTotal.allocate(travelerShares)[0].toNumber(),
+        },
+        simulated: {
+          totalPrice: simulated.totalPrice,
+          margin: simulated.margin,
+          pricePerTraveler: simulatedTotal.allocate(travelerShares)[0].toNumber(),
+        },
+        totalPriceDelta: totalPriceDelta.toNumber(),
+        marginDelta: Money.of(simulated.margin, currency).subtract(currentMargin).toNumber(),
+        percentChange: currentTotal.isPositive()
+          ? (totalPriceDelta.toNumber() / currentTotal.toNumber()) * 100
+          : 0,
+        appliedRules: simulated.appliedRules.map(rule => rule.ruleName),
+      });
+    }
+
+    return {
+      itineraries: results,
+      summary: this.summarizeSimulation(results, currency),
+    };
+  }
+
+  /**
+   * Aggregate per-itinerary simulation results
+   */
+  private summarizeSimulation(
+    results: ItineraryPriceSimulation[],
+    currency: string
+  ): MarginSimulationSummary {
+    const sum = (pick: (r: ItineraryPriceSimulation) => number) =>
+      Money.sum(results.map(r => Money.of(pick(r), currency)), currency);
+
+    const currentRevenue = sum(r => r.current.totalPrice);
+    const simulatedRevenue = sum(r => r.simulated.totalPrice);
+    const currentMargin = sum(r => r.current.margin);
+    const simulatedMargin = sum(r => r.simulated.margin);
+    const totalPercentChange = results.reduce((total, r) => total + r.percentChange, 0);
+
+    return {
+      itineraryCount: results.length,
+      currency,
+      currentRevenue: currentRevenue.toNumber(),
+      simulatedRevenue: simulatedRevenue.toNumber(),
+      revenueDelta: simulatedRevenue.subtract(currentRevenue).toNumber(),
+      currentMargin: currentMargin.toNumber(),
+      simulatedMargin: simulatedMargin.toNumber(),
+      marginDelta: simulatedMargin.subtract(currentMargin).toNumber(),
+      averagePercentChange: results.length > 0 ? totalPercentChange / results.length : 0,
+      increased: results.filter(r => r.totalPriceDelta > 0).length,
+      decreased: results.filter(r => r.totalPriceDelta < 0).length,
+      unchanged: results.filter(r => r.totalPriceDelta === 0).length,
+    };
+  }
+
   /**
    * Apply margin rules to calculate total margin
+   *
+   * Rules are evaluated in priority order (highest first). Each rule combines
+   * with the margin accumulated so far according to its combinationMode, and
+   * a rule with stopProcessing set ends the evaluation once applied.
+   *
+   * Package-wide rules are compared against (and allocated across) every
+   * component proportionally to its net price, while component-scoped rules
+   * only ever touch the margin of their own component.
    */
   private applyMarginRules(
-    basePrice: number,
-    rules: MarginRule[]
-  ): { totalMargin: number; appliedRules: MarginRule[] } {
+    componentNets: ComponentAmounts,
+    rules: MarginRule[],
+    currency: string
+  ): { totalMargin: Money; componentMargins: ComponentAmounts; appliedRules: AppliedMarginRule[] } {
+    const zero = Money.zero(currency);
+
     if (rules.length === 0) {
       // Default margin: 10% if no rules
+      const totalMargin = this.sumAmounts(componentNets, currency).percent(10);
       return {
-        totalMargin: basePrice * 0.10,
+        totalMargin,
+        componentMargins: this.allocateProportionally(totalMargin, componentNets),
         appliedRules: [],
       };
     }
 
-    // Apply the highest priority rule
-    const topRule = rules[0];
-    
-    let marginAmount = 0;
-    
+    const componentMargins: ComponentAmounts = {};
+    const touchedComponents = new Set<PackageComponentType>();
+    let appliedRules: AppliedMarginRule[] = [];
+
+    for (const rule of rules) {
+      // Component-scoped rule for a component that isn't part of this package
+      if (rule.componentType && componentNets[rule.componentType] === undefined) {
+        continue;
+      }
+
+      const scope = rule.componentType
+        ? [rule.componentType]
+        : COMPONENT_ORDER.filter(type => componentNets[type] !== undefined);
+      const ruleMargins = this.calculateRuleMargins(componentNets, rule, currency);
+      const ruleTotal = this.sumAmounts(ruleMargins, currency);
+      const currentTotal = Money.sum(scope.map(type => componentMargins[type] || zero), currency);
+      const hasApplied = scope.some(type => touchedComponents.has(type));
+
+      let contribution: Money;
+
+      switch (rule.combinationMode) {
+        case 'OVERRIDE':
+          // Discard everything accumulated by higher priority rules within the scope
+          scope.forEach(type => { componentMargins[type] = ruleMargins[type] || zero; });
+          if (rule.componentType) {
+            contribution = ruleTotal.subtract(currentTotal);
+          } else {
+            appliedRules = [];
+            contribution = ruleTotal;
+          }
+          break;
+
+        case 'MAX':
+        case 'MIN': {
+          // With nothing accumulated yet the rule simply applies as-is
+          const wins = !hasApplied || (rule.combinationMode === 'MAX'
+            ? ruleTotal.compare(currentTotal) > 0
+            : ruleTotal.compare(currentTotal) < 0);
+
+          if (!wins) {
+            contribution = zero;
+            break;
+          }
+
+          scope.forEach(type => { componentMargins[type] = ruleMargins[type] || zero; });
+          contribution = ruleTotal.subtract(currentTotal);
+          break;
+        }
+
+        case 'STACK':
+        default:
+          scope.forEach(type => {
+            componentMargins[type] = (componentMargins[type] || zero).add(ruleMargins[type] || zero);
+          });
+          contribution = ruleTotal;
+          break;
+      }
+
+      if (!contribution.isZero() || !hasApplied || rule.combinationMode === 'OVERRIDE') {
+        appliedRules.push({ ...rule, marginAmount: contribution.toNumber() });
+      }
+      scope.forEach(type => touchedComponents.add(type));
+
+      if (rule.stopProcessing) {
+        break;
+      }
+    }
+
+    return {
+      totalMargin: this.sumAmounts(componentMargins, currency),
+      componentMargins,
+      appliedRules,
+    };
+  }
+
+  /**
+   * Calculate the per-component margin a single rule produces on its own
+   */
+  private calculateRuleMargins(
+    componentNets: ComponentAmounts,
+    rule: MarginRule,
+    currency: string
+  ): ComponentAmounts {
+    const basePrice = rule.componentType
+      ? componentNets[rule.componentType] || Money.zero(currency)
+      : this.sumAmounts(componentNets, currency);
+
+    let marginAmount = Money.zero(currency);
+
     // Calculate percentage margin
-    if (topRule.marginPercent > 0) {
-      marginAmount += basePrice * (Number(topRule.marginPercent) / 100);
+    if (rule.marginPercent > 0) {
+      marginAmount = marginAmount.add(basePrice.percent(rule.marginPercent));
     }
-    
+
     // Add fixed margin
-    if (topRule.marginFixed > 0) {
-      marginAmount += Number(topRule.marginFixed);
+    if (rule.marginFixed > 0) {
+      marginAmount = marginAmount.add(Money.of(rule.marginFixed, currency));
     }
 
-    return {
-      totalMargin: marginAmount,
-      appliedRules: [topRule],
+    if (rule.componentType) {
+      return { [rule.componentType]: marginAmount };
+    }
+
+    return this.allocateProportionally(marginAmount, componentNets);
+  }
+
+  /**
+   * Split an amount across components proportionally to their net prices,
+   * assigning leftover cents deterministically so the parts always sum to the amount
+   */
+  private allocateProportionally(amount: Money, weights: ComponentAmounts): ComponentAmounts {
+    const types = COMPONENT_ORDER.filter(type => weights[type] !== undefined);
+    const allocation: ComponentAmounts = {};
+
+    amount
+      .allocate(types.map(type => (weights[type] as Money).abs()))
+      .forEach((share, index) => { allocation[types[index]] = share; });
+
+    return allocation;
+  }
+
+  /**
+   * Map the raw component prices to the components included in the package
+   */
+  private collectComponentNets(
+    prices: {
+      flightPrice: number;
+      hotelPrice: number;
+      transferPrice: number;
+    },
+    componentCurrencies: Partial<Record<PackageComponentType, string>>,
+    currency: string
+  ): ComponentAmounts {
+    const componentNets: ComponentAmounts = {};
+    const net = (type: PackageComponentType, price: number) => {
+      if (price > 0) componentNets[type] = Money.of(price, componentCurrencies[type] || currency);
     };
+
+    net('FLIGHT', prices.flightPrice);
+    net('HOTEL', prices.hotelPrice);
+    net('TRANSFER', prices.transferPrice);
+
+    return componentNets;
+  }
+
+  /**
+   * Convert supplier prices into the sell currency, keeping the rate used for each component
+   */
+  private async convertComponentNets(
+    originalNets: ComponentAmounts,
+    currency: string,
+    date: Date
+  ): Promise<{ componentNets: ComponentAmounts; exchangeRates: ComponentExchangeRates }> {
+    const componentNets: ComponentAmounts = {};
+    const exchangeRates: ComponentExchangeRates = {};
+
+    for (const type of COMPONENT_ORDER) {
+      const originalNet = originalNets[type];
+      if (originalNet === undefined) continue;
+
+      const { amount, exchangeRate } = await currencyService.convert(originalNet, currency, date);
+
+      componentNets[type] = amount;
+      exchangeRates[type] = { originalNetPrice: originalNet, exchangeRate };
+    }
+
+    return { componentNets, exchangeRates };
+  }
+
+  private sumAmounts(amounts: ComponentAmounts, currency: string): Money {
+    return Money.sum(
+      COMPONENT_ORDER.map(type => amounts[type] || Money.zero(currency)),
+      currency
+    );
   }
 
   /**
    * Build detailed price breakdown
+   *
+   * Margin and VAT are carried on each component row, so every row's
+   * totalPrice is the true sell price of that component.
    */
   private buildPriceBreakdown(params: {
-    flightPrice: number;
-    hotelPrice: number;
-    transferPrice: number;
-    totalMargin: number;
-    taxAmount: number;
+    componentNets: ComponentAmounts;
+    componentMargins: ComponentAmounts;
+    componentTaxes: ComponentTax[];
+    exchangeRates: ComponentExchangeRates;
     currency: string;
   }): PriceBreakdown {
-    const { flightPrice, hotelPrice, transferPrice, totalMargin, taxAmount, currency } = params;
-
-    const components: PriceComponent[] = [];
-
-    // Flight component
-    if (flightPrice > 0) {
-      components.push({
-        id: 'flight',
-        componentType: 'FLIGHT',
-        netPrice: flightPrice,
-        marginAmount: 0,
-        taxAmount: 0,
-        totalPrice: flightPrice,
-        currency,
+    const { componentNets, componentMargins, componentTaxes, exchangeRates, currency } = params;
+
+    const components: PriceComponent[] = COMPONENT_ORDER
+      .filter(type => componentNets[type] !== undefined)
+      .map(type => {
+        const netPrice = componentNets[type] || Money.zero(currency);
+        const marginAmount = componentMargins[type] || Money.zero(currency);
+        const tax = componentTaxes.find(t => t.componentType === type);
+        const taxAmount = tax?.taxAmount || Money.zero(currency);
+
+        return {
+          id: type.toLowerCase(),
+          componentType: type,
+          netPrice: netPrice.toNumber(),
+          marginAmount: marginAmount.toNumber(),
+          taxAmount: taxAmount.toNumber(),
+          totalPrice: netPrice.add(marginAmount).add(taxAmount).toNumber(),
+          currency,
+          taxCategory: tax?.taxCategory,
+          taxRate: tax?.ratePercent,
+          originalNetPrice: exchangeRates[type]?.originalNetPrice.toNumber(),
+          originalCurrency: exchangeRates[type]?.exchangeRate.fromCurrency,
+          exchangeRate: exchangeRates[type]?.exchangeRate,
+        };
       });
-    }
-
-    // Hotel component
-    if (hotelPrice > 0) {
-      components.push({
-        id: 'hotel',
-        componentType: 'HOTEL',
-        netPrice: hotelPrice,
-        marginAmount: 0,
-        taxAmount: 0,
-        totalPrice: hotelPrice,
-        currency,
-      });
-    }
 
-    // Transfer component
-    if (transferPrice > 0) {
-      components.push({
-        id: 'transfer',
-        componentType: 'TRANSFER',
-        netPrice: transferPrice,
-        marginAmount: 0,
-        taxAmount: 0,
-        totalPrice: transferPrice,
-        currency,
-      });
-    }
-
-    // Margin component
-    components.push({
-      id: 'margin',
-      componentType: 'MARGIN',
-      netPrice: 0,
-      marginAmount: totalMargin,
-      taxAmount: 0,
-      totalPrice: totalMargin,
-      currency,
-    });
+    return this.summarizeBreakdown(components, currency);
+  }
 
-    // Tax component
-    components.push({
-      id: 'tax',
-      componentType: 'TAX',
-      netPrice: 0,
-      marginAmount: 0,
-      taxAmount: taxAmount,
-      totalPrice: taxAmount,
-      currency,
-    });
+  /**
+   * Sum component rows into breakdown totals
+   *
+   * Older itineraries stored margin and tax as separate MARGIN/TAX rows with
+   * zero net price, so summing every row works for both layouts.
+   */
+  private summarizeBreakdown(components: PriceComponent[], currency: string): PriceBreakdown {
+    const total = (pick: (c: PriceComponent) => number) =>
+      Money.sum(components.map(c => Money.of(pick(c), currency)), currency);
 
-    const subtotal = flightPrice + hotelPrice + transferPrice;
-    const grandTotal = subtotal + totalMargin + taxAmount;
+    const subtotal = total(c => c.netPrice);
+    const totalMargin = total(c => c.marginAmount);
+    const totalTax = total(c => c.taxAmount);
 
     return {
       components,
-      subtotal,
-      totalMargin,
-      totalTax: taxAmount,
-      grandTotal,
+      subtotal: subtotal.toNumber(),
+      totalMargin: totalMargin.toNumber(),
+      totalTax: totalTax.toNumber(),
+      grandTotal: subtotal.add(totalMargin).add(totalTax).toNumber(),
       currency,
     };
   }
@@ -270,34 +703,54 @@ export class PackagingEngine {
     calculation: PackageCalculation
   ): Promise<void> {
     const { breakdown } = calculation;
+    const { priceVersion } = await prisma.itinerary.findUniqueOrThrow({
+      where: { id: itineraryId },
+      select: { priceVersion: true },
+    });
 
-    // Delete existing components
+    // Replace the current version; versions superseded by amendments stay
     await prisma.priceComponent.deleteMany({
-      where: { itineraryId },
+      where: { itineraryId, version: priceVersion },
     });
 
     // Create new components
-    for (const component of breakdown.components) {
+    for (const data of this.toPriceComponentRecords(breakdown)) {
       await prisma.priceComponent.create({
-        data: {
-          itineraryId,
-          componentType: component.componentType,
-          netPrice: component.netPrice,
-          marginAmount: component.marginAmount,
-          taxAmount: component.taxAmount,
-          totalPrice: component.totalPrice,
-          currency: component.currency,
-        },
+        data: { ...data, itineraryId, version: priceVersion },
       });
     }
   }
 
+  /**
+   * Map a breakdown to PriceComponent rows (without the itinerary)
+   */
+  toPriceComponentRecords(breakdown: PriceBreakdown) {
+    return breakdown.components.map(component => ({
+      componentType: component.componentType,
+      netPrice: component.netPrice,
+      marginAmount: component.marginAmount,
+      taxAmount: component.taxAmount,
+      totalPrice: component.totalPrice,
+      currency: component.currency,
+      taxCategory: component.taxCategory,
+      taxRatePercent: component.taxRate,
+      originalNetPrice: component.originalNetPrice,
+      originalCurrency: component.originalCurrency,
+      exchangeRate: component.exchangeRate?.rate,
+      // Snapshots restored from JSON (quotes) carry the date as a string
+      exchangeRateDate: component.exchangeRate ? new Date(component.exchangeRate.rateDate) : undefined,
+      exchangeRateSource: component.exchangeRate?.source,
+    }));
+  }
+
   /**
    * Get price breakdown for an existing itinerary
+   *
+   * @param version - An earlier PriceComponent version (current one if omitted)
    */
-  async getItineraryPriceBreakdown(itineraryId: string): Promise<PriceBreakdown | null> {
+  async getItineraryPriceBreakdown(itineraryId: string, version?: number): Promise<PriceBreakdown | null> {
     const components = await prisma.priceComponent.findMany({
-      where: { itineraryId },
+      where: version === undefined ? { itineraryId, supersededAt: null } : { itineraryId, version },
     });
 
     if (components.length === 0) {
@@ -312,28 +765,49 @@ export class PackagingEngine {
       taxAmount: Number(c.taxAmount),
       totalPrice: Number(c.totalPrice),
       currency: c.currency,
+      taxCategory: (c.taxCategory as TaxCategory) || undefined,
+      taxRate: c.taxRatePercent !== null ? Number(c.taxRatePercent) : undefined,
+      originalNetPrice: c.originalNetPrice !== null ? Number(c.originalNetPrice) : undefined,
+      originalCurrency: c.originalCurrency || undefined,
+      exchangeRate: c.originalCurrency && c.exchangeRate !== null && c.exchangeRateDate
+        ? {
+          fromCurrency: c.originalCurrency,
+          toCurrency: c.currency,
+          rate: Number(c.exchangeRate),
+          rateDate: c.exchangeRateDate,
+          source: c.exchangeRateSource || 'UNKNOWN',
+        }
+        : undefined,
     }));
 
-    const subtotal = typedComponents
-      .filter(c => ['FLIGHT', 'HOTEL', 'TRANSFER'].includes(c.componentType))
-      .reduce((sum, c) => sum + c.netPrice, 0);
+    return this.summarizeBreakdown(typedComponents, components[0].currency);
+  }
 
-    const totalMargin = typedComponents
-      .find(c => c.componentType === 'MARGIN')?.marginAmount || 0;
+  /**
+   * Get the itinerary's breakdown as the given audience may see it
+   *
+   * Customers get the opaque-aware customer view; only staff see net prices
+   * and margins.
+   */
+  async getItineraryPriceView(
+    itineraryId: string,
+    audience: PricingAudience = 'CUSTOMER'
+  ): Promise<CustomerPriceBreakdown | PriceBreakdown | null> {
+    const itinerary = await prisma.itinerary.findUnique({
+      where: { id: itineraryId },
+      select: { opaqueMask: true },
+    });
 
-    const totalTax = typedComponents
-      .find(c => c.componentType === 'TAX')?.taxAmount || 0;
+    if (!itinerary) {
+      return null;
+    }
 
-    const grandTotal = subtotal + totalMargin + totalTax;
+    const breakdown = await this.getItineraryPriceBreakdown(itineraryId);
+    if (!breakdown) {
+      return null;
+    }
 
-    return {
-      components: typedComponents,
-      subtotal,
-      totalMargin,
-      totalTax,
-      grandTotal,
-      currency: components[0].currency,
-    };
+    return viewPriceBreakdown(breakdown, { opaqueMask: itinerary.opaqueMask, audience });
   }
 }
 
@@ -0,0 +1,237 @@
+/**
+ * Payment Slip - Model 97 references and NBS IPS QR codes
+ *
+ * Invoices paid by bank transfer carry a poziv na broj in model 97: the
+ * reference with two ISO 7064 MOD 97-10 control digits in front, so a bank
+ * refuses a mistyped one. The same check guards Serbian account numbers
+ * (3-digit bank code, 13-digit account, 2 control digits).
+ *
+ * The IPS QR code is the NBS "PR" payload printed on invoices and payment
+ * slips: customers scan it in their banking app to get the transfer filled
+ * in and pay it instantly through IPS. IPS only moves dinars.
+ *
+ * Everything here is pure and works offline; the codes are drawn by the
+ * qrcode package, as SVG for emails and PNG for PDFs.
+ */
+
+import { toBuffer, toString as toSvgString } from 'qrcode';
+import { Money } from '@/lib/money';
+import type { CISPaymentData, IpsPaymentOrder } from '@/types/invoice';
+
+export const CIS_MODEL = '97';
+export const IPS_CURRENCY = 'RSD';
+
+// Šifra plaćanja for goods and services: intermediate (businesses) and final consumption
+export const PAYMENT_CODES = {
+  BUSINESS: '220',
+  CONSUMER: '221',
+};
+
+const IPS_KIND = 'PR';
+const IPS_VERSION = '01';
+const IPS_CHARACTER_SET = '1'; // UTF-8
+
+const MAX_NAME_LENGTH = 70;
+const MAX_NAME_LINES = 3;
+const MAX_PURPOSE_LENGTH = 35;
+const MAX_CALL_NUMBER_LENGTH = 22; // As on the NBS payment order, dashes included
+
+const ACCOUNT_FORMAT = /^(\d{3})-?(\d{1,13})-?(\d{2})$/;
+
+export type PaymentSlipErrorCode = 'INVALID_ACCOUNT' | 'INVALID_REFERENCE' | 'INVALID_ORDER';
+
+export class PaymentSlipError extends Error {
+  constructor(
+    readonly code: PaymentSlipErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentSlipError';
+  }
+}
+
+/**
+ * The two model 97 control digits for a reference of digits and dashes
+ */
+export function model97ControlDigits(reference: string): string {
+  if (!/^[\d-]+$/.test(reference) || !/\d/.test(reference)) {
+    throw new PaymentSlipError('INVALID_REFERENCE', `Reference "${reference}" may only contain digits and dashes`);
+  }
+
+  return String(98 - mod97(`${reference.replace(/-/g, '')}00`)).padStart(2, '0');
+}
+
+/**
+ * Poziv na broj in model 97: control digits, then the reference
+ */
+export function toModel97CallNumber(reference: string): string {
+  const callNumber = `${model97ControlDigits(reference)}${reference}`;
+
+  if (callNumber.length > MAX_CALL_NUMBER_LENGTH) {
+    throw new PaymentSlipError('INVALID_REFERENCE', `Poziv na broj ${callNumber} is longer than ${MAX_CALL_NUMBER_LENGTH} characters`);
+  }
+
+  return callNumber;
+}
+
+export function isValidModel97(callNumber: string): boolean {
+  const digits = callNumber.replace(/-/g, '');
+
+  if (!/^[\d-]+$/.test(callNumber) || digits.length < 3 || callNumber.length > MAX_CALL_NUMBER_LENGTH) {
+    return false;
+  }
+
+  return mod97(`${digits.slice(2)}${digits.slice(0, 2)}`) === 1;
+}
+
+/**
+ * A document number as a model 97 reference: letters become their
+ * ISO 7064 values (A=10 ... Z=35) so series stay apart, separators go
+ */
+export function toDocumentReference(documentNumber: string): string {
+  return documentNumber
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+}
+
+/**
+ * Account number as its 18 digits, the account part padded with zeros;
+ * null when it isn't shaped like a Serbian account
+ */
+export function normalizeBankAccount(account: string): string | null {
+  const match = account.replace(/\s/g, '').match(ACCOUNT_FORMAT);
+  return match ? `${match[1]}${match[2].padStart(13, '0')}${match[3]}` : null;
+}
+
+/**
+ * Account number in the usual 160-0000000123456-78 form
+ */
+export function formatBankAccount(account: string): string {
+  const digits = normalizeBankAccount(account);
+  if (!digits) {
+    throw new PaymentSlipError('INVALID_ACCOUNT', `${account} is not a Serbian account number`);
+  }
+
+  return `${digits.slice(0, 3)}-${digits.slice(3, 16)}-${digits.slice(16)}`;
+}
+
+export function isValidBankAccount(account: string): boolean {
+  const digits = normalizeBankAccount(account);
+  return digits !== null && mod97(digits) === 1;
+}
+
+/**
+ * CIS payment data for a document paid to the agency account
+ */
+export function buildCisPaymentData(documentNumber: string, recipientAccount: string, paymentPurpose: string): CISPaymentData {
+  if (!isValidBankAccount(recipientAccount)) {
+    throw new PaymentSlipError('INVALID_ACCOUNT', `Account ${recipientAccount} fails its control digits`);
+  }
+
+  return {
+    cisReference: documentNumber,
+    cisModel: CIS_MODEL,
+    cisCallNumber: toModel97CallNumber(toDocumentReference(documentNumber)),
+    paymentPurpose: paymentPurpose.slice(0, MAX_PURPOSE_LENGTH),
+    recipientAccount: normalizeBankAccount(recipientAccount) as string,
+  };
+}
+
+/**
+ * Model and poziv na broj as SEF reads them from PaymentID
+ */
+export function formatPaymentId(payment: Pick<CISPaymentData, 'cisModel' | 'cisCallNumber'>): string {
+  return `(mod${payment.cisModel}) ${payment.cisCallNumber}`;
+}
+
+/**
+ * NBS IPS QR "PR" payload, e.g.
+ * K:PR|V:01|C:1|R:845000000040484987|N:...|I:RSD3596,13|SF:189|S:...|RO:97...
+ *
+ * @throws PaymentSlipError when the order can't be paid through IPS
+ */
+export function buildIpsQrPayload(order: IpsPaymentOrder): string {
+  const account = normalizeBankAccount(order.payeeAccount);
+  if (!account || !isValidBankAccount(account)) {
+    throw new PaymentSlipError('INVALID_ACCOUNT', `Payee account ${order.payeeAccount} fails its control digits`);
+  }
+
+  const amount = Money.of(order.amount, IPS_CURRENCY);
+  if (!amount.isPositive()) {
+    throw new PaymentSlipError('INVALID_ORDER', 'IPS only pays positive amounts');
+  }
+  if (!/^[12]\d{2}$/.test(order.paymentCode)) {
+    throw new PaymentSlipError('INVALID_ORDER', `Payment code ${order.paymentCode} is not a 3-digit šifra plaćanja starting with 1 or 2`);
+  }
+  if (order.purpose.length > MAX_PURPOSE_LENGTH) {
+    throw new PaymentSlipError('INVALID_ORDER', `Payment purpose is longer than ${MAX_PURPOSE_LENGTH} characters`);
+  }
+
+  const model = order.model || CIS_MODEL;
+  if (order.callNumber !== undefined && model === CIS_MODEL && !isValidModel97(order.callNumber)) {
+    throw new PaymentSlipError('INVALID_REFERENCE', `Poziv na broj ${order.callNumber} fails its model 97 control digits`);
+  }
+
+  const fields: [string, string | undefined][] = [
+    ['K', IPS_KIND],
+    ['V', IPS_VERSION],
+    ['C', IPS_CHARACTER_SET],
+    ['R', account],
+    ['N', toIpsName(order.payeeName, 'Payee')],
+    ['I', `${IPS_CURRENCY}${amount.toString().replace('.', ',')}`],
+    ['P', order.payerName ? toIpsName(order.payerName, 'Payer') : undefined],
+    ['SF', order.paymentCode],
+    ['S', order.purpose || undefined],
+    ['RO', order.callNumber ? `${model}${order.callNumber.replace(/-/g, '')}` : undefined],
+  ];
+
+  return fields
+    .filter((field): field is [string, string] => field[1] !== undefined)
+    .map(([tag, value]) => {
+      if (value.includes('|')) {
+        throw new PaymentSlipError('INVALID_ORDER', `IPS field ${tag} can't contain "|"`);
+      }
+      return `${tag}:${value}`;
+    })
+    .join('|');
+}
+
+/**
+ * The IPS QR code as an SVG document
+ */
+export function renderIpsQrSvg(payload: string): Promise<string> {
+  return toSvgString(payload, { type: 'svg', errorCorrectionLevel: 'M', margin: 4 });
+}
+
+/**
+ * The IPS QR code as a PNG image, `width` pixels wide
+ */
+export function renderIpsQrPng(payload: string, width: number = 300): Promise<Buffer> {
+  return toBuffer(payload, { type: 'png', errorCorrectionLevel: 'M', margin: 4, width });
+}
+
+/**
+ * Name and address lines joined by CR LF, as IPS expects them
+ */
+function toIpsName(name: string, party: string): string {
+  const lines = name.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const joined = lines.join('\r\n');
+
+  if (lines.length === 0 || lines.length > MAX_NAME_LINES || joined.length > MAX_NAME_LENGTH) {
+    throw new PaymentSlipError('INVALID_ORDER', `${party} needs a name of 1 to ${MAX_NAME_LINES} lines and at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  return joined;
+}
+
+/**
+ * Remainder of a decimal string of any length modulo 97
+ */
+function mod97(digits: string): number {
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+}
@@ -0,0 +1,326 @@
+/**
+ * Quote Service - Locked package prices
+ *
+ * A quote snapshots what was priced (component ids, dates, party), the
+ * applied margin rules and the full breakdown, and holds that price until
+ * validUntil. An expired quote is re-priced from the current inventory into a
+ * new quote, and any difference is reported as a price change.
+ */
+
+import { PrismaClient, type Prisma, type Quote as QuoteRecord } from '@prisma/client';
+import { packagingEngine } from '@/lib/packaging-engine';
+import { Money } from '@/lib/money';
+import { toCustomerPriceBreakdown } from '@/lib/opaque-pricing';
+import type { AvailabilityCheckResponse, QuoteResponse } from '@/types/api';
+import type { TaxMode } from '@/types/invoice';
+import type {
+  AppliedMarginRule,
+  Flight,
+  PriceBreakdown,
+  Quote,
+  QuoteOptions,
+  QuoteSelection,
+  QuoteStatus,
+  Room,
+  Transfer,
+} from '@/types/package';
+
+const prisma = new PrismaClient();
+
+export const QUOTE_VALIDITY_MINUTES = 30;
+
+export type PriceChange = NonNullable<AvailabilityCheckResponse['priceChanges']>;
+
+/**
+ * Thrown when an expired quote re-prices differently, so the customer can
+ * confirm the new price (held by `quoteId`) before booking
+ */
+export class QuotePriceChangedError extends Error {
+  constructor(
+    readonly quoteId: string,
+    readonly priceChanges: PriceChange
+  ) {
+    super(`Quote expired and the price changed from ${priceChanges.oldPrice} to ${priceChanges.newPrice} ${priceChanges.currency}`);
+    this.name = 'QuotePriceChangedError';
+  }
+}
+
+export class QuoteService {
+  /**
+   * Price a selection and lock the price
+   *
+   * The quote expires after QUOTE_VALIDITY_MINUTES, or earlier when the
+   * flight fare expires first.
+   */
+  async createQuote(
+    selection: QuoteSelection,
+    options: Partial<QuoteOptions> = {},
+    repricedFromId?: string
+  ): Promise<Quote> {
+    if (!(selection.checkOutDate > selection.checkInDate)) {
+      throw new Error('Check-out must be after check-in');
+    }
+
+    const { flight, hotel, room, transfer } = await this.loadSelection(selection);
+
+    const quoteOptions: QuoteOptions = {
+      currency: options.currency || 'EUR',
+      taxMode: options.taxMode || 'STANDARD',
+      opaqueMask: options.opaqueMask ?? (await this.requiresOpaquePricing(selection)),
+      category: options.category,
+      seasonType: options.seasonType,
+      destinationCountry: options.destinationCountry || hotel?.country,
+    };
+
+    const calculation = await packagingEngine.calculateItineraryPrice(
+      {
+        flight,
+        room,
+        transfer,
+        checkInDate: selection.checkInDate,
+        checkOutDate: selection.checkOutDate,
+        travelers: selection.travelers,
+        rooms: selection.rooms,
+      },
+      {
+        currency: quoteOptions.currency,
+        taxMode: quoteOptions.taxMode,
+        applyOpaqueMask: quoteOptions.opaqueMask,
+        category: quoteOptions.category,
+        seasonType: quoteOptions.seasonType,
+        destinationCountry: quoteOptions.destinationCountry,
+      }
+    );
+
+    const now = new Date();
+    let validUntil = new Date(now.getTime() + QUOTE_VALIDITY_MINUTES * 60 * 1000);
+    if (flight?.validUntil && flight.validUntil < validUntil) {
+      validUntil = flight.validUntil;
+    }
+
+    const quote = await prisma.quote.create({
+      data: {
+        selection: toJson(selection),
+        options: toJson(quoteOptions),
+        appliedRules: toJson(calculation.appliedRules),
+        breakdown: toJson(calculation.breakdown),
+        totalPrice: calculation.totalPrice,
+        currency: calculation.currency,
+        validUntil,
+        repricedFromId,
+      },
+    });
+
+    return this.toQuote(quote);
+  }
+
+  /**
+   * Get a quote by ID
+   */
+  async getQuote(quoteId: string): Promise<Quote | null> {
+    const quote = await prisma.quote.findUnique({
+      where: { id: quoteId },
+    });
+
+    return quote ? this.toQuote(quote) : null;
+  }
+
+  /**
+   * Get a quote that can be booked now
+   *
+   * A valid quote is returned as-is. An expired one is marked EXPIRED and
+   * re-priced into a new quote; `priceChanges` is set when the total moved.
+   */
+  async resolveQuote(quoteId: string): Promise<{ quote: Quote; priceChanges?: PriceChange }> {
+    const quote = await this.getQuote(quoteId);
+
+    if (!quote) {
+      throw new Error(`Quote ${quoteId} not found`);
+    }
+
+    if (quote.status === 'BOOKED') {
+      throw new Error(`Quote ${quoteId} has already been booked`);
+    }
+
+    if (quote.status === 'ACTIVE' && quote.validUntil > new Date()) {
+      return { quote };
+    }
+
+    await prisma.quote.updateMany({
+      where: { id: quote.id, status: 'ACTIVE' },
+      data: { status: 'EXPIRED' },
+    });
+
+    const repriced = await this.createQuote(quote.selection, quote.options, quote.id);
+    const oldPrice = Money.of(quote.totalPrice, quote.currency);
+    const newPrice = Money.of(repriced.totalPrice, repriced.currency);
+
+    if (oldPrice.equals(newPrice)) {
+      return { quote: repriced };
+    }
+
+    return {
+      quote: repriced,
+      priceChanges: {
+        oldPrice: oldPrice.toNumber(),
+        newPrice: newPrice.toNumber(),
+        currency: repriced.currency,
+      },
+    };
+  }
+
+  /**
+   * Whether a selection sells at one package price: its blueprint or hotel,
+   * or the supplier of any of its components, asks for opaque pricing
+   */
+  async requiresOpaquePricing(selection: QuoteSelection): Promise<boolean> {
+    const opaqueSupplier = { supplier: { opaquePricing: true } };
+    const hotelWhere = selection.hotelId
+      ? { id: selection.hotelId }
+      : selection.roomId && { rooms: { some: { id: selection.roomId } } };
+
+    const counts = await Promise.all([
+      selection.packageBlueprintId
+        ? prisma.packageBlueprint.count({ where: { id: selection.packageBlueprintId, opaquePricing: true } })
+        : 0,
+      hotelWhere
+        ? prisma.hotel.count({ where: { ...hotelWhere, OR: [{ opaquePricing: true }, opaqueSupplier] } })
+        : 0,
+      selection.flightId ? prisma.flight.count({ where: { id: selection.flightId, ...opaqueSupplier } }) : 0,
+      selection.transferId ? prisma.transfer.count({ where: { id: selection.transferId, ...opaqueSupplier } }) : 0,
+    ]);
+
+    return counts.some(count => count > 0);
+  }
+
+  /**
+   * Load the priced components from the inventory
+   */
+  async loadSelection(selection: QuoteSelection): Promise<{
+    flight?: Flight;
+    hotel?: { country: string };
+    room?: Room;
+    transfer?: Transfer;
+  }> {
+    const [flight, hotel, room, transfer] = await Promise.all([
+      selection.flightId ? prisma.flight.findUnique({ where: { id: selection.flightId } }) : null,
+      selection.hotelId ? prisma.hotel.findUnique({ where: { id: selection.hotelId } }) : null,
+      selection.roomId ? prisma.room.findUnique({ where: { id: selection.roomId } }) : null,
+      selection.transferId ? prisma.transfer.findUnique({ where: { id: selection.transferId } }) : null,
+    ]);
+
+    const missing = [
+      selection.flightId && !flight && `flight ${selection.flightId}`,
+      selection.hotelId && !hotel && `hotel ${selection.hotelId}`,
+      selection.roomId && !room && `room ${selection.roomId}`,
+      selection.transferId && !transfer && `transfer ${selection.transferId}`,
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      throw new Error(`Cannot quote unknown ${missing.join(', ')}`);
+    }
+
+    return {
+      flight: flight ? {
+        id: flight.id,
+        flightNumber: flight.flightNumber,
+        carrier: flight.carrier,
+        departureTime: flight.departureTime,
+        arrivalTime: flight.arrivalTime,
+        origin: flight.origin,
+        destination: flight.destination,
+        cabinClass: flight.cabinClass,
+        availableSeats: flight.availableSeats,
+        netPrice: Number(flight.netPrice),
+        childDiscountPercent: Number(flight.childDiscountPercent),
+        validUntil: flight.validUntil,
+        currency: flight.currency,
+      } : undefined,
+      hotel: hotel || undefined,
+      room: room ? {
+        id: room.id,
+        hotelId: room.hotelId,
+        roomType: room.roomType,
+        bedCount: room.bedCount,
+        maxOccupancy: room.maxOccupancy,
+        amenities: room.amenities,
+        pricePerNight: Number(room.pricePerNight),
+        maxExtraBeds: room.maxExtraBeds,
+        extraBedPrice: room.extraBedPrice !== null ? Number(room.extraBedPrice) : undefined,
+        currency: room.currency,
+        available: room.available,
+      } : undefined,
+      transfer: transfer ? {
+        id: transfer.id,
+        transferType: transfer.transferType.toUpperCase() as Transfer['transferType'],
+        vehicleType: transfer.vehicleType,
+        origin: transfer.origin,
+        destination: transfer.destination,
+        capacity: transfer.capacity,
+        pricePerPerson: Number(transfer.pricePerPerson),
+        pricePerVehicle: transfer.pricePerVehicle !== null ? Number(transfer.pricePerVehicle) : undefined,
+        childDiscountPercent: Number(transfer.childDiscountPercent),
+        currency: transfer.currency,
+        available: transfer.available,
+      } : undefined,
+    };
+  }
+
+  /**
+   * Map a stored quote, restoring the dates JSON turned into strings
+   */
+  private toQuote(quote: QuoteRecord): Quote {
+    const storedSelection = quote.selection as unknown as QuoteSelection;
+    const options = quote.options as unknown as QuoteOptions;
+    const breakdown = quote.breakdown as unknown as PriceBreakdown;
+
+    return {
+      id: quote.id,
+      selection: {
+        ...storedSelection,
+        checkInDate: new Date(storedSelection.checkInDate),
+        checkOutDate: new Date(storedSelection.checkOutDate),
+      },
+      options,
+      calculation: {
+        basePrice: breakdown.subtotal,
+        margin: breakdown.totalMargin,
+        tax: breakdown.totalTax,
+        taxMode: options.taxMode as TaxMode,
+        totalPrice: Number(quote.totalPrice),
+        currency: quote.currency,
+        breakdown,
+        appliedRules: quote.appliedRules as unknown as AppliedMarginRule[],
+        opaqueMask: options.opaqueMask,
+      },
+      totalPrice: Number(quote.totalPrice),
+      currency: quote.currency,
+      validUntil: quote.validUntil,
+      status: quote.status as QuoteStatus,
+      repricedFromId: quote.repricedFromId || undefined,
+      itineraryId: quote.itineraryId || undefined,
+      createdAt: quote.createdAt,
+    };
+  }
+}
+
+/**
+ * What the customer sees of a quote
+ */
+export function toQuoteResponse(quote: Quote): QuoteResponse {
+  return {
+    quoteId: quote.id,
+    status: quote.status,
+    totalPrice: quote.totalPrice,
+    currency: quote.currency,
+    breakdown: toCustomerPriceBreakdown(quote.calculation.breakdown, quote.options.opaqueMask),
+    validUntil: quote.validUntil.toISOString(),
+  };
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+}
+
+// Export singleton instance
+export const quoteService = new QuoteService();
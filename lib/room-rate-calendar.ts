@@ -0,0 +1,108 @@
+/**
+ * Room Rate Calendar - Night-by-night room pricing
+ *
+ * Resolves the RoomRate covering every night of a stay, so a stay spanning
+ * shoulder and high season is charged each season's price for its own nights.
+ * Nights no rate covers fall back to Room.pricePerNight. Arrival restrictions
+ * (minimum stay, closed to arrival) are checked against the arrival night.
+ */
+
+import { Money } from '@/lib/money';
+import { calculateNights } from '@/lib/utils';
+import type { NightlyRate, Room, RoomRate } from '@/types/package';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Price every night of the stay, one room
+ *
+ * @throws Error when the arrival night is closed to arrival or the stay is
+ *   shorter than the minimum stay of the arrival night's rate
+ */
+export function calculateNightlyRates(room: Room, checkInDate: Date, checkOutDate: Date): NightlyRate[] {
+  const nights = stayNights(checkInDate, checkOutDate);
+  const arrival = toNightDate(checkInDate);
+  const rates = room.rates || [];
+
+  const arrivalRate = findRoomRate(rates, arrival);
+  if (arrivalRate) {
+    assertArrivalAllowed(arrivalRate, arrival, nights.length);
+  }
+
+  return nights.map(date => {
+    const rate = findRoomRate(rates, date);
+
+    if (!rate) {
+      return {
+        date,
+        pricePerNight: room.pricePerNight,
+        weekendSupplement: 0,
+        total: room.pricePerNight,
+      };
+    }
+
+    if (rate.currency !== room.currency) {
+      throw new Error(`Rate ${rate.name || rate.id} is in ${rate.currency}, room ${room.id} is sold in ${room.currency}`);
+    }
+
+    const weekendSupplement = rate.weekendSupplement && rate.weekendDays.includes(date.getUTCDay())
+      ? rate.weekendSupplement
+      : 0;
+
+    return {
+      date,
+      pricePerNight: rate.pricePerNight,
+      weekendSupplement,
+      total: Money.of(rate.pricePerNight, room.currency).add(Money.of(weekendSupplement, room.currency)).toNumber(),
+      rateId: rate.id,
+      rateName: rate.name,
+    };
+  });
+}
+
+/**
+ * Every night of a stay as a UTC calendar date, arrival night first
+ */
+export function stayNights(checkInDate: Date, checkOutDate: Date): Date[] {
+  const arrival = toNightDate(checkInDate);
+  return Array.from(
+    { length: calculateNights(checkInDate, checkOutDate) },
+    (_, index) => new Date(arrival.getTime() + index * MS_PER_DAY)
+  );
+}
+
+/**
+ * Rate covering a night: highest priority first, then the shortest range,
+ * so a single-date rate beats the season it falls in
+ */
+export function findRoomRate(rates: RoomRate[], night: Date): RoomRate | undefined {
+  const time = toNightDate(night).getTime();
+
+  return rates
+    .filter(rate => toNightDate(rate.startDate).getTime() <= time && toNightDate(rate.endDate).getTime() >= time)
+    .sort((a, b) => b.priority - a.priority || rangeLength(a) - rangeLength(b))[0];
+}
+
+function assertArrivalAllowed(rate: RoomRate, arrival: Date, nights: number): void {
+  const label = rate.name || 'this rate';
+  const date = arrival.toISOString().slice(0, 10);
+
+  if (rate.closedToArrival || rate.closedArrivalWeekdays.includes(arrival.getUTCDay())) {
+    throw new Error(`Arrival on ${date} is closed for ${label}`);
+  }
+
+  if (rate.minStayNights && nights < rate.minStayNights) {
+    throw new Error(`${label} requires a minimum stay of ${rate.minStayNights} nights for arrival on ${date}, got ${nights}`);
+  }
+}
+
+function rangeLength(rate: RoomRate): number {
+  return rate.endDate.getTime() - rate.startDate.getTime();
+}
+
+/**
+ * Nights are calendar dates; rates are stored as UTC dates
+ */
+function toNightDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
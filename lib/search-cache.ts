@@ -0,0 +1,206 @@
+/**
+ * Search Cache - Supplier search results kept until their validUntil
+ *
+ * A search is stored twice: under its searchId, holding the results, and
+ * under a hash of its normalised parameters, pointing at the searchId, so
+ * the same search asked again (other casing, other order of amenities)
+ * reuses it without asking the suppliers.
+ *
+ * Invalidation doesn't delete anything. Every scope (FLIGHT, HOTEL) has a
+ * generation number that is part of the parameter key and recorded on each
+ * search; invalidating bumps it, which orphans the keys and makes searches
+ * of an older generation read as expired. Stale entries then simply run
+ * out their TTL. That needs nothing but get, set with a TTL and incr, so
+ * any Redis-compatible store can back the cache.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { SearchScope } from '@/types/api';
+import type { SupplierFailure } from '@/types/supplier';
+
+export const SEARCH_VALIDITY_MINUTES = 15;
+
+const KEY_PREFIX = 'search';
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Storage behind the cache; values are JSON strings
+ */
+export interface SearchCacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  incr(key: string): Promise<number>;
+}
+
+/**
+ * The subset of a Redis client (ioredis call style) the cache needs
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'EX', ttlSeconds: number): Promise<unknown>;
+  incr(key: string): Promise<number>;
+}
+
+export interface CachedSearch<T> {
+  searchId: string;
+  scope: SearchScope;
+  generation: number;
+  params: Record<string, unknown>; // Normalised search parameters, flat
+  results: T[]; // Unfiltered, in supplier order
+  failedSuppliers: SupplierFailure[];
+  currency: string;
+  createdAt: Date;
+  validUntil: Date;
+}
+
+/**
+ * Process-local store; entries vanish with the process
+ */
+export class MemorySearchCacheStore implements SearchCacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.sweep();
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async incr(key: string): Promise<number> {
+    const next = Number((await this.get(key)) || 0) + 1;
+    this.entries.set(key, { value: String(next), expiresAt: Infinity });
+    return next;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Store backed by Redis or anything speaking its protocol
+ */
+export class RedisSearchCacheStore implements SearchCacheStore {
+  constructor(private client: RedisLikeClient) {}
+
+  get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(key, value, 'EX', Math.max(Math.ceil(ttlSeconds), 1));
+  }
+
+  incr(key: string): Promise<number> {
+    return this.client.incr(key);
+  }
+}
+
+export class SearchCache {
+  constructor(private store: SearchCacheStore = new MemorySearchCacheStore()) {}
+
+  /**
+   * Swap the backend, e.g. for Redis in production
+   */
+  useStore(store: SearchCacheStore): void {
+    this.store = store;
+  }
+
+  /**
+   * A live search for the same parameters, or run `search` and cache its results
+   */
+  async getOrSearch<T>(
+    scope: SearchScope,
+    params: Record<string, unknown>,
+    search: () => Promise<{ results: T[]; failedSuppliers: SupplierFailure[]; currency: string }>
+  ): Promise<CachedSearch<T>> {
+    const generation = await this.getGeneration(scope);
+    const paramsKey = `${KEY_PREFIX}:${scope}:${generation}:${hashParams(params)}`;
+
+    const cachedId = await this.store.get(paramsKey);
+    const cached = cachedId ? await this.get<T>(cachedId) : null;
+    if (cached) {
+      return cached;
+    }
+
+    const { results, failedSuppliers, currency } = await search();
+    const createdAt = new Date();
+    const validUntil = new Date(createdAt.getTime() + SEARCH_VALIDITY_MINUTES * 60 * 1000);
+    const entry: CachedSearch<T> = {
+      searchId: randomUUID(),
+      scope,
+      generation,
+      params,
+      results,
+      failedSuppliers,
+      currency,
+      createdAt,
+      validUntil,
+    };
+
+    const ttlSeconds = SEARCH_VALIDITY_MINUTES * 60;
+    await this.store.set(`${KEY_PREFIX}:id:${entry.searchId}`, JSON.stringify(entry), ttlSeconds);
+
+    // Partial results are served by searchId but not reused for new searches
+    if (failedSuppliers.length === 0) {
+      await this.store.set(paramsKey, entry.searchId, ttlSeconds);
+    }
+
+    return entry;
+  }
+
+  /**
+   * A cached search by ID; null once it expired or was invalidated
+   */
+  async get<T>(searchId: string): Promise<CachedSearch<T> | null> {
+    const raw = await this.store.get(`${KEY_PREFIX}:id:${searchId}`);
+    if (!raw) {
+      return null;
+    }
+
+    // Revive the dates of the entry and of the flights and hotels in it
+    const entry = JSON.parse(raw, (_key, value) =>
+      typeof value === 'string' && ISO_DATE_TIME.test(value) ? new Date(value) : value
+    ) as CachedSearch<T>;
+    const live = entry.validUntil > new Date() && entry.generation === await this.getGeneration(entry.scope);
+
+    return live ? entry : null;
+  }
+
+  /**
+   * Drop every cached search of a scope (all scopes when omitted)
+   *
+   * Call it whenever inventory, prices or margin rules change.
+   */
+  async invalidate(scope?: SearchScope): Promise<void> {
+    const scopes: SearchScope[] = scope ? [scope] : ['FLIGHT', 'HOTEL'];
+    await Promise.all(scopes.map(each => this.store.incr(`${KEY_PREFIX}:${each}:generation`)));
+  }
+
+  private async getGeneration(scope: SearchScope): Promise<number> {
+    return Number((await this.store.get(`${KEY_PREFIX}:${scope}:generation`)) || 0);
+  }
+}
+
+function hashParams(params: Record<string, unknown>): string {
+  const canonical = JSON.stringify(Object.keys(params).sort().map(key => [key, params[key]]));
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+// Export singleton instance
+export const searchCache = new SearchCache();
@@ -0,0 +1,110 @@
+/**
+ * Search Merge - Deduplicating offers from several suppliers
+ *
+ * The same flight sold by several suppliers shares its flight number and
+ * departure time. The same hotel rarely has the same ID or even the same
+ * spelling, so hotels match when their names agree once normalised and
+ * they lie within HOTEL_MATCH_RADIUS_METERS of each other. Of every group
+ * of duplicates, the offer with the lowest net price is kept.
+ */
+
+import type { Flight } from '@/types/package';
+import type { SupplierHotel } from '@/types/supplier';
+
+export const HOTEL_MATCH_RADIUS_METERS = 250;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+// Words suppliers add to or drop from hotel names
+const HOTEL_NAME_NOISE = new Set(['hotel', 'resort', 'and', 'the', 'spa', '&']);
+
+/**
+ * Net price of an offer in the comparison currency (Infinity when it can't be compared)
+ */
+export type OfferPrice<T> = (offer: T) => number;
+
+/**
+ * Key under which suppliers' copies of one flight meet
+ */
+export function flightKey(flight: Flight): string {
+  const flightNumber = flight.flightNumber.replace(/\s+/g, '').toUpperCase();
+  return `${flightNumber}|${flight.departureTime.toISOString().slice(0, 16)}`;
+}
+
+/**
+ * One flight per flight number and departure, the cheapest of its suppliers
+ */
+export function mergeFlights(flights: Flight[], price: OfferPrice<Flight>): Flight[] {
+  const cheapest = new Map<string, Flight>();
+
+  for (const flight of flights) {
+    const key = flightKey(flight);
+    const current = cheapest.get(key);
+
+    if (!current || price(flight) < price(current)) {
+      cheapest.set(key, flight);
+    }
+  }
+
+  return Array.from(cheapest.values());
+}
+
+/**
+ * Hotel name with case, accents, punctuation and filler words removed
+ */
+export function normalizeHotelName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9&]+/)
+    .filter(word => word && !HOTEL_NAME_NOISE.has(word))
+    .join(' ');
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export function distanceMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Whether two suppliers' hotels are the same property
+ */
+export function isSameHotel(a: SupplierHotel, b: SupplierHotel): boolean {
+  const nameA = normalizeHotelName(a.name);
+  const nameB = normalizeHotelName(b.name);
+  const namesMatch = nameA === nameB || (nameA.length > 0 && nameB.length > 0 && (nameA.includes(nameB) || nameB.includes(nameA)));
+
+  return namesMatch && distanceMeters(a, b) <= HOTEL_MATCH_RADIUS_METERS;
+}
+
+/**
+ * One hotel per property, as sold by the supplier with the cheapest room
+ */
+export function mergeHotels(hotels: SupplierHotel[], price: OfferPrice<SupplierHotel>): SupplierHotel[] {
+  const merged: SupplierHotel[] = [];
+
+  for (const hotel of hotels) {
+    const index = merged.findIndex(candidate => isSameHotel(candidate, hotel));
+
+    if (index === -1) {
+      merged.push(hotel);
+    } else if (price(hotel) < price(merged[index])) {
+      merged[index] = hotel;
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,142 @@
+/**
+ * Search Orchestrator - Searching every active supplier at once
+ *
+ * A search is sent to all active suppliers in parallel and each supplier
+ * gets SUPPLIER_SEARCH_TIMEOUT_MS to answer. Suppliers that fail, time out
+ * or have no adapter are reported in failedSuppliers and the rest is
+ * returned as a partial result. Duplicate offers are merged down to the
+ * cheapest net offer (see lib/search-merge.ts), comparing prices in one
+ * currency.
+ */
+
+import { currencyService } from '@/lib/currency-service';
+import { mergeFlights, mergeHotels } from '@/lib/search-merge';
+import { SupplierError } from '@/lib/supplier-adapter';
+import { supplierRegistry } from '@/lib/supplier-registry';
+import type { Flight, FlightSearchParams, HotelSearchParams } from '@/types/package';
+import type { SupplierAdapter, SupplierConfig, SupplierFailure, SupplierHotel } from '@/types/supplier';
+
+export const SUPPLIER_SEARCH_TIMEOUT_MS = Number(process.env.SUPPLIER_SEARCH_TIMEOUT_MS) || 8000;
+
+export interface SupplierSearchResult<T> {
+  offers: T[];
+  failedSuppliers: SupplierFailure[];
+}
+
+class SupplierTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No answer within ${timeoutMs} ms`);
+    this.name = 'SupplierTimeoutError';
+  }
+}
+
+export class SearchOrchestrator {
+  constructor(private timeoutMs: number = SUPPLIER_SEARCH_TIMEOUT_MS) {}
+
+  /**
+   * Flights from every active supplier, one per flight number and departure
+   *
+   * @param currency - Currency the cheapest offer is decided in
+   */
+  async searchFlights(params: FlightSearchParams, currency: string = 'EUR'): Promise<SupplierSearchResult<Flight>> {
+    const { offers, failedSuppliers } = await this.fanOut(adapter => adapter.searchFlights(params));
+    const rates = await this.getRates(offers.map(flight => flight.currency), currency);
+
+    return {
+      offers: mergeFlights(offers, flight => comparablePrice(flight.netPrice, flight.currency, rates)),
+      failedSuppliers,
+    };
+  }
+
+  /**
+   * Hotels from every active supplier, one per property
+   *
+   * @param currency - Currency the cheapest offer is decided in
+   */
+  async searchHotels(params: HotelSearchParams, currency: string = 'EUR'): Promise<SupplierSearchResult<SupplierHotel>> {
+    const { offers, failedSuppliers } = await this.fanOut(adapter => adapter.searchHotels(params));
+    const rooms = offers.flatMap(hotel => hotel.availableRooms);
+    const rates = await this.getRates(rooms.map(room => room.currency), currency);
+
+    // A hotel offer is as cheap as its cheapest room
+    const hotelPrice = (hotel: SupplierHotel) =>
+      Math.min(...hotel.availableRooms.map(room => comparablePrice(room.pricePerNight, room.currency, rates)));
+
+    return {
+      offers: mergeHotels(offers, hotelPrice),
+      failedSuppliers,
+    };
+  }
+
+  /**
+   * Run a search against every active supplier, collecting failures instead of throwing
+   */
+  private async fanOut<T>(search: (adapter: SupplierAdapter) => Promise<T[]>): Promise<SupplierSearchResult<T>> {
+    const suppliers = await supplierRegistry.getActiveSuppliers();
+
+    const results = await Promise.all(
+      suppliers.map(async supplier => {
+        try {
+          const adapter = supplierRegistry.getAdapter(supplier);
+          return { offers: await this.withTimeout(search(adapter)) };
+        } catch (error) {
+          return { failure: toFailure(supplier, error) };
+        }
+      })
+    );
+
+    return {
+      offers: results.flatMap(result => result.offers || []),
+      failedSuppliers: results.flatMap(result => (result.failure ? [result.failure] : [])),
+    };
+  }
+
+  private withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new SupplierTimeoutError(this.timeoutMs)), this.timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Rates into the comparison currency; currencies without a rate are left out
+   */
+  private async getRates(currencies: string[], to: string): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+
+    await Promise.all(
+      Array.from(new Set(currencies)).map(async from => {
+        try {
+          rates.set(from, (await currencyService.getRate(from, to)).rate);
+        } catch {
+          // Offers in this currency can't be compared and lose to any that can
+        }
+      })
+    );
+
+    return rates;
+  }
+}
+
+function comparablePrice(amount: number, currency: string, rates: Map<string, number>): number {
+  const rate = rates.get(currency);
+  return rate === undefined ? Infinity : amount * rate;
+}
+
+function toFailure(supplier: SupplierConfig, error: unknown): SupplierFailure {
+  const message = error instanceof Error ? error.message : String(error);
+
+  return {
+    supplierId: supplier.id,
+    supplierName: supplier.name,
+    code: error instanceof SupplierTimeoutError
+      ? 'TIMEOUT'
+      : error instanceof SupplierError ? error.code : 'UNREACHABLE',
+    message,
+  };
+}
+
+// Export singleton instance
+export const searchOrchestrator = new SearchOrchestrator();
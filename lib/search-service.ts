@@ -0,0 +1,170 @@
+/**
+ * Search Service - Cached, paginated flight and hotel search
+ *
+ * Searches go to the suppliers once per set of normalised parameters while
+ * the result is valid (see lib/search-cache.ts). Everything that only
+ * narrows a result (direct flights, stars, amenities, price) is applied on
+ * read, so paging and filtering by searchId never asks the suppliers again.
+ */
+
+import { searchCache, type CachedSearch } from '@/lib/search-cache';
+import { searchOrchestrator } from '@/lib/search-orchestrator';
+import type {
+  FlightSearchPageRequest,
+  FlightSearchRequest,
+  FlightSearchResponse,
+  HotelSearchPageRequest,
+  HotelSearchRequest,
+  HotelSearchResponse,
+  SearchPagination,
+} from '@/types/api';
+import type { Flight } from '@/types/package';
+import type { SupplierHotel } from '@/types/supplier';
+
+export const SEARCH_CURRENCY = 'EUR';
+
+const DEFAULT_PER_PAGE = 20;
+const MAX_PER_PAGE = 100;
+
+export class SearchService {
+  /**
+   * Flights for a request, from the cache while it's valid
+   */
+  async searchFlights(request: FlightSearchRequest): Promise<FlightSearchResponse> {
+    const params = {
+      origin: request.origin.trim().toUpperCase(),
+      destination: request.destination.trim().toUpperCase(),
+      departureDate: toDateKey(request.departureDate),
+      returnDate: request.returnDate ? toDateKey(request.returnDate) : null,
+      passengers: request.passengers || 1,
+      cabinClass: request.cabinClass || 'ECONOMY',
+    };
+
+    const search = await searchCache.getOrSearch<Flight>('FLIGHT', params, async () => {
+      const { offers, failedSuppliers } = await searchOrchestrator.searchFlights(
+        {
+          ...params,
+          departureDate: new Date(params.departureDate),
+          returnDate: params.returnDate ? new Date(params.returnDate) : undefined,
+        },
+        SEARCH_CURRENCY
+      );
+      return { results: offers, failedSuppliers, currency: SEARCH_CURRENCY };
+    });
+
+    return toFlightResponse(search, request);
+  }
+
+  /**
+   * Another page or filter of a cached flight search; null once it expired
+   */
+  async getFlightResults(request: FlightSearchPageRequest): Promise<FlightSearchResponse | null> {
+    const search = await searchCache.get<Flight>(request.searchId);
+    return search?.scope === 'FLIGHT' ? toFlightResponse(search, request) : null;
+  }
+
+  /**
+   * Hotels for a request, from the cache while it's valid
+   */
+  async searchHotels(request: HotelSearchRequest): Promise<HotelSearchResponse> {
+    const params = {
+      city: request.city.trim().toLowerCase(),
+      checkInDate: toDateKey(request.checkInDate),
+      checkOutDate: toDateKey(request.checkOutDate),
+      guests: request.guests || 1,
+      rooms: request.rooms || 1,
+    };
+
+    const search = await searchCache.getOrSearch<SupplierHotel>('HOTEL', params, async () => {
+      const { offers, failedSuppliers } = await searchOrchestrator.searchHotels(
+        {
+          ...params,
+          checkInDate: new Date(params.checkInDate),
+          checkOutDate: new Date(params.checkOutDate),
+        },
+        SEARCH_CURRENCY
+      );
+      return { results: offers, failedSuppliers, currency: SEARCH_CURRENCY };
+    });
+
+    return toHotelResponse(search, request);
+  }
+
+  /**
+   * Another page or filter of a cached hotel search; null once it expired
+   */
+  async getHotelResults(request: HotelSearchPageRequest): Promise<HotelSearchResponse | null> {
+    const search = await searchCache.get<SupplierHotel>(request.searchId);
+    return search?.scope === 'HOTEL' ? toHotelResponse(search, request) : null;
+  }
+}
+
+function toFlightResponse(
+  search: CachedSearch<Flight>,
+  request: Pick<FlightSearchPageRequest, 'directOnly' | 'page' | 'perPage'>
+): FlightSearchResponse {
+  const flights = search.results.filter(flight => !request.directOnly || !flight.stops);
+  const { items, pagination } = paginate(flights, request.page, request.perPage);
+
+  return {
+    flights: items,
+    searchId: search.searchId,
+    validUntil: search.validUntil.toISOString(),
+    currency: search.currency,
+    failedSuppliers: search.failedSuppliers,
+    pagination,
+  };
+}
+
+function toHotelResponse(
+  search: CachedSearch<SupplierHotel>,
+  request: Omit<HotelSearchPageRequest, 'searchId'>
+): HotelSearchResponse {
+  const { stars, amenities, maxPrice } = request;
+
+  const hotels = search.results
+    .filter(hotel =>
+      (!stars?.length || stars.includes(hotel.stars)) &&
+      (amenities || []).every(amenity => hotel.amenities.includes(amenity))
+    )
+    .map(hotel => ({
+      ...hotel,
+      availableRooms: hotel.availableRooms.filter(room => maxPrice === undefined || room.pricePerNight <= maxPrice),
+    }))
+    .filter(hotel => hotel.availableRooms.length > 0);
+  const { items, pagination } = paginate(hotels, request.page, request.perPage);
+
+  return {
+    hotels: items,
+    searchId: search.searchId,
+    validUntil: search.validUntil.toISOString(),
+    currency: search.currency,
+    failedSuppliers: search.failedSuppliers,
+    pagination,
+  };
+}
+
+function paginate<T>(all: T[], page: number = 1, perPage: number = DEFAULT_PER_PAGE): { items: T[]; pagination: SearchPagination } {
+  const size = Number.isFinite(perPage) ? Math.min(Math.max(Math.floor(perPage), 1), MAX_PER_PAGE) : DEFAULT_PER_PAGE;
+  const totalPages = Math.max(Math.ceil(all.length / size), 1);
+  const current = Number.isFinite(page) ? Math.min(Math.max(Math.floor(page), 1), totalPages) : 1;
+
+  return {
+    items: all.slice((current - 1) * size, current * size),
+    pagination: {
+      total: all.length,
+      page: current,
+      perPage: size,
+      totalPages,
+      hasNext: current < totalPages,
+      hasPrevious: current > 1,
+    },
+  };
+}
+
+function toDateKey(date: string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+// Export singleton instance
+export const searchService = new SearchService();
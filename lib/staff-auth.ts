@@ -0,0 +1,22 @@
+/**
+ * Staff Auth - Recognise requests from internal staff tools
+ *
+ * Staff tools send the shared STAFF_API_KEY in the X-Staff-Key header. Without
+ * a configured key no request is treated as staff.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+export function isStaffRequest(request: Request): boolean {
+  const staffKey = process.env.STAFF_API_KEY;
+  const sentKey = request.headers.get('X-Staff-Key');
+
+  if (!staffKey || !sentKey) {
+    return false;
+  }
+
+  // Compared in constant time; only a wrong length returns early
+  const expected = Buffer.from(staffKey);
+  const sent = Buffer.from(sentKey);
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
@@ -0,0 +1,32 @@
+/**
+ * Supplier Adapter - Shared pieces of the supplier integrations
+ *
+ * Every supplier integration implements SupplierAdapter (types/supplier.ts)
+ * and reports failures as a SupplierError, so callers can tell a sold-out
+ * item from a supplier that can't be reached without knowing which
+ * supplier they talked to.
+ */
+
+import type { Supplier as SupplierRecord } from '@prisma/client';
+import type { SupplierConfig, SupplierErrorCode, SupplierType } from '@/types/supplier';
+
+export class SupplierError extends Error {
+  constructor(
+    readonly code: SupplierErrorCode,
+    readonly supplierId: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SupplierError';
+  }
+}
+
+export function toSupplierConfig(supplier: SupplierRecord): SupplierConfig {
+  return {
+    id: supplier.id,
+    name: supplier.name,
+    type: supplier.type as SupplierType,
+    apiUrl: supplier.apiUrl || undefined,
+    apiKey: supplier.apiKey || undefined,
+  };
+}
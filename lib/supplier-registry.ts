@@ -0,0 +1,101 @@
+/**
+ * Supplier Registry - Finding the adapter that talks to a supplier
+ *
+ * Adapters are registered per Supplier.type and created once per supplier,
+ * so adapters that keep state (sessions, the local contract's bookings)
+ * keep it between calls. A supplier whose type has no adapter yet is
+ * refused with a NOT_SUPPORTED SupplierError.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { LocalContractAdapter } from '@/lib/local-contract-adapter';
+import { SupplierError, toSupplierConfig } from '@/lib/supplier-adapter';
+import type { SupplierAdapter, SupplierConfig, SupplierType } from '@/types/supplier';
+
+const prisma = new PrismaClient();
+
+export type SupplierAdapterFactory = (supplier: SupplierConfig) => SupplierAdapter;
+
+export class SupplierRegistry {
+  private factories = new Map<SupplierType, SupplierAdapterFactory>();
+  private adapters = new Map<string, SupplierAdapter>();
+
+  /**
+   * Register the adapter for a supplier type, replacing any earlier one
+   */
+  register(type: SupplierType, factory: SupplierAdapterFactory): void {
+    this.factories.set(type, factory);
+
+    for (const [supplierId, adapter] of this.adapters) {
+      if (adapter.supplier.type === type) {
+        this.adapters.delete(supplierId);
+      }
+    }
+  }
+
+  isSupported(type: SupplierType): boolean {
+    return this.factories.has(type);
+  }
+
+  /**
+   * The adapter for a supplier, created on first use
+   *
+   * A supplier whose URL or key changed gets a fresh adapter.
+   *
+   * @throws SupplierError NOT_SUPPORTED when no adapter handles the supplier type
+   */
+  getAdapter(supplier: SupplierConfig): SupplierAdapter {
+    const existing = this.adapters.get(supplier.id);
+    if (existing && sameConfig(existing.supplier, supplier)) {
+      return existing;
+    }
+
+    const factory = this.factories.get(supplier.type);
+    if (!factory) {
+      throw new SupplierError('NOT_SUPPORTED', supplier.id, `No adapter for ${supplier.type} supplier ${supplier.name}`);
+    }
+
+    const adapter = factory(supplier);
+    this.adapters.set(supplier.id, adapter);
+    return adapter;
+  }
+
+  /**
+   * Suppliers that are switched on, whether or not they have an adapter
+   */
+  async getActiveSuppliers(): Promise<SupplierConfig[]> {
+    const suppliers = await prisma.supplier.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return suppliers.map(toSupplierConfig);
+  }
+
+  /**
+   * The adapter for a stored supplier
+   *
+   * @throws SupplierError NOT_FOUND for an unknown supplier, NOT_SUPPORTED for an unsupported type
+   */
+  async getAdapterById(supplierId: string): Promise<SupplierAdapter> {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: supplierId },
+    });
+
+    if (!supplier) {
+      throw new SupplierError('NOT_FOUND', supplierId, `Supplier ${supplierId} not found`);
+    }
+
+    return this.getAdapter(toSupplierConfig(supplier));
+  }
+}
+
+function sameConfig(a: SupplierConfig, b: SupplierConfig): boolean {
+  return a.type === b.type && a.apiUrl === b.apiUrl && a.apiKey === b.apiKey;
+}
+
+// Export singleton instance
+export const supplierRegistry = new SupplierRegistry();
+
+// GDS (Amadeus) and Hotel_Aggregator (Hotelbeds) adapters register here once integrated
+supplierRegistry.register('Local', supplier => new LocalContractAdapter(supplier));
@@ -0,0 +1,207 @@
+/**
+ * Tax Engine - VAT (PDV) Calculation for Package Components
+ *
+ * Resolves the tax rate of every package component from date-effective
+ * TaxRate records and calculates VAT either on the full sell price
+ * (standard mode) or on the agency margin only (margin scheme for tour
+ * operators). Rate resolution and calculation are pure; only loading the
+ * configured rates touches the database.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { Money } from '@/lib/money';
+import type { PackageComponentType } from '@/types/package';
+import type { TaxCategory, TaxMode, TaxRate, TaxRoundingStrategy } from '@/types/invoice';
+
+const prisma = new PrismaClient();
+
+/**
+ * Fallback used when no TaxRate is configured: standard 20% VAT on everything
+ */
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  {
+    id: 'default-standard',
+    name: 'Standard PDV',
+    taxCategory: 'S',
+    ratePercent: 20,
+    validFrom: new Date('2014-01-01T00:00:00Z'),
+  },
+];
+
+export interface ComponentTaxInput {
+  componentType: PackageComponentType;
+  netPrice: Money;
+  marginAmount: Money;
+}
+
+export interface ComponentTax {
+  componentType: PackageComponentType;
+  taxCategory: TaxCategory;
+  ratePercent: number;
+  taxableAmount: Money;
+  taxAmount: Money;
+  exemptionReason?: string;
+}
+
+export interface TaxableLine {
+  taxCategory: TaxCategory;
+  ratePercent: number;
+  taxableAmount: Money;
+}
+
+export class TaxEngine {
+  /**
+   * Load the tax rates valid on the given date
+   */
+  async getTaxRates(date: Date = new Date()): Promise<TaxRate[]> {
+    const rates = await prisma.taxRate.findMany({
+      where: {
+        validFrom: { lte: date },
+        OR: [
+          { validTo: null },
+          { validTo: { gte: date } },
+        ],
+      },
+      orderBy: {
+        validFrom: 'desc',
+      },
+    });
+
+    if (rates.length === 0) {
+      return DEFAULT_TAX_RATES;
+    }
+
+    return rates.map(rate => ({
+      id: rate.id,
+      name: rate.name,
+      componentType: (rate.componentType?.toUpperCase() as PackageComponentType) || undefined,
+      taxCategory: rate.taxCategory as TaxCategory,
+      ratePercent: Number(rate.ratePercent),
+      exemptionReason: rate.exemptionReason || undefined,
+      exemptionReasonCode: rate.exemptionReasonCode || undefined,
+      validFrom: rate.validFrom,
+      validTo: rate.validTo || undefined,
+    }));
+  }
+
+  /**
+   * Calculate VAT for each component
+   *
+   * @param components - Net price and margin of every component
+   * @param rates - Candidate tax rates (see getTaxRates)
+   * @param options - Tax date, mode and rounding strategy
+   */
+  calculateComponentTaxes(
+    components: ComponentTaxInput[],
+    rates: TaxRate[],
+    options: { date: Date; mode: TaxMode; rounding?: TaxRoundingStrategy }
+  ): ComponentTax[] {
+    const { date, mode, rounding = 'PER_DOCUMENT' } = options;
+
+    const lines = components.map(component => {
+      if (mode === 'MARGIN_SCHEME') {
+        // Only the agency margin is taxed, always at the standard rate
+        const rate = resolveTaxRate(rates, undefined, date);
+        const taxableAmount = component.marginAmount.isNegative()
+          ? Money.zero(component.marginAmount.currency)
+          : component.marginAmount;
+
+        return { component, rate, taxableAmount };
+      }
+
+      const rate = resolveTaxRate(rates, component.componentType, date);
+      return { component, rate, taxableAmount: component.netPrice.add(component.marginAmount) };
+    });
+
+    const taxAmounts = calculateTaxAmounts(
+      lines.map(({ rate, taxableAmount }) => ({
+        taxCategory: rate.taxCategory,
+        ratePercent: rate.ratePercent,
+        taxableAmount,
+      })),
+      rounding
+    );
+
+    return lines.map(({ component, rate, taxableAmount }, index) => ({
+      componentType: component.componentType,
+      taxCategory: rate.taxCategory,
+      ratePercent: rate.ratePercent,
+      taxableAmount,
+      taxAmount: taxAmounts[index],
+      exemptionReason: rate.exemptionReason,
+    }));
+  }
+}
+
+/**
+ * Calculate the VAT of each line with the given rounding strategy
+ *
+ * PER_DOCUMENT rounds once per tax category and rate, then splits that
+ * amount back over the lines by taxable amount, so line taxes always add up
+ * to the document tax.
+ */
+export function calculateTaxAmounts(lines: TaxableLine[], rounding: TaxRoundingStrategy): Money[] {
+  if (rounding === 'PER_LINE') {
+    return lines.map(line => line.taxableAmount.percent(line.ratePercent));
+  }
+
+  const taxAmounts: Money[] = new Array(lines.length);
+  const groups = new Map<string, number[]>();
+
+  lines.forEach((line, index) => {
+    const key = `${line.taxCategory}:${line.ratePercent}`;
+    groups.set(key, [...(groups.get(key) || []), index]);
+  });
+
+  groups.forEach(indexes => {
+    const groupLines = indexes.map(index => lines[index]);
+    const hasPositive = groupLines.some(line => line.taxableAmount.isPositive());
+    const hasNegative = groupLines.some(line => line.taxableAmount.isNegative());
+
+    // Lines of both signs can't be weighted against each other
+    if (hasPositive && hasNegative) {
+      indexes.forEach(index => {
+        taxAmounts[index] = lines[index].taxableAmount.percent(lines[index].ratePercent);
+      });
+      return;
+    }
+
+    const currency = groupLines[0].taxableAmount.currency;
+    const groupTax = Money.sum(groupLines.map(line => line.taxableAmount), currency)
+      .percent(groupLines[0].ratePercent);
+
+    groupTax
+      .allocate(groupLines.map(line => line.taxableAmount.abs()))
+      .forEach((taxAmount, position) => { taxAmounts[indexes[position]] = taxAmount; });
+  });
+
+  return taxAmounts;
+}
+
+/**
+ * Pick the rate for a component on a date
+ *
+ * A rate configured for the component wins over the default (unscoped) rate,
+ * and among those the most recently started one is used.
+ */
+export function resolveTaxRate(
+  rates: TaxRate[],
+  componentType: PackageComponentType | undefined,
+  date: Date
+): TaxRate {
+  const valid = rates
+    .filter(rate => rate.validFrom <= date && (!rate.validTo || rate.validTo >= date))
+    .sort((a, b) => b.validFrom.getTime() - a.validFrom.getTime());
+
+  const rate = (componentType && valid.find(r => r.componentType === componentType))
+    || valid.find(r => !r.componentType);
+
+  if (!rate) {
+    throw new Error(`No tax rate configured for ${componentType || 'package'} on ${date.toISOString()}`);
+  }
+
+  return rate;
+}
+
+// Export singleton instance
+export const taxEngine = new TaxEngine();
@@ -0,0 +1,85 @@
+/**
+ * Travelers - Traveler composition helpers
+ *
+ * A party is described by its adults, the age of every child at check-in and
+ * its infants. Children older than CHILD_MAX_AGE are priced as adults, and
+ * legacy callers that only know a head count are treated as all adults.
+ */
+
+import type { TravelerComposition } from '@/types/package';
+
+export const INFANT_MAX_AGE = 1;
+export const CHILD_MAX_AGE = 11;
+export const MINOR_MAX_AGE = 17;
+
+/**
+ * Composition for a plain head count
+ */
+export function adultsOnly(travelers: number): TravelerComposition {
+  return { adults: travelers, childAges: [], infants: 0 };
+}
+
+/**
+ * Use the composition when given, the head count otherwise
+ */
+export function resolveTravelerComposition(
+  travelers?: number,
+  composition?: TravelerComposition
+): TravelerComposition {
+  return composition || adultsOnly(travelers ?? 1);
+}
+
+export function countTravelers(composition: TravelerComposition): number {
+  return composition.adults + composition.childAges.length + composition.infants;
+}
+
+/**
+ * Travelers that need a seat or a bed (everyone but infants)
+ */
+export function countSeatedTravelers(composition: TravelerComposition): number {
+  return composition.adults + composition.childAges.length;
+}
+
+/**
+ * Split the party into what each passenger type pays for
+ */
+export function classifyTravelers(composition: TravelerComposition): {
+  adults: number;
+  children: number;
+  infants: number;
+} {
+  const children = composition.childAges.filter(age => age <= CHILD_MAX_AGE).length;
+
+  return {
+    adults: composition.adults + composition.childAges.length - children,
+    children,
+    infants: composition.infants,
+  };
+}
+
+/**
+ * Reject compositions no supplier would accept
+ */
+export function validateTravelerComposition(composition: TravelerComposition): void {
+  const { adults, childAges, infants } = composition;
+
+  if (!Number.isInteger(adults) || adults < 1) {
+    throw new Error('At least one adult is required');
+  }
+
+  if (!Number.isInteger(infants) || infants < 0) {
+    throw new Error('Number of infants must be zero or more');
+  }
+
+  // Every infant travels on an adult's lap
+  if (infants > adults) {
+    throw new Error(`${infants} infants need at least as many adults, got ${adults}`);
+  }
+
+  const invalidAge = childAges.find(
+    age => !Number.isInteger(age) || age <= INFANT_MAX_AGE || age > MINOR_MAX_AGE
+  );
+  if (invalidAge !== undefined) {
+    throw new Error(`Child age ${invalidAge} is outside ${INFANT_MAX_AGE + 1}-${MINOR_MAX_AGE}; list younger children as infants`);
+  }
+}
@@ -0,0 +1,592 @@
+/**
+ * UBL Invoice - SEF e-invoices as UBL 2.1 Invoice XML
+ *
+ * Builds the Invoice document the Serbian Sistem E-Faktura accepts: the
+ * EN 16931 customization with the SEF (srbdt) extension, the seller's PIB
+ * as endpoint and VAT number, matični broj as legal registration number,
+ * VAT per SEF tax category with exemption codes for Z and E, and the
+ * payment means. Amounts are written with the currency's minor units and
+ * invoices in another currency carry their VAT in RSD as well.
+ *
+ * A final invoice lists the whole supply and deducts the advance invoices
+ * before it: they are referenced in BillingReference, their gross amount
+ * is the PrepaidAmount, and the SEF extension (sbt:SrbDtExt) states the
+ * advance VAT per category and the totals reduced by it, which is what
+ * Serbian VAT law has the final invoice charge.
+ *
+ * Credit and debit notes (input.correction) correct an issued invoice and
+ * reference it in BillingReference. A credit note is a UBL CreditNote
+ * (type 381), a debit note an Invoice of type 383; both state the amount
+ * they correct as positive amounts.
+ *
+ * Everything here is pure. checkSefRules covers the SEF business rules the
+ * XSD can't express; lib/ubl-schema.ts validates the XML itself.
+ */
+
+import { Money } from '@/lib/money';
+import { isValidBankAccount } from '@/lib/payment-slip';
+import type { UblDocumentType } from '@/lib/ubl-schema';
+import type {
+  AdvanceDeduction,
+  FiscalData,
+  InvoiceLineItem,
+  InvoiceValidationIssue,
+  PaymentMeans,
+  TaxCategory,
+  UblInvoiceInput,
+} from '@/types/invoice';
+
+export const SEF_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:mfin.gov.rs:srbdt:2021';
+export const PEPPOL_PROFILE_ID = 'urn:fdc:peppol.eu:2017:poacc:billing:01:1.0';
+
+// VAT is always reported to SEF in dinars
+export const SEF_TAX_CURRENCY = 'RSD';
+
+const DOCUMENT_NAMESPACES: Record<UblDocumentType, string> = {
+  Invoice: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  CreditNote: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+};
+
+const UBL_NAMESPACES = {
+  'xmlns:cac': 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  'xmlns:cbc': 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+};
+
+// Only declared on documents that use the SEF extension
+const EXTENSION_NAMESPACES = {
+  'xmlns:ext': 'urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2',
+  'xmlns:sbt': 'urn:mfin.gov.rs:srbdtext:v1',
+};
+
+// UNTDID 1001
+const INVOICE_TYPE_CODES: Record<FiscalData['invoiceType'], string> = {
+  FAKTURA: '380',
+  AVANSNA_FAKTURA: '386',
+  PROFAKTURA: '325',
+};
+
+// UNTDID 1001 for notes correcting an invoice
+const CREDIT_NOTE_TYPE_CODE = '381';
+const DEBIT_NOTE_TYPE_CODE = '383';
+
+// UNTDID 2005 as used by SEF for the VAT point: 35 delivery, 432 payment, 3 issue date
+const TAX_POINT_CODES: Record<FiscalData['invoiceType'], string> = {
+  FAKTURA: '35',
+  AVANSNA_FAKTURA: '432',
+  PROFAKTURA: '3',
+};
+
+// UNTDID 4461; IPS instant payments (CIS) are credit transfers
+const PAYMENT_MEANS_CODES: Record<PaymentMeans, string> = {
+  CASH: '10',
+  BANK_TRANSFER: '30',
+  CIS: '30',
+  CARD: '48',
+};
+
+// SEF endpoint scheme for Serbian PIB
+const PIB_SCHEME_ID = '9948';
+
+// One (piece); package components are invoiced per unit
+const UNIT_CODE = 'H87';
+
+type XmlPrefix = 'cbc' | 'cac' | 'ext' | 'sbt';
+
+interface XmlNode {
+  name: string;
+  attributes?: Record<string, string>;
+  text?: string;
+  children?: (XmlNode | null)[];
+}
+
+/**
+ * VAT per category and rate, with the exemption SEF needs for Z and E
+ */
+interface UblTaxSubtotal {
+  taxCategory: TaxCategory;
+  taxRate: number;
+  taxable: Money;
+  tax: Money;
+  exemptionReasonCode?: string;
+  exemptionReason?: string;
+}
+
+/**
+ * UBL document an input is rendered as: CreditNote for credit notes,
+ * Invoice for everything else
+ */
+export function ublDocumentType(input: Pick<UblInvoiceInput, 'correction'>): UblDocumentType {
+  return input.correction?.noteType === 'CREDIT' ? 'CreditNote' : 'Invoice';
+}
+
+/**
+ * Render the UBL 2.1 Invoice (or CreditNote) XML
+ */
+export function buildUblInvoice(input: UblInvoiceInput): string {
+  const { invoice, fiscal, itinerary, taxExchangeRate, correction } = input;
+  const documentType = ublDocumentType(input);
+  const creditNote = documentType === 'CreditNote';
+  const currency = invoice.currency;
+  const amount = (name: string, value: Money) => node('cbc', name, value.toString(), { currencyID: value.currency });
+
+  const subtotals = groupTaxSubtotals(input.lineItems, currency);
+  const taxable = Money.sum(subtotals.map(subtotal => subtotal.taxable), currency);
+  const tax = Money.sum(subtotals.map(subtotal => subtotal.tax), currency);
+  const foreignCurrency = currency !== SEF_TAX_CURRENCY;
+
+  const advances = input.advances || [];
+  const advanceSubtotals = groupAdvanceSubtotals(advances, subtotals, currency);
+  const advanceTaxable = Money.sum(advanceSubtotals.map(subtotal => subtotal.taxable), currency);
+  const advanceTax = Money.sum(advanceSubtotals.map(subtotal => subtotal.tax), currency);
+  const prepaid = advanceTaxable.add(advanceTax);
+
+  const taxTotal = (totalTax: Money, each: UblTaxSubtotal[]) =>
+    parent('cac', 'TaxTotal', [
+      amount('TaxAmount', totalTax),
+      ...each.map(subtotal =>
+        parent('cac', 'TaxSubtotal', [
+          amount('TaxableAmount', subtotal.taxable),
+          amount('TaxAmount', subtotal.tax),
+          taxCategory('TaxCategory', subtotal),
+        ])
+      ),
+    ]);
+
+  // What the final invoice still charges once the advances are deducted
+  const reducedSubtotals = subtotals.map(subtotal => {
+    const advance = advanceSubtotals.find(each => taxKey(each) === taxKey(subtotal));
+    return advance
+      ? { ...subtotal, taxable: subtotal.taxable.subtract(advance.taxable), tax: subtotal.tax.subtract(advance.tax) }
+      : subtotal;
+  });
+
+  const sefExtension = advances.length === 0 ? null : parent('ext', 'UBLExtensions', [
+    parent('ext', 'UBLExtension', [
+      parent('ext', 'ExtensionContent', [
+        parent('sbt', 'SrbDtExt', [
+          ...advances.map(advance =>
+            parent('sbt', 'InvoicedPrepaymentAmmount', [
+              node('cbc', 'ID', advance.invoiceNumber),
+              taxTotal(
+                Money.sum(advance.taxSubtotals.map(subtotal => Money.of(subtotal.taxAmount, currency)), currency),
+                groupAdvanceSubtotals([advance], subtotals, currency)
+              ),
+            ])
+          ),
+          parent('sbt', 'ReducedTotals', [
+            taxTotal(tax.subtract(advanceTax), reducedSubtotals),
+            parent('cac', 'LegalMonetaryTotal', [
+              amount('LineExtensionAmount', taxable),
+              amount('TaxExclusiveAmount', taxable.subtract(advanceTaxable)),
+              amount('TaxInclusiveAmount', taxable.add(tax).subtract(prepaid)),
+              amount('PayableAmount', taxable.add(tax).subtract(prepaid)),
+            ]),
+          ]),
+        ]),
+      ]),
+    ]),
+  ]);
+
+  const billingReference = (reference: { invoiceNumber: string; issueDate: Date }) =>
+    parent('cac', 'BillingReference', [
+      parent('cac', 'InvoiceDocumentReference', [
+        node('cbc', 'ID', reference.invoiceNumber),
+        node('cbc', 'IssueDate', toDate(reference.issueDate)),
+      ]),
+    ]);
+
+  const root: XmlNode = {
+    name: documentType,
+    attributes: {
+      xmlns: DOCUMENT_NAMESPACES[documentType],
+      ...UBL_NAMESPACES,
+      ...(sefExtension ? EXTENSION_NAMESPACES : {}),
+    },
+    children: [
+      sefExtension,
+      node('cbc', 'CustomizationID', SEF_CUSTOMIZATION_ID),
+      node('cbc', 'ProfileID', PEPPOL_PROFILE_ID),
+      node('cbc', 'ID', invoice.invoiceNumber),
+      node('cbc', 'IssueDate', toDate(invoice.invoiceDate)),
+      // A UBL 2.1 CreditNote has no due date
+      fiscal.paymentDueDate && !creditNote ? node('cbc', 'DueDate', toDate(fiscal.paymentDueDate)) : null,
+      creditNote
+        ? node('cbc', 'CreditNoteTypeCode', CREDIT_NOTE_TYPE_CODE)
+        : node('cbc', 'InvoiceTypeCode', correction ? DEBIT_NOTE_TYPE_CODE : INVOICE_TYPE_CODES[fiscal.invoiceType]),
+      node('cbc', 'Note', `Booking ${itinerary.bookingReference || itinerary.id}, ${toDate(itinerary.checkInDate)} - ${toDate(itinerary.checkOutDate)}`),
+      correction?.reason ? node('cbc', 'Note', correction.reason) : null,
+      node('cbc', 'DocumentCurrencyCode', currency),
+      foreignCurrency ? node('cbc', 'TaxCurrencyCode', SEF_TAX_CURRENCY) : null,
+      parent('cac', 'InvoicePeriod', [node('cbc', 'DescriptionCode', TAX_POINT_CODES[fiscal.invoiceType])]),
+      parent('cac', 'OrderReference', [node('cbc', 'ID', fiscal.orderReference || itinerary.bookingReference || itinerary.id)]),
+      ...advances.map(billingReference),
+      correction ? billingReference(correction) : null,
+      fiscal.contractReference
+        ? parent('cac', 'ContractDocumentReference', [node('cbc', 'ID', fiscal.contractReference)])
+        : null,
+      parent('cac', 'AccountingSupplierParty', [
+        party({
+          pib: invoice.pib,
+          maticniBroj: invoice.maticniBroj,
+          name: invoice.companyName,
+          address: invoice.companyAddress,
+        }),
+      ]),
+      parent('cac', 'AccountingCustomerParty', [
+        party({
+          pib: invoice.buyerPib,
+          maticniBroj: invoice.buyerMaticniBroj,
+          name: invoice.buyerName,
+          address: invoice.buyerAddress,
+        }),
+      ]),
+      parent('cac', 'PaymentMeans', [
+        node('cbc', 'PaymentMeansCode', PAYMENT_MEANS_CODES[fiscal.paymentMeans]),
+        invoice.cisCode ? node('cbc', 'PaymentID', invoice.cisCode) : null,
+        fiscal.bankAccount
+          ? parent('cac', 'PayeeFinancialAccount', [node('cbc', 'ID', fiscal.bankAccount)])
+          : null,
+      ]),
+      taxTotal(tax, subtotals),
+      // SEF reads the VAT in dinars from a second TaxTotal without subtotals
+      foreignCurrency && taxExchangeRate
+        ? parent('cac', 'TaxTotal', [
+            amount('TaxAmount', tax.convert(taxExchangeRate.rate, SEF_TAX_CURRENCY)),
+          ])
+        : null,
+      parent('cac', 'LegalMonetaryTotal', [
+        amount('LineExtensionAmount', taxable),
+        amount('TaxExclusiveAmount', taxable),
+        amount('TaxInclusiveAmount', taxable.add(tax)),
+        amount('PrepaidAmount', prepaid),
+        amount('PayableAmount', taxable.add(tax).subtract(prepaid)),
+      ]),
+      ...input.lineItems.map((item, index) =>
+        parent('cac', creditNote ? 'CreditNoteLine' : 'InvoiceLine', [
+          node('cbc', 'ID', String(index + 1)),
+          node('cbc', creditNote ? 'CreditedQuantity' : 'InvoicedQuantity', String(item.quantity), { unitCode: UNIT_CODE }),
+          amount('LineExtensionAmount', Money.of(item.lineTotal, currency)),
+          parent('cac', 'Item', [
+            node('cbc', 'Name', item.description),
+            parent('cac', 'SellersItemIdentification', [node('cbc', 'ID', item.itemId)]),
+            taxCategory('ClassifiedTaxCategory', {
+              taxCategory: item.taxCategory || 'S',
+              taxRate: item.taxRate,
+            }),
+          ]),
+          parent('cac', 'Price', [
+            node('cbc', 'PriceAmount', String(item.unitPrice), { currencyID: currency }),
+          ]),
+        ])
+      ),
+    ],
+  };
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${render(root, 0)}\n`;
+}
+
+/**
+ * SEF business rules for an invoice, empty when it may be sent
+ */
+export function checkSefRules(input: UblInvoiceInput): InvoiceValidationIssue[] {
+  const { invoice, fiscal, lineItems, taxExchangeRate, correction } = input;
+  const issues: InvoiceValidationIssue[] = [];
+  const fail = (rule: string, message: string, location?: string) => issues.push({ rule, message, location });
+
+  if (!invoice.invoiceNumber.trim()) {
+    fail('BR-RS-ID', 'Invoice number is missing');
+  }
+  if (!isValidPib(invoice.pib)) {
+    fail('BR-RS-PIB', `Seller PIB ${invoice.pib} is not a valid 9-digit PIB`, 'AccountingSupplierParty');
+  }
+  if (!isValidMaticniBroj(invoice.maticniBroj)) {
+    fail('BR-RS-MB', `Seller matični broj ${invoice.maticniBroj} is not a valid 8-digit registration number`, 'AccountingSupplierParty');
+  }
+  if (invoice.buyerPib && !isValidPib(invoice.buyerPib)) {
+    fail('BR-RS-PIB', `Buyer PIB ${invoice.buyerPib} is not a valid 9-digit PIB`, 'AccountingCustomerParty');
+  }
+  if (invoice.buyerMaticniBroj && !isValidMaticniBroj(invoice.buyerMaticniBroj)) {
+    fail('BR-RS-MB', `Buyer matični broj ${invoice.buyerMaticniBroj} is not a valid 8-digit registration number`, 'AccountingCustomerParty');
+  }
+  if (!/^[A-Z]{3}$/.test(invoice.currency)) {
+    fail('BR-RS-CUR', `Currency ${invoice.currency} is not an ISO 4217 code`);
+  } else if (
+    invoice.currency !== SEF_TAX_CURRENCY &&
+    (!taxExchangeRate || taxExchangeRate.fromCurrency !== invoice.currency || taxExchangeRate.toCurrency !== SEF_TAX_CURRENCY)
+  ) {
+    fail('BR-RS-CUR', `A ${invoice.currency} invoice needs the ${invoice.currency}/${SEF_TAX_CURRENCY} rate for its VAT`);
+  }
+  if (fiscal.paymentDueDate && toDate(fiscal.paymentDueDate) < toDate(invoice.invoiceDate)) {
+    fail('BR-RS-DUE', 'Payment is due before the invoice was issued');
+  }
+  // A credit note is paid out by the seller, so it needs no payee account
+  if (ublDocumentType(input) === 'Invoice' && (fiscal.paymentMeans === 'BANK_TRANSFER' || fiscal.paymentMeans === 'CIS') &&
+    !(fiscal.bankAccount && isValidBankAccount(fiscal.bankAccount))) {
+    fail('BR-RS-ACCOUNT', 'Payment by transfer needs a payee account with valid control digits, e.g. 160-0000000123456-54', 'PaymentMeans');
+  }
+  if (lineItems.length === 0) {
+    fail('BR-RS-LINES', 'An invoice needs at least one line');
+  }
+  if (correction && !correction.invoiceNumber.trim()) {
+    fail('BR-RS-NOTE', 'A credit or debit note must reference the invoice it corrects', 'BillingReference');
+  }
+  if (correction && toDate(correction.issueDate) > toDate(invoice.invoiceDate)) {
+    fail('BR-RS-NOTE', `The note is dated before invoice ${correction.invoiceNumber}`, 'BillingReference');
+  }
+  if (correction && !(invoice.totalAmount > 0)) {
+    fail('BR-RS-NOTE', 'A note states the amount it credits or debits as a positive amount');
+  }
+
+  if (!/^[A-Z]{3}$/.test(invoice.currency)) {
+    return issues;
+  }
+
+  if (input.advances?.length) {
+    const keys = new Set(lineItems.map(item => `${item.taxCategory || 'S'}:${item.taxRate}`));
+    const prepaid = Money.sum(
+      input.advances.flatMap(advance => advance.taxSubtotals).map(subtotal =>
+        Money.of(subtotal.taxableAmount, invoice.currency).add(Money.of(subtotal.taxAmount, invoice.currency))
+      ),
+      invoice.currency
+    );
+
+    if (fiscal.invoiceType !== 'FAKTURA' || correction) {
+      fail('BR-RS-ADVANCE', 'Only a final invoice (FAKTURA) deducts advances');
+    }
+    if (input.advances.some(advance => advance.taxSubtotals.some(subtotal => !keys.has(`${subtotal.taxCategory}:${subtotal.taxRate}`)))) {
+      fail('BR-RS-ADVANCE', 'An advance was invoiced at a tax category or rate the final invoice doesn\'t have');
+    }
+    if (prepaid.compare(Money.of(invoice.totalAmount, invoice.currency)) > 0) {
+      fail('BR-RS-ADVANCE', `Advances of ${prepaid.toString()} exceed the invoice total ${invoice.totalAmount}`);
+    }
+  }
+
+  lineItems.forEach((item, index) => {
+    const location = `InvoiceLine ${index + 1}`;
+    const category = item.taxCategory || 'S';
+
+    if (!Money.of(item.quantity, invoice.currency).multiply(item.unitPrice).equals(Money.of(item.lineTotal, invoice.currency))) {
+      fail('BR-RS-LINE-TOTAL', `Line total ${item.lineTotal} is not quantity times unit price`, location);
+    }
+    if (category === 'S' && !(item.taxRate > 0)) {
+      fail('BR-RS-TAX-S', 'Standard-rated lines need a VAT rate above zero', location);
+    }
+    if (category !== 'S' && item.taxRate !== 0) {
+      fail(`BR-RS-TAX-${category}`, `Category ${category} lines are taxed at 0%`, location);
+    }
+    if (category !== 'S' && !item.exemptionReasonCode) {
+      fail(`BR-RS-TAX-${category}`, `Category ${category} lines need a SEF exemption reason code`, location);
+    }
+    if (category === 'S' && (item.exemptionReasonCode || item.exemptionReason)) {
+      fail('BR-RS-TAX-S', 'Standard-rated lines carry no exemption reason', location);
+    }
+  });
+
+  // One TaxSubtotal per category, so one exemption reason per category
+  for (const category of ['Z', 'E'] as TaxCategory[]) {
+    const codes = new Set(lineItems.filter(item => item.taxCategory === category).map(item => item.exemptionReasonCode));
+    if (codes.size > 1) {
+      fail(`BR-RS-TAX-${category}`, `Category ${category} lines must share one exemption reason code`);
+    }
+  }
+
+  const subtotals = groupTaxSubtotals(lineItems, invoice.currency);
+  const taxable = Money.sum(subtotals.map(subtotal => subtotal.taxable), invoice.currency);
+  const tax = Money.sum(subtotals.map(subtotal => subtotal.tax), invoice.currency);
+
+  if (!taxable.equals(Money.of(invoice.taxableAmount, invoice.currency))) {
+    fail('BR-RS-TOTALS', `Taxable amount ${invoice.taxableAmount} doesn't match the lines (${taxable.toString()})`);
+  }
+  if (!tax.equals(Money.of(invoice.taxAmount, invoice.currency))) {
+    fail('BR-RS-TOTALS', `VAT ${invoice.taxAmount} doesn't match the lines (${tax.toString()})`);
+  }
+  if (!taxable.add(tax).equals(Money.of(invoice.totalAmount, invoice.currency))) {
+    fail('BR-RS-TOTALS', `Total ${invoice.totalAmount} is not taxable amount plus VAT`);
+  }
+
+  return issues;
+}
+
+/**
+ * PIB: 9 digits, the last an ISO 7064 MOD 11,10 check digit
+ */
+export function isValidPib(pib: string): boolean {
+  if (!/^\d{9}$/.test(pib)) {
+    return false;
+  }
+
+  let product = 10;
+  for (let i = 0; i < 8; i++) {
+    const sum = (Number(pib[i]) + product) % 10 || 10;
+    product = (2 * sum) % 11;
+  }
+
+  return (11 - product) % 10 === Number(pib[8]);
+}
+
+/**
+ * Matični broj: 8 digits, the last a weighted mod 11 check digit
+ */
+export function isValidMaticniBroj(maticniBroj: string): boolean {
+  if (!/^\d{8}$/.test(maticniBroj)) {
+    return false;
+  }
+
+  const weights = [2, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(maticniBroj[i]), 0);
+  const check = 11 - (sum % 11);
+
+  return (check > 9 ? 0 : check) === Number(maticniBroj[7]);
+}
+
+function groupTaxSubtotals(lineItems: InvoiceLineItem[], currency: string): UblTaxSubtotal[] {
+  const subtotals = new Map<string, UblTaxSubtotal>();
+
+  for (const item of lineItems) {
+    const taxCategory = item.taxCategory || 'S';
+    const key = `${taxCategory}:${item.taxRate}`;
+    const subtotal = subtotals.get(key) || {
+      taxCategory,
+      taxRate: item.taxRate,
+      taxable: Money.zero(currency),
+      tax: Money.zero(currency),
+      exemptionReasonCode: item.exemptionReasonCode,
+      exemptionReason: item.exemptionReason,
+    };
+
+    subtotal.taxable = subtotal.taxable.add(Money.of(item.lineTotal, currency));
+    subtotal.tax = subtotal.tax.add(Money.of(item.taxAmount ?? 0, currency));
+    subtotals.set(key, subtotal);
+  }
+
+  return Array.from(subtotals.values());
+}
+
+/**
+ * Advance taxable amounts and VAT per category and rate, with the exemption
+ * of the matching subtotal of the final invoice
+ */
+function groupAdvanceSubtotals(
+  advances: AdvanceDeduction[],
+  subtotals: UblTaxSubtotal[],
+  currency: string
+): UblTaxSubtotal[] {
+  const grouped = new Map<string, UblTaxSubtotal>();
+
+  for (const subtotal of advances.flatMap(advance => advance.taxSubtotals)) {
+    const key = taxKey(subtotal);
+    const matching = subtotals.find(each => taxKey(each) === key);
+    const current = grouped.get(key) || {
+      taxCategory: subtotal.taxCategory,
+      taxRate: subtotal.taxRate,
+      taxable: Money.zero(currency),
+      tax: Money.zero(currency),
+      exemptionReasonCode: matching?.exemptionReasonCode,
+      exemptionReason: matching?.exemptionReason,
+    };
+
+    current.taxable = current.taxable.add(Money.of(subtotal.taxableAmount, currency));
+    current.tax = current.tax.add(Money.of(subtotal.taxAmount, currency));
+    grouped.set(key, current);
+  }
+
+  return Array.from(grouped.values());
+}
+
+function taxKey(subtotal: { taxCategory: TaxCategory; taxRate: number }): string {
+  return `${subtotal.taxCategory}:${subtotal.taxRate}`;
+}
+
+function party(details: { pib?: string; maticniBroj?: string; name: string; address?: string }): XmlNode {
+  const address = splitAddress(details.address);
+
+  return parent('cac', 'Party', [
+    details.pib ? node('cbc', 'EndpointID', details.pib, { schemeID: PIB_SCHEME_ID }) : null,
+    parent('cac', 'PartyName', [node('cbc', 'Name', details.name)]),
+    parent('cac', 'PostalAddress', [
+      address.street ? node('cbc', 'StreetName', address.street) : null,
+      address.city ? node('cbc', 'CityName', address.city) : null,
+      address.postalZone ? node('cbc', 'PostalZone', address.postalZone) : null,
+      parent('cac', 'Country', [node('cbc', 'IdentificationCode', 'RS')]),
+    ]),
+    details.pib
+      ? parent('cac', 'PartyTaxScheme', [
+          node('cbc', 'CompanyID', `RS${details.pib}`),
+          parent('cac', 'TaxScheme', [node('cbc', 'ID', 'VAT')]),
+        ])
+      : null,
+    parent('cac', 'PartyLegalEntity', [
+      node('cbc', 'RegistrationName', details.name),
+      details.maticniBroj ? node('cbc', 'CompanyID', details.maticniBroj) : null,
+    ]),
+  ]);
+}
+
+function taxCategory(
+  name: 'TaxCategory' | 'ClassifiedTaxCategory',
+  category: Pick<UblTaxSubtotal, 'taxCategory' | 'taxRate' | 'exemptionReasonCode' | 'exemptionReason'>
+): XmlNode {
+  return parent('cac', name, [
+    node('cbc', 'ID', category.taxCategory),
+    node('cbc', 'Percent', String(category.taxRate)),
+    category.exemptionReasonCode ? node('cbc', 'TaxExemptionReasonCode', category.exemptionReasonCode) : null,
+    category.exemptionReason ? node('cbc', 'TaxExemptionReason', category.exemptionReason) : null,
+    parent('cac', 'TaxScheme', [node('cbc', 'ID', 'VAT')]),
+  ]);
+}
+
+/**
+ * "Street 1, 11000 Beograd" into street, postal code and city
+ */
+function splitAddress(address: string | undefined): { street?: string; postalZone?: string; city?: string } {
+  if (!address?.trim()) {
+    return {};
+  }
+
+  const parts = address.split(',').map(part => part.trim()).filter(Boolean);
+  const locality = parts.length > 1 ? parts[parts.length - 1] : '';
+  const match = locality.match(/^(\d{5})\s+(.+)$/);
+
+  return {
+    street: parts.length > 1 ? parts.slice(0, -1).join(', ') : parts[0],
+    postalZone: match ? match[1] : undefined,
+    city: match ? match[2] : locality || undefined,
+  };
+}
+
+function toDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function node(prefix: XmlPrefix, name: string, text: string, attributes?: Record<string, string>): XmlNode {
+  return { name: `${prefix}:${name}`, text, attributes };
+}
+
+function parent(prefix: XmlPrefix, name: string, children: (XmlNode | null)[]): XmlNode {
+  return { name: `${prefix}:${name}`, children };
+}
+
+function render(element: XmlNode, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(element.attributes || {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+
+  if (element.children) {
+    const children = element.children
+      .filter((child): child is XmlNode => child !== null)
+      .map(child => render(child, depth + 1));
+    return `${indent}<${element.name}${attributes}>\n${children.join('\n')}\n${indent}</${element.name}>`;
+  }
+
+  return `${indent}<${element.name}${attributes}>${escapeXml(element.text || '')}</${element.name}>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
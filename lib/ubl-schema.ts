@@ -0,0 +1,107 @@
+/**
+ * UBL Schema - Validating UBL 2.1 documents against the official XSDs
+ *
+ * The OASIS UBL 2.1 schemas are fetched into UBL_SCHEMA_DIR on install
+ * (scripts/fetch-ubl-schemas.mjs) in the layout of the distribution's xsd/
+ * folder (maindoc/ for the document schemas, common/ for everything they
+ * import) and run through libxml2 compiled to WebAssembly, so validation
+ * needs no network and no native xmllint.
+ *
+ * When the schemas aren't installed the result says so (schemaChecked:
+ * false) instead of pretending the document passed.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { validateXML, type XMLFileInfo } from 'xmllint-wasm';
+import type { InvoiceValidationIssue } from '@/types/invoice';
+
+export const UBL_SCHEMA_DIR = process.env.UBL_SCHEMA_DIR || path.join(process.cwd(), 'schemas', 'ubl-2.1');
+
+export type UblDocumentType = 'Invoice' | 'CreditNote';
+
+export interface UblSchemaResult {
+  schemaChecked: boolean;
+  issues: InvoiceValidationIssue[];
+}
+
+interface UblSchemaSet {
+  entry: XMLFileInfo;
+  imports: XMLFileInfo[];
+}
+
+// Loaded once per document type; the XSDs are a few MB
+const schemaSets = new Map<UblDocumentType, Promise<UblSchemaSet | null>>();
+
+/**
+ * Validate a document against its UBL 2.1 maindoc schema
+ */
+export async function validateUblSchema(xml: string, documentType: UblDocumentType = 'Invoice'): Promise<UblSchemaResult> {
+  if (!schemaSets.has(documentType)) {
+    schemaSets.set(documentType, loadSchemaSet(documentType));
+  }
+
+  const schemas = await schemaSets.get(documentType);
+  if (!schemas) {
+    return { schemaChecked: false, issues: [] };
+  }
+
+  const result = await validateXML({
+    xml: { fileName: `${documentType}.xml`, contents: xml },
+    schema: schemas.entry,
+    preload: schemas.imports,
+  });
+
+  return {
+    schemaChecked: true,
+    issues: result.errors.map(error => ({
+      rule: 'XSD',
+      message: error.message.trim(),
+      location: error.loc ? `line ${error.loc.lineNumber}` : undefined,
+    })),
+  };
+}
+
+async function loadSchemaSet(documentType: UblDocumentType): Promise<UblSchemaSet | null> {
+  const entryName = path.posix.join('maindoc', `UBL-${documentType}-2.1.xsd`);
+
+  try {
+    const files = await listSchemaFiles(UBL_SCHEMA_DIR);
+    const read = async (fileName: string): Promise<XMLFileInfo> => ({
+      fileName,
+      contents: await fs.readFile(path.join(UBL_SCHEMA_DIR, fileName), 'utf8'),
+    });
+
+    if (!files.includes(entryName)) {
+      return null;
+    }
+
+    return {
+      entry: await read(entryName),
+      imports: await Promise.all(files.filter(file => file.startsWith('common/')).map(read)),
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Every .xsd below the directory, as relative POSIX paths
+ */
+async function listSchemaFiles(dir: string, prefix: string = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map(entry => {
+      const relative = path.posix.join(prefix, entry.name);
+      if (entry.isDirectory()) {
+        return listSchemaFiles(dir, relative);
+      }
+      return Promise.resolve(entry.name.endsWith('.xsd') ? [relative] : []);
+    })
+  );
+
+  return nested.flat();
+}
@@ -27,10 +27,11 @@ export function formatDate(date: Date | string, format: 'short' | 'long' = 'shor
   }).format(dateObj);
 }
 
+// Zero when check-out isn't after check-in
 export function calculateNights(checkIn: Date, checkOut: Date): number {
-  const diffTime = Math.abs(checkOut.getTime() - checkIn.getTime());
+  const diffTime = checkOut.getTime() - checkIn.getTime();
   const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  return diffDays;
+  return Math.max(diffDays, 0);
 }
 
 export function debounce<T extends (...args: never[]) => unknown>(
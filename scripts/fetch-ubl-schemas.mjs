@@ -0,0 +1,121 @@
+/**
+ * Fetch the OASIS UBL 2.1 schemas into schemas/ubl-2.1 (npm postinstall)
+ *
+ * Downloads the UBL 2.1 OASIS Standard distribution, pinned to its release
+ * URL, and unpacks its xsd/common and xsd/maindoc folders where
+ * lib/ubl-schema.ts looks for them. Already installed schemas are kept.
+ * Without network `npm install` still succeeds with a warning; invoices and
+ * notes are then refused until the schemas are fetched with
+ * `npm run schemas:fetch`, which fails instead, or copied in by hand (see
+ * schemas/ubl-2.1/README.md).
+ *
+ * UBL_SCHEMA_DIR installs them elsewhere, UBL_SCHEMAS_URL fetches a mirror
+ * of the same zip, SKIP_UBL_SCHEMAS=1 skips the download.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { inflateRawSync } from 'zlib';
+
+const UBL_RELEASE_URL = 'https://docs.oasis-open.org/ubl/os-UBL-2.1/UBL-2.1.zip';
+const SCHEMA_DIR = process.env.UBL_SCHEMA_DIR || path.join(process.cwd(), 'schemas', 'ubl-2.1');
+const ENTRY_SCHEMAS = ['maindoc/UBL-Invoice-2.1.xsd', 'maindoc/UBL-CreditNote-2.1.xsd'];
+
+// xsd/common/... and xsd/maindoc/... wherever the zip roots them
+const SCHEMA_ENTRY = /(?:^|\/)xsd\/((?:common|maindoc)\/[^/]+\.xsd)$/;
+
+async function main() {
+  if (process.env.SKIP_UBL_SCHEMAS === '1') {
+    return;
+  }
+  if (ENTRY_SCHEMAS.every(file => existsSync(path.join(SCHEMA_DIR, file)))) {
+    return;
+  }
+
+  const url = process.env.UBL_SCHEMAS_URL || UBL_RELEASE_URL;
+
+  let zip;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    zip = Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    if (process.env.npm_lifecycle_event !== 'postinstall') {
+      throw new Error(`${url} could not be downloaded (${error.message})`);
+    }
+
+    console.warn(`UBL 2.1 schemas not installed: ${url} could not be downloaded (${error.message}).`);
+    console.warn('Invoices and notes are refused until they are; run `npm run schemas:fetch` or see schemas/ubl-2.1/README.md.');
+    return;
+  }
+
+  const files = readZip(zip).filter(entry => SCHEMA_ENTRY.test(entry.name));
+  const names = files.map(entry => entry.name.match(SCHEMA_ENTRY)[1]);
+
+  const missing = ENTRY_SCHEMAS.filter(file => !names.includes(file));
+  if (missing.length > 0) {
+    throw new Error(`${url} is not the UBL 2.1 distribution: ${missing.join(', ')} missing`);
+  }
+
+  for (const [index, entry] of files.entries()) {
+    const target = path.join(SCHEMA_DIR, names[index]);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, entry.read());
+  }
+
+  console.log(`Installed ${files.length} UBL 2.1 schemas in ${SCHEMA_DIR}`);
+}
+
+/**
+ * Entries of a zip archive, read from its central directory
+ */
+function readZip(zip) {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Corrupt zip central directory');
+    }
+
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.push({
+      name,
+      read() {
+        const start = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+        const data = zip.subarray(start, start + compressedSize);
+        if (method === 0) {
+          return data;
+        }
+        if (method === 8) {
+          return inflateRawSync(data);
+        }
+        throw new Error(`${name} uses unsupported zip compression ${method}`);
+      },
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+main().catch(error => {
+  console.error(`Fetching the UBL 2.1 schemas failed: ${error.message}`);
+  process.exit(1);
+});
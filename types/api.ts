@@ -12,10 +12,29 @@ import type {
   BookingRequest,
   BookingResponse,
   PackageSearchRequest,
-  PackageSearchResult
+  PackageSearchResult,
+  MarginRule,
+  MarginSimulationResult,
+  TravelerComposition,
+  PriceBreakdown,
+  CustomerPriceBreakdown,
+  PricingAudience,
+  QuoteStatus,
+  BookingStatus,
+  BookingChannel,
+  BookingStatusChange,
+  PaymentStatus,
+  RefundMethod,
+  CustomerPriceLine,
+  ItineraryChange,
+  BookingAmendment,
+  PackageComponentType,
+  InventoryHoldStatus
 } from './package';
 
-import type { InvoiceData, InvoiceResponse, InvoiceCreateRequest } from './invoice';
+import type { InvoiceData, InvoiceResponse, InvoiceCreateRequest, TaxMode, AmendmentInvoice, InvoiceLedger, CreditNoteType } from './invoice';
+import type { SupplierFailure } from './supplier';
+import type { ExchangeRateImportResult, ExchangeRateType } from './currency';
 
 // ====================================
 // BASE API TYPES
@@ -60,6 +79,23 @@ export interface ApiConfig {
 // SEARCH & AVAILABILITY API
 // ====================================
 
+export type SearchScope = 'FLIGHT' | 'HOTEL';
+
+/**
+ * Page of a cached search; filters narrow it without asking the suppliers again
+ */
+export interface SearchPageRequest {
+  searchId: string;
+  page?: number; // 1-based, default 1
+  perPage?: number; // Default 20, at most 100
+}
+
+export type SearchPagination = Omit<PaginatedResponse<never>, 'items'>;
+
+export interface SearchInvalidationRequest {
+  scope?: SearchScope; // Both when omitted
+}
+
 export interface FlightSearchRequest {
   origin: string;
   destination: string;
@@ -68,13 +104,21 @@ export interface FlightSearchRequest {
   passengers: number;
   cabinClass: 'ECONOMY' | 'BUSINESS' | 'FIRST';
   directOnly?: boolean;
+  page?: number;
+  perPage?: number;
+}
+
+export interface FlightSearchPageRequest extends SearchPageRequest {
+  directOnly?: boolean;
 }
 
 export interface FlightSearchResponse {
-  flights: Flight[];
+  flights: Flight[]; // One per flight number and departure, from the cheapest supplier
   searchId: string;
   validUntil: string;
-  currency: string;
+  currency: string; // Offers keep their own currency; cheapest is decided in this one
+  failedSuppliers: SupplierFailure[]; // Suppliers missing from a partial result
+  pagination: SearchPagination;
 }
 
 export interface HotelSearchRequest {
@@ -83,16 +127,26 @@ export interface HotelSearchRequest {
   checkOutDate: string;
   guests: number;
   rooms: number;
+  stars?: number[];
+  amenities?: string[];
+  maxPrice?: number; // Per room per night
+  page?: number;
+  perPage?: number;
+}
+
+export interface HotelSearchPageRequest extends SearchPageRequest {
   stars?: number[];
   amenities?: string[];
   maxPrice?: number;
 }
 
 export interface HotelSearchResponse {
-  hotels: (Hotel & { availableRooms: Room[] })[];
+  hotels: (Hotel & { availableRooms: Room[] })[]; // One per property, from the cheapest supplier
   searchId: string;
   validUntil: string;
-  currency: string;
+  currency: string; // Offers keep their own currency; cheapest is decided in this one
+  failedSuppliers: SupplierFailure[]; // Suppliers missing from a partial result
+  pagination: SearchPagination;
 }
 
 export interface AvailabilityCheckRequest {
@@ -120,32 +174,61 @@ export interface AvailabilityCheckResponse {
 
 export interface CreateBookingRequest extends BookingRequest {
   // Additional fields for API
-  sourceChannel?: 'WEB' | 'MOBILE' | 'API';
+  sourceChannel?: BookingChannel; // Picks the booking reference prefix
   agentId?: string;
   promoCode?: string;
 }
 
 export interface CreateBookingResponse extends BookingResponse {
+  quoteId?: string; // Quote the booking was priced from
   paymentUrl?: string;
   confirmationEmail?: string;
 }
 
+/**
+ * A customer's proof that a booking is theirs, sent in the X-Booking-Reference
+ * and X-Customer-Email headers
+ */
+export interface CustomerProof {
+  bookingReference: string;
+  customerEmail: string;
+}
+
 export interface BookingStatusRequest {
-  bookingId: string;
-  bookingReference?: string;
+  bookingId?: string; // Staff only
+  bookingReference?: string; // Looked up when no bookingId is given
+  customerEmail?: string; // Required with the bookingReference unless staff
 }
 
 export interface BookingStatusResponse {
-  status: 'PENDING' | 'CONFIRMED' | 'PAID' | 'CANCELLED' | 'COMPLETED';
+  status: BookingStatus;
   itinerary: Itinerary;
-  paymentStatus: 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'REFUNDED';
+  paymentStatus: PaymentStatus;
   lastUpdated: string;
 }
 
+export interface BookingTransitionRequest {
+  bookingId: string;
+  status: BookingStatus;
+  actor: string; // Who moves the booking (user id, email or "system")
+  reason?: string;
+}
+
+export interface BookingTransitionResponse {
+  status: BookingStatus;
+  change: BookingStatusChange;
+}
+
+export interface BookingHistoryResponse {
+  bookingId: string;
+  history: BookingStatusChange[];
+}
+
 export interface CancelBookingRequest {
   bookingId: string;
   reason?: string;
-  refundMethod?: 'ORIGINAL' | 'CREDIT' | 'NONE';
+  refundMethod?: RefundMethod;
+  acceptedRefundAmount?: number; // From the cancellation quote; refused with a 409 if the refund changed since
 }
 
 export interface CancelBookingResponse {
@@ -153,6 +236,91 @@ export interface CancelBookingResponse {
   refundAmount?: number;
   refundStatus?: 'PENDING' | 'PROCESSED' | 'REJECTED';
   cancellationFee?: number;
+  refundMethod?: RefundMethod;
+  creditNoteNumber?: string; // Credit note documenting the refund, whatever the refund method
+}
+
+export interface CancellationQuoteRequest {
+  bookingId: string;
+  refundMethod?: RefundMethod;
+}
+
+/**
+ * What the customer sees before confirming a cancellation
+ *
+ * Opaque packages come back as a single PACKAGE line, like their price.
+ */
+export interface CancellationQuoteResponse {
+  bookingId: string;
+  bookingReference?: string;
+  daysBeforeCheckIn: number;
+  lines: {
+    label: CustomerPriceLine['label'];
+    totalPrice: number;
+    cancellationFee: number;
+    refundable: number;
+    nonRefundable: boolean;
+    policyName?: string;
+  }[];
+  cancellationFee: number;
+  changeFees: number; // Amendment change fees, kept like the cancellation fee
+  paidAmount: number;
+  refundAmount: number;
+  currency: string;
+  refundMethod: RefundMethod;
+  quotedAt: string;
+}
+
+export interface InventoryHoldRequest {
+  quoteId: string; // Holds the seats and rooms the quote was priced for
+}
+
+export interface InventoryHoldResponse {
+  holdId: string;
+  status: InventoryHoldStatus;
+  expiresAt: string;
+}
+
+export interface RoomAllotmentRequest {
+  from: string; // First night, ISO 8601
+  to: string; // Day after the last night
+  available: number; // Rooms left to sell each night
+}
+
+export interface AmendmentQuoteRequest {
+  bookingId: string;
+  change: Omit<ItineraryChange, 'checkInDate' | 'checkOutDate'> & {
+    checkInDate?: string;
+    checkOutDate?: string;
+  };
+}
+
+export interface AmendmentQuoteResponse {
+  bookingId: string;
+  quote: QuoteResponse; // Book the amendment with quote.quoteId before quote.validUntil
+  changedComponents: PackageComponentType[];
+  previousTotal: number;
+  newTotal: number;
+  priceDifference: number;
+  changeFee: number;
+  amountDue: number; // Negative when the customer is owed money
+  currency: string;
+}
+
+export interface AmendBookingRequest {
+  bookingId: string;
+  quoteId: string; // From the amendment quote
+  reason?: string;
+}
+
+export interface AmendBookingResponse {
+  amendment: BookingAmendment;
+  invoice?: AmendmentInvoice; // Unset when nothing is due either way
+}
+
+export interface BookingAmendmentsResponse {
+  bookingId: string;
+  amendments: BookingAmendment[];
 }
 
 // ====================================
@@ -166,7 +334,8 @@ export interface PriceCalculationRequest {
   transferId?: string;
   checkInDate: string;
   checkOutDate: string;
-  travelers: number;
+  travelers: number; // Adults only when travelerComposition is omitted
+  travelerComposition?: TravelerComposition;
   applyMargin?: boolean;
   opaqueMask?: boolean;
 }
@@ -174,17 +343,66 @@ export interface PriceCalculationRequest {
 export interface PriceCalculationResponse {
   totalPrice: number;
   currency: string;
-  breakdown: {
-    flight?: number;
-    hotel?: number;
-    transfer?: number;
-    margin?: number;
-    tax?: number;
-  };
+  breakdown: CustomerPriceBreakdown; // Never carries net prices or margins
   appliedRules?: string[];
   validUntil: string;
 }
 
+export interface ItineraryPriceRequest {
+  itineraryId: string;
+  audience?: PricingAudience; // STAFF requires the staff API key
+}
+
+export interface QuoteRequest {
+  flightId?: string;
+  hotelId?: string;
+  roomId?: string;
+  transferId?: string;
+  checkInDate: string; // ISO 8601
+  checkOutDate: string;
+  travelers: number; // Adults only when travelerComposition is omitted
+  travelerComposition?: TravelerComposition;
+  rooms?: number;
+  currency?: string;
+  taxMode?: TaxMode;
+  category?: string;
+  packageBlueprintId?: string;
+  opaqueMask?: boolean; // Staff only; otherwise set by the blueprint, hotel and suppliers
+}
+
+export interface QuoteResponse {
+  quoteId: string;
+  status: QuoteStatus;
+  totalPrice: number;
+  currency: string;
+  breakdown: CustomerPriceBreakdown;
+  validUntil: string;
+}
+
+export type ItineraryPriceResponse = CustomerPriceBreakdown | PriceBreakdown;
+
+export interface MarginSimulationRequest {
+  // Hypothetical rules, never persisted. Omitted fields fall back to rule defaults.
+  rules: (Partial<MarginRule> & Pick<MarginRule, 'ruleName' | 'marginPercent'>)[];
+  limit?: number; // Number of most recent itineraries to replay (default 100)
+  includeActiveRules?: boolean; // Simulate on top of the active rules (default true)
+  currency?: string;
+}
+
+export type MarginSimulationResponse = MarginSimulationResult;
+
+/**
+ * An NBS exchange rate list, as exported from nbs.rs
+ */
+export interface ExchangeRateImportRequest {
+  content: string; // The CSV or XML file as text
+  format: 'CSV' | 'XML';
+  effectiveDate?: string; // ISO 8601; required when the list carries no date
+  rateType?: ExchangeRateType; // Defaults to MIDDLE
+}
+
+export type ExchangeRateImportResponse = ExchangeRateImportResult;
+
 // ====================================
 // INVOICE & PAYMENT API
 // ====================================
@@ -197,6 +415,41 @@ export interface CreateInvoiceRequest extends InvoiceCreateRequest {
 export interface CreateInvoiceResponse extends InvoiceResponse {
   pdfUrl?: string;
   xmlUrl?: string;
+  qrUrl?: string; // IPS QR code as SVG, or PNG with ?format=png
+}
+
+/**
+ * Invoice a payment received before the final invoice as an advance
+ */
+export interface AdvanceInvoiceRequest {
+  paymentId: string;
+  customerInfo?: CreateInvoiceRequest['customerInfo']; // Defaults to the booking's customer
+}
+
+export type InvoiceLedgerResponse = InvoiceLedger;
+
+/**
+ * Credit or debit note correcting an issued invoice
+ *
+ * A credit note without lines reverses everything the invoice still
+ * charges; with lines it credits those invoice lines, each in full or by
+ * the given amount. Debit notes need lines with amounts.
+ */
+export interface CreditNoteRequest {
+  invoiceId: string;
+  noteType?: CreditNoteType; // Defaults to CREDIT
+  reason?: string;
+  lines?: {
+    itemId: string; // itemId of the invoice line
+    amount?: number; // VAT included; a credit defaults to what the line still charges
+  }[];
+}
+
+export interface CreditNoteResponse {
+  success: boolean;
+  creditNoteId: string;
+  creditNoteNumber: string;
+  xmlUrl?: string;
 }
 
 export interface PaymentRequest {
@@ -221,6 +474,24 @@ export interface PaymentResponse {
   error?: string;
 }
 
+/**
+ * A payment the provider (or staff, for transfers and cash) confirmed
+ */
+export interface RecordPaymentRequest {
+  bookingId: string;
+  amount: number;
+  currency: string;
+  method: PaymentRequest['method'];
+  transactionId?: string;
+  actor?: string; // Who recorded it; "system" for provider callbacks
+}
+
+export interface RecordPaymentResponse {
+  paymentId: string;
+  paymentStatus: PaymentStatus;
+  status: BookingStatus; // PAID once the payment settled the booking
+}
+
 // ====================================
 // PACKAGE & BLUEPRINT API
 // ====================================
@@ -0,0 +1,32 @@
+/**
+ * Types for Multi-Currency Pricing and Exchange Rates
+ */
+
+export type ExchangeRateType = 'MIDDLE' | 'BUYING' | 'SELLING';
+
+export interface ExchangeRate {
+  currency: string; // Quoted currency, e.g. EUR
+  baseCurrency: string; // RSD for NBS rates
+  rate: number; // baseCurrency amount for `unit` units of currency
+  unit: number; // NBS quotes some currencies (e.g. JPY, HUF) per 100 units
+  rateType: ExchangeRateType;
+  effectiveDate: Date;
+  source: string; // NBS, MANUAL
+}
+
+/**
+ * Rate recorded on a priced document so it can always be re-derived
+ */
+export interface ExchangeRateSnapshot {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number; // 1 fromCurrency = rate toCurrency
+  rateDate: Date;
+  source: string;
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  effectiveDates: Date[];
+  currencies: string[];
+}
@@ -3,6 +3,23 @@
  * Based on SEF (Sistem E-Faktura) standards and UBL 2.1
  */
 
+import type { PackageComponentType, RefundMethod } from './package';
+import type { ExchangeRateSnapshot } from './currency';
+
+export type TaxCategory = 'S' | 'Z' | 'E'; // S=Standard, Z=Zero-rated, E=Exempt
+
+/**
+ * - STANDARD: VAT on the full sell price of every component
+ * - MARGIN_SCHEME: VAT only on the agency margin (special procedure for tour operators)
+ */
+export type TaxMode = 'STANDARD' | 'MARGIN_SCHEME';
+
+/**
+ * - PER_LINE: every line is rounded on its own and the document sums the lines
+ * - PER_DOCUMENT: the document total per rate is rounded once and then split over the lines
+ */
+export type TaxRoundingStrategy = 'PER_LINE' | 'PER_DOCUMENT';
+
 export interface InvoiceData {
   invoiceNumber: string;
   invoiceDate: Date;
@@ -15,19 +32,23 @@ export interface InvoiceData {
   
   // Customer Information (Buyer)
   buyerPib?: string;
+  buyerMaticniBroj?: string;
   buyerName: string;
   buyerAddress?: string;
   
   // Fiscal Information
-  fiscalQrCode?: string; // QR code for fiscal verification
-  cisCode?: string; // CIS payment code (Centralni Informacioni Sistem)
+  fiscalQrCode?: string; // NBS IPS QR payload the customer scans to pay
+  cisCode?: string; // Model and poziv na broj, e.g. (mod97) 0415102026000123
   
-  // Invoice Amounts
+  // Invoice Amounts (exact to the currency's minor units, see lib/money.ts)
   taxableAmount: number; // Base amount before tax
   taxAmount: number; // VAT amount (PDV)
   totalAmount: number; // Total including tax
   currency: string; // RSD (Serbian Dinar) or EUR
   
+  // Rate the VAT was reported in RSD at, for invoices in another currency
+  exchangeRate?: ExchangeRateSnapshot;
+  
   // Status
   isFiscalized: boolean;
   fiscalizedAt?: Date;
@@ -39,7 +60,96 @@ export interface InvoiceLineItem {
   quantity: number;
   unitPrice: number;
   taxRate: number; // e.g., 20 for 20% VAT
-  lineTotal: number;
+  taxCategory?: TaxCategory; // Defaults to S
+  exemptionReasonCode?: string; // SEF exemption code, required for Z and E (e.g. PDV-RS-25-1-1)
+  exemptionReason?: string; // Legal basis in words
+  lineTotal: number; // quantity * unitPrice, before tax
+  taxAmount?: number; // Filled in by calculateInvoiceTotals
+}
+
+/**
+ * VAT summed per tax category and rate (one TaxSubtotal in UBL)
+ */
+export interface TaxSubtotal {
+  taxCategory: TaxCategory;
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface InvoiceTotals {
+  lineItems: InvoiceLineItem[]; // With lineTotal and taxAmount rounded
+  taxSubtotals: TaxSubtotal[];
+  taxableAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+  taxRounding: TaxRoundingStrategy;
+}
+
+/**
+ * Invoice for the difference an amendment made to a booking
+ *
+ * SUPPLEMENTARY when the customer owes more, CORRECTIVE (negative amounts)
+ * when the amendment made the booking cheaper.
+ */
+export interface AmendmentInvoice {
+  id: string;
+  itineraryId: string;
+  amendmentId: string;
+  documentNumber: string; // DEBIT_NOTE series when supplementary, CREDIT_NOTE when corrective
+  documentType: 'SUPPLEMENTARY' | 'CORRECTIVE';
+  invoiceNumber?: string;
+  issueDate: Date;
+  lines: InvoiceLineItem[];
+  taxableAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+}
+
+/**
+ * - CREDIT: knjižno odobrenje, reduces what an invoice charged
+ * - DEBIT: knjižno zaduženje, adds to it
+ */
+export type CreditNoteType = 'CREDIT' | 'DEBIT';
+
+/**
+ * Correction of an issued invoice, which can't be changed or deleted
+ *
+ * Every cancellation refund is documented by a credit note. With
+ * refundMethod CREDIT it is also the credit the customer keeps instead of
+ * the refund being paid out. Amounts are positive for both note types.
+ */
+export interface CreditNote {
+  id: string;
+  itineraryId: string;
+  creditNoteNumber: string; // CREDIT_NOTE series, DEBIT_NOTE for debit notes
+  noteType: CreditNoteType;
+  invoiceId?: string;
+  invoiceNumber?: string; // Invoice being corrected, when one was issued
+  issueDate: Date;
+  reason?: string;
+  refundMethod?: RefundMethod; // Set when the note documents a cancellation refund
+  lines: CreditNoteLine[];
+  taxableAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  currency: string;
+  status: 'ISSUED' | 'REDEEMED';
+}
+
+export interface CreditNoteLine {
+  priceComponentId?: string;
+  invoiceItemId?: string; // itemId of the invoice line it corrects
+  componentType?: PackageComponentType | 'TAX' | 'MARGIN'; // Unset on invoice lines that aren't a price component
+  description: string;
+  amount: number; // Credited amount, tax included
+  taxCategory?: TaxCategory;
+  taxRate?: number;
+  exemptionReasonCode?: string;
+  exemptionReason?: string;
+  taxAmount: number;
 }
 
 export interface FiscalData {
@@ -47,7 +157,7 @@ export interface FiscalData {
   invoiceType: 'PROFAKTURA' | 'FAKTURA' | 'AVANSNA_FAKTURA';
   
   // Tax Details
-  taxCategory: 'S' | 'Z' | 'E'; // S=Standard, Z=Zero-rated, E=Exempt
+  taxCategory: TaxCategory;
   taxPercent: number; // 20% is standard VAT in Serbia
   
   // Payment Information
@@ -63,6 +173,115 @@ export interface FiscalData {
   contractReference?: string;
 }
 
+export type PaymentMeans = FiscalData['paymentMeans'];
+
+/**
+ * Numbering series; each counts from 1 again every fiscal year
+ * - CREDIT_NOTE: knjižno odobrenje (document reducing an invoice)
+ * - DEBIT_NOTE: knjižno zaduženje (document increasing an invoice)
+ */
+export type DocumentSeries = FiscalData['invoiceType'] | 'CREDIT_NOTE' | 'DEBIT_NOTE';
+
+export interface TaxRate {
+  id: string;
+  name: string;
+  componentType?: PackageComponentType; // Default rate for all components if unset
+  taxCategory: TaxCategory;
+  ratePercent: number; // e.g., 10 for the reduced accommodation rate
+  exemptionReason?: string; // Legal basis for Z and E categories
+  exemptionReasonCode?: string; // SEF exemption code for Z and E categories
+  validFrom: Date;
+  validTo?: Date;
+}
+
+/**
+ * What goes into one UBL 2.1 Invoice for SEF
+ */
+export interface UblInvoiceInput {
+  invoice: InvoiceData;
+  lineItems: InvoiceLineItem[];
+  fiscal: FiscalData;
+  itinerary: {
+    id: string;
+    bookingReference?: string;
+    checkInDate: Date;
+    checkOutDate: Date;
+  };
+  taxExchangeRate?: ExchangeRateSnapshot; // Invoice currency into RSD, required when invoicing in another currency
+  advances?: AdvanceDeduction[]; // Advance invoices deducted on a final invoice
+  correction?: InvoiceCorrection; // Renders a credit or debit note instead of an invoice
+}
+
+/**
+ * The invoice a credit or debit note corrects
+ */
+export interface InvoiceCorrection {
+  noteType: CreditNoteType;
+  invoiceNumber: string;
+  issueDate: Date;
+  reason?: string;
+}
+
+/**
+ * An advance invoice deducted on the final invoice
+ */
+export interface AdvanceDeduction {
+  invoiceNumber: string;
+  issueDate: Date;
+  taxSubtotals: TaxSubtotal[]; // Taxable amount and VAT already invoiced in advance
+}
+
+/**
+ * One document in an itinerary's invoice ledger
+ *
+ * Amounts are signed as they affect what the customer owes: credit notes
+ * and corrective invoices are negative.
+ */
+export interface InvoiceLedgerEntry {
+  documentId: string;
+  documentNumber: string;
+  documentType: FiscalData['invoiceType'] | AmendmentInvoice['documentType'] | 'CREDIT_NOTE' | 'DEBIT_NOTE';
+  status?: InvoiceStatus; // Invoices only
+  issueDate: Date;
+  referencedInvoiceNumber?: string; // Invoice a note corrects, or the final invoice that deducted an advance
+  paymentId?: string; // Payment an advance invoice was issued for
+  taxableAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  prepaidAmount: number; // Advances deducted on a final invoice
+  amountDue: number; // totalAmount less prepaidAmount
+  xmlUrl?: string;
+}
+
+export interface InvoiceLedger {
+  itineraryId: string;
+  bookingReference?: string;
+  currency: string;
+  entries: InvoiceLedgerEntry[]; // Oldest first
+  totals: {
+    invoiced: number; // Sum of amountDue over all documents
+    advancesInvoiced: number;
+    advancesOpen: number; // Advance invoices no final invoice has deducted yet
+    paid: number; // Approved payments less refunds
+    balance: number; // invoiced less paid
+  };
+}
+
+/**
+ * A SEF business rule or UBL schema violation
+ */
+export interface InvoiceValidationIssue {
+  rule: string; // e.g. BR-RS-PIB, or XSD for schema errors
+  message: string;
+  location?: string;
+}
+
+export interface InvoiceXmlValidation {
+  valid: boolean;
+  schemaChecked: boolean; // False when the UBL XSDs aren't installed
+  issues: InvoiceValidationIssue[];
+}
+
 export interface EFakturaCompliance {
   // UBL 2.1 Required Fields
   ublVersion: '2.1';
@@ -88,9 +307,23 @@ export interface CISPaymentData {
   // Centralni Informacioni Sistem (CIS) - Serbian payment system
   cisReference: string;
   cisModel: string; // Payment model (e.g., "97")
-  cisCallNumber: string; // Poziv na broj
+  cisCallNumber: string; // Poziv na broj, control digits first for model 97
   paymentPurpose: string;
-  recipientAccount: string;
+  recipientAccount: string; // 18 digits, e.g. 160000000012345678
+}
+
+/**
+ * Payment order encoded in an NBS IPS QR code
+ */
+export interface IpsPaymentOrder {
+  payeeAccount: string; // With or without dashes; checked by its control digits
+  payeeName: string; // Name and address, at most three lines
+  amount: number; // Dinars; IPS only pays in RSD
+  payerName?: string; // Name and address, at most three lines
+  paymentCode: string; // Šifra plaćanja, e.g. 221 for goods and services (final consumption)
+  purpose: string; // Svrha plaćanja, at most 35 characters
+  model?: string; // Defaults to 97 when a callNumber is given
+  callNumber?: string; // Poziv na broj
 }
 
 export type InvoiceStatus = 
@@ -108,10 +341,11 @@ export interface InvoiceCreateRequest {
   customerInfo: {
     name: string;
     pib?: string;
+    maticniBroj?: string;
     address?: string;
     email: string;
   };
-  lineItems: InvoiceLineItem[];
+  lineItems: InvoiceLineItem[]; // Empty to invoice the booked price components
   paymentMethod: 'CASH' | 'CARD' | 'BANK_TRANSFER' | 'CIS';
   fiscalize?: boolean; // Whether to immediately fiscalize
 }
@@ -2,6 +2,9 @@
  * Types for Travel Packages and Dynamic Packaging
  */
 
+import type { TaxCategory, TaxMode } from './invoice';
+import type { ExchangeRateSnapshot } from './currency';
+
 export interface FlightSearchParams {
   origin: string;
   destination: string;
@@ -21,10 +24,13 @@ export interface Flight {
   destination: string;
   cabinClass: string;
   availableSeats: number;
-  netPrice: number;
+  netPrice: number; // Per adult
+  validUntil?: Date; // Fare expiry; quotes never outlive it
+  childDiscountPercent?: number; // Off netPrice for children; infants fly free
   currency: string;
   duration?: number; // in minutes
   stops?: number;
+  supplierId?: string; // Supplier selling the flight
 }
 
 export interface HotelSearchParams {
@@ -51,6 +57,7 @@ export interface Hotel {
   imageUrl?: string;
   rating?: number;
   reviewCount?: number;
+  supplierId?: string; // Supplier selling the hotel
 }
 
 export interface Room {
@@ -58,12 +65,46 @@ export interface Room {
   hotelId: string;
   roomType: string;
   bedCount: number;
-  maxOccupancy: number;
+  maxOccupancy: number; // Regular beds; infants in a cot don't count
   amenities: string[];
   pricePerNight: number;
+  maxExtraBeds?: number;
+  extraBedPrice?: number; // Per extra bed per night
   currency: string;
   available: boolean;
   images?: string[];
+  rates?: RoomRate[]; // Rate calendar; pricePerNight applies to nights no rate covers
+}
+
+/**
+ * Price and restrictions of a room for a date range
+ */
+export interface RoomRate {
+  id: string;
+  roomId: string;
+  name?: string;
+  startDate: Date; // First night
+  endDate: Date; // Last night (inclusive)
+  pricePerNight: number;
+  currency: string;
+  minStayNights?: number; // Checked against the rate of the arrival night
+  closedToArrival: boolean;
+  closedArrivalWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
+  weekendSupplement?: number; // Per room per night
+  weekendDays: number[]; // Weekdays of the nights that count as weekend
+  priority: number;
+}
+
+/**
+ * Price of one night of a stay
+ */
+export interface NightlyRate {
+  date: Date;
+  pricePerNight: number;
+  weekendSupplement: number;
+  total: number; // pricePerNight + weekendSupplement
+  rateId?: string; // Unset when the room's base price applies
+  rateName?: string;
 }
 
 export interface Transfer {
@@ -74,11 +115,26 @@ export interface Transfer {
   destination: string;
   capacity: number;
   pricePerPerson: number;
+  pricePerVehicle?: number; // PRIVATE only; defaults to pricePerPerson * capacity
+  childDiscountPercent?: number; // Off pricePerPerson for children; infants ride free
   currency: string;
   available: boolean;
   duration?: number; // in minutes
+  supplierId?: string; // Supplier operating the transfer
+}
+
+/**
+ * Who is travelling. Children are priced by their age at check-in
+ * (2-11, older children pay as adults); infants are under 2.
+ */
+export interface TravelerComposition {
+  adults: number;
+  childAges: number[];
+  infants: number;
 }
 
+export type PassengerType = 'ADULT' | 'CHILD' | 'INFANT';
+
 export interface PackageBlueprint {
   id: string;
   name: string;
@@ -102,31 +158,192 @@ export interface Itinerary {
   flight?: Flight;
   hotel?: Hotel;
   room?: Room;
+  rooms?: number;
   transfer?: Transfer;
   
   checkInDate: Date;
   checkOutDate: Date;
-  travelers: number;
+  travelers: number; // Total, including children and infants
+  travelerComposition?: TravelerComposition;
   
   totalPrice: number;
   currency: string;
   opaqueMask: boolean;
   
-  status: 'DRAFT' | 'CONFIRMED' | 'PAID' | 'CANCELLED';
+  status: BookingStatus;
   bookingReference?: string;
+  packageBlueprintId?: string; // Blueprint the itinerary was built from
   
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type PackageComponentType = 'FLIGHT' | 'HOTEL' | 'TRANSFER';
+
+/**
+ * Booking lifecycle, enforced by lib/booking-state-machine.ts
+ */
+export type BookingStatus = 'DRAFT' | 'PENDING' | 'CONFIRMED' | 'PAID' | 'CANCELLED' | 'COMPLETED';
+
+export type PaymentStatus = 'UNPAID' | 'PARTIALLY_PAID' | 'PAID' | 'REFUNDED';
+
+/**
+ * Where a booking was made; picks the booking reference prefix
+ */
+export type BookingChannel = 'WEB' | 'MOBILE' | 'API';
+
+export interface BookingStatusChange {
+  id: string;
+  itineraryId: string;
+  fromStatus?: BookingStatus;
+  toStatus: BookingStatus;
+  actor: string;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export type InventoryHoldStatus = 'HELD' | 'CONFIRMED' | 'RELEASED' | 'EXPIRED';
+
+/**
+ * Flight seats and room nights taken out of inventory for one package
+ */
+export interface InventoryHold {
+  id: string;
+  status: InventoryHoldStatus;
+  expiresAt: Date;
+  flightId?: string;
+  seats: number;
+  roomId?: string;
+  rooms: number;
+  checkInDate: Date;
+  checkOutDate: Date;
+  quoteId?: string;
+  itineraryId?: string;
+  createdAt: Date;
+}
+
+export type RefundMethod = 'ORIGINAL' | 'CREDIT' | 'NONE';
+
+/**
+ * Penalty for cancelling at least `minDaysBefore` days before check-in
+ */
+export interface CancellationPenaltyTier {
+  minDaysBefore: number;
+  penaltyPercent: number; // Of the component price, e.g., 25 for 25%
+  penaltyFixed: number; // In the policy currency
+}
+
+/**
+ * Cancellation terms of a supplier, room or package blueprint
+ *
+ * Cancelling closer to check-in than the lowest tier forfeits the full price.
+ */
+export interface CancellationPolicy {
+  id: string;
+  name: string;
+  supplierId?: string;
+  roomId?: string;
+  packageBlueprintId?: string;
+  componentType?: PackageComponentType; // Only this component (every component in scope if unset)
+  nonRefundable: boolean; // Also can't be amended
+  tiers: CancellationPenaltyTier[];
+  changeFee: number; // Per amended component, in the policy currency
+  currency: string;
+  priority: number;
+}
+
+/**
+ * What cancelling does to one booked price component
+ */
+export interface ComponentRefund {
+  priceComponentId?: string;
+  componentType: PriceComponent['componentType'];
+  totalPrice: number;
+  cancellationFee: number;
+  refundable: number;
+  nonRefundable: boolean;
+  policyId?: string; // Unset when no policy covers the component (free cancellation)
+  policyName?: string;
+  tier?: CancellationPenaltyTier;
+}
+
+export interface CancellationQuote {
+  bookingId: string;
+  bookingReference?: string;
+  cancelledAt: Date;
+  daysBeforeCheckIn: number;
+  components: ComponentRefund[];
+  cancellationFee: number;
+  changeFees: number; // Charged by amendments; not refunded
+  paidAmount: number;
+  refundAmount: number; // What was paid minus the fees, never below zero
+  currency: string;
+  refundMethod: RefundMethod;
+  opaqueMask: boolean; // Customers see one package line instead of the components
+}
+
+/**
+ * Requested change to a booked itinerary; omitted fields stay as booked
+ */
+export interface ItineraryChange {
+  checkInDate?: Date;
+  checkOutDate?: Date;
+  travelers?: TravelerComposition;
+  flightId?: string | null; // null drops the component
+  hotelId?: string | null;
+  roomId?: string | null;
+  rooms?: number;
+  transferId?: string | null;
+}
+
+/**
+ * Price of an amendment, locked by a quote for the changed itinerary
+ */
+export interface AmendmentQuote {
+  bookingId: string;
+  quote: Quote;
+  changedComponents: PackageComponentType[];
+  previousTotal: number;
+  newTotal: number;
+  priceDifference: number; // newTotal - previousTotal
+  changeFee: number;
+  amountDue: number; // priceDifference + changeFee; negative is owed to the customer
+  currency: string;
+}
+
+export interface BookingAmendment {
+  id: string;
+  itineraryId: string;
+  quoteId?: string;
+  previousVersion: number;
+  priceVersion: number;
+  selection: QuoteSelection; // Itinerary after the amendment
+  changedComponents: PackageComponentType[];
+  previousTotal: number;
+  newTotal: number;
+  changeFee: number;
+  amountDue: number;
+  currency: string;
+  actor: string;
+  reason?: string;
+  createdAt: Date;
+}
+
 export interface PriceComponent {
   id: string;
-  componentType: 'FLIGHT' | 'HOTEL' | 'TRANSFER' | 'TAX' | 'MARGIN';
+  componentType: PackageComponentType | 'TAX' | 'MARGIN';
   netPrice: number;
   marginAmount: number;
   taxAmount: number;
   totalPrice: number;
   currency: string;
+  taxCategory?: TaxCategory;
+  taxRate?: number; // Percent, e.g., 20 for 20% VAT
+  originalNetPrice?: number; // Supplier price before conversion into `currency`
+  originalCurrency?: string;
+  exchangeRate?: ExchangeRateSnapshot;
+  priceLines?: ComponentPriceLine[]; // Per passenger type, room night, extra bed or vehicle
 }
 
 export interface PriceBreakdown {
@@ -138,26 +355,112 @@ export interface PriceBreakdown {
   currency: string;
 }
 
+/**
+ * Who a price breakdown is shown to
+ * - CUSTOMER: sell prices only; opaque packages show one package price
+ * - STAFF: full breakdown including net prices and margins
+ */
+export type PricingAudience = 'CUSTOMER' | 'STAFF';
+
+export interface CustomerPriceLine {
+  label: PackageComponentType | 'PACKAGE';
+  totalPrice: number; // Sell price including VAT
+}
+
+/**
+ * Customer-facing breakdown. Built field by field from the internal one, so
+ * it never carries net prices, margins or supplier prices.
+ */
+export interface CustomerPriceBreakdown {
+  opaque: boolean;
+  lines: CustomerPriceLine[]; // A single PACKAGE line when opaque
+  grandTotal: number;
+  currency: string;
+  taxIncluded: true;
+}
+
+/**
+ * How a component's net price was derived from its supplier price
+ */
+export interface ComponentPriceLine {
+  componentType: PackageComponentType;
+  unit: 'PASSENGER' | 'ROOM_NIGHT' | 'EXTRA_BED_NIGHT' | 'PERSON' | 'VEHICLE';
+  passengerType?: PassengerType; // PASSENGER and PERSON lines only
+  date?: Date; // ROOM_NIGHT lines are priced night by night
+  rateName?: string;
+  weekendSupplement?: number; // Per unit, included in unitPrice
+  unitPrice: number;
+  quantity: number; // Passengers, rooms, extra beds * nights, travelers or vehicles
+  netPrice: number;
+  currency: string;
+}
+
+export interface ComponentPricing {
+  lines: ComponentPriceLine[];
+  nights: number;
+  roomsNeeded?: number;
+  extraBeds?: number;
+  vehiclesNeeded?: number;
+}
+
+/**
+ * How a margin rule combines with the margin accumulated by higher priority rules
+ * - STACK: adds its margin to the running total
+ * - OVERRIDE: replaces the running total (and drops earlier contributions)
+ * - MAX: raises the running total to its margin if higher
+ * - MIN: caps the running total at its margin
+ */
+export type MarginCombinationMode = 'STACK' | 'OVERRIDE' | 'MAX' | 'MIN';
+
 export interface MarginRule {
   id: string;
   ruleName: string;
   description?: string;
-  bookingDaysAdvance?: number;
+  bookingDaysAdvance?: number; // Legacy upper bound, same as maxDaysAdvance
+  minDaysAdvance?: number;
+  maxDaysAdvance?: number;
+  minStayNights?: number;
+  maxStayNights?: number;
+  minTravelers?: number;
+  maxTravelers?: number;
+  destinationCountry?: string;
+  departureWeekdays?: number[]; // 0 = Sunday ... 6 = Saturday
   seasonType?: string;
   packageCategory?: string;
+  componentType?: PackageComponentType; // Only margin this component (whole package if unset)
   marginPercent: number;
   marginFixed: number;
+  combinationMode: MarginCombinationMode;
+  stopProcessing: boolean; // Skip lower priority rules once this one is applied
   isActive: boolean;
   priority: number;
 }
 
+/**
+ * Facts about a package that margin rule conditions are evaluated against
+ */
+export interface MarginRuleContext {
+  daysAdvance: number;
+  stayNights?: number;
+  travelers?: number;
+  destinationCountry?: string;
+  departureWeekday?: number; // 0 = Sunday ... 6 = Saturday
+  seasonType?: string;
+  category?: string;
+}
+
+export interface AppliedMarginRule extends MarginRule {
+  marginAmount: number; // Amount this rule added to (or removed from) the total margin
+}
+
 export interface PackageSearchRequest {
   destination?: string;
   dates?: {
     checkIn: Date;
     checkOut: Date;
   };
-  travelers?: number;
+  travelers?: number; // Adults only when travelerComposition is omitted
+  travelerComposition?: TravelerComposition;
   category?: string;
   budget?: {
     min?: number;
@@ -185,23 +488,111 @@ export interface PackageBuilderState {
     checkIn: Date;
     checkOut: Date;
   };
-  travelers: number;
+  travelers: TravelerComposition;
+  opaqueMask: boolean; // Hide component prices, show the package price only
   step: 'FLIGHT' | 'HOTEL' | 'ROOM' | 'TRANSFER' | 'REVIEW';
+  hold?: { holdId: string; expiresAt: Date }; // Placed on reaching REVIEW
 }
 
 export interface PackageCalculation {
   basePrice: number;
   margin: number;
   tax: number;
+  taxMode: TaxMode;
   totalPrice: number;
   currency: string;
   breakdown: PriceBreakdown;
-  appliedRules: MarginRule[];
+  appliedRules: AppliedMarginRule[];
   opaqueMask: boolean;
+  componentPricing?: ComponentPricing; // Set when priced from the actual components
+}
+
+export interface SimulatedPricePoint {
+  totalPrice: number;
+  margin: number;
+  pricePerTraveler: number; // Largest of the even shares of totalPrice
+}
+
+export interface ItineraryPriceSimulation {
+  itineraryId: string;
+  bookingReference?: string;
+  status: string;
+  travelers: number;
+  current: SimulatedPricePoint;
+  simulated: SimulatedPricePoint;
+  totalPriceDelta: number;
+  marginDelta: number;
+  percentChange: number; // Change of totalPrice in percent
+  appliedRules: string[]; // Names of the rules applied in the simulation
+}
+
+export interface MarginSimulationSummary {
+  itineraryCount: number;
+  currency: string;
+  currentRevenue: number;
+  simulatedRevenue: number;
+  revenueDelta: number;
+  currentMargin: number;
+  simulatedMargin: number;
+  marginDelta: number;
+  averagePercentChange: number;
+  increased: number;
+  decreased: number;
+  unchanged: number;
+}
+
+export interface MarginSimulationResult {
+  itineraries: ItineraryPriceSimulation[];
+  summary: MarginSimulationSummary;
+}
+
+export type QuoteStatus = 'ACTIVE' | 'BOOKED' | 'EXPIRED';
+
+/**
+ * What a quote prices, by reference, so it can be re-priced after expiry
+ */
+export interface QuoteSelection {
+  flightId?: string;
+  hotelId?: string;
+  roomId?: string;
+  transferId?: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  travelers: TravelerComposition;
+  rooms?: number;
+  packageBlueprintId?: string;
+}
+
+export interface QuoteOptions {
+  currency: string;
+  taxMode: TaxMode;
+  opaqueMask: boolean;
+  category?: string;
+  seasonType?: string;
+  destinationCountry?: string;
+}
+
+/**
+ * A price locked until validUntil
+ */
+export interface Quote {
+  id: string;
+  selection: QuoteSelection;
+  options: QuoteOptions;
+  calculation: PackageCalculation;
+  totalPrice: number;
+  currency: string;
+  validUntil: Date;
+  status: QuoteStatus;
+  repricedFromId?: string;
+  itineraryId?: string;
+  createdAt: Date;
 }
 
 export interface BookingRequest {
-  itinerary: Partial<Itinerary>;
+  quoteId?: string; // Book at the quoted price; re-priced if the quote expired
+  holdId?: string; // Inventory hold placed at review; one is placed while booking otherwise
+  itinerary?: Partial<Itinerary>; // Required without a quoteId; carries travelerComposition for parties with children or infants
   customer: {
     name: string;
     email: string;
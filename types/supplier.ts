@@ -0,0 +1,113 @@
+/**
+ * Types for Supplier Integrations (GDS, hotel aggregators, local contracts)
+ */
+
+import type {
+  Flight,
+  FlightSearchParams,
+  Hotel,
+  HotelSearchParams,
+  PackageComponentType,
+  Room,
+  Transfer,
+  TravelerComposition,
+} from './package';
+
+/**
+ * Supplier.type; picks the adapter that talks to the supplier
+ */
+export type SupplierType = 'GDS' | 'Hotel_Aggregator' | 'Local';
+
+export type SupplierErrorCode =
+  | 'NOT_SUPPORTED' // No adapter for the supplier type, or an operation it doesn't offer
+  | 'NOT_FOUND' // Unknown item or supplier reference
+  | 'UNAVAILABLE' // Sold out or closed for the dates
+  | 'REJECTED' // The supplier refused the request
+  | 'UNREACHABLE'; // Network, timeout or a broken contract file
+
+export interface SupplierConfig {
+  id: string;
+  name: string; // Amadeus, Hotelbeds, LocalContract
+  type: SupplierType;
+  apiUrl?: string; // LocalContract: path of the contract file
+  apiKey?: string;
+}
+
+export interface TransferSearchParams {
+  origin: string;
+  destination: string;
+  date: Date;
+  passengers: number;
+}
+
+/**
+ * A hotel as a supplier sells it, with the rooms left for the searched stay
+ */
+export type SupplierHotel = Hotel & { availableRooms: Room[] };
+
+/**
+ * One flight, room or transfer, identified by the supplier's own ID
+ */
+export interface SupplierItem {
+  componentType: PackageComponentType;
+  itemId: string; // Room ID for HOTEL
+  checkInDate: Date; // Departure date for FLIGHT and TRANSFER
+  checkOutDate?: Date; // HOTEL only
+  quantity: number; // Seats, rooms or passengers
+}
+
+export interface SupplierAvailability {
+  available: boolean;
+  remaining?: number; // Seats or rooms left, when the supplier says
+  netPrice?: number; // Current net price for the quantity asked, when it is sold by unit
+  currency?: string;
+}
+
+export interface SupplierBookingRequest {
+  reference: string; // Our booking reference, quoted back by the supplier
+  items: SupplierItem[];
+  leadTraveler: { name: string; email: string };
+  travelers: TravelerComposition;
+}
+
+export interface SupplierBooking {
+  supplierReference: string; // The supplier's confirmation number
+  status: 'CONFIRMED' | 'PENDING';
+  netPrice: number;
+  currency: string;
+}
+
+export interface SupplierCancellation {
+  supplierReference: string;
+  status: 'CANCELLED' | 'PENDING';
+  cancellationFee: number;
+  currency: string;
+}
+
+/**
+ * What every supplier integration implements
+ *
+ * Results are normalised to our Flight/Hotel/Room/Transfer types, with the
+ * supplier's own IDs and supplierId set, so the rest of the platform never
+ * sees a supplier's wire format.
+ */
+export interface SupplierAdapter {
+  readonly supplier: SupplierConfig;
+
+  searchFlights(params: FlightSearchParams): Promise<Flight[]>;
+  searchHotels(params: HotelSearchParams): Promise<SupplierHotel[]>;
+  searchTransfers(params: TransferSearchParams): Promise<Transfer[]>;
+  checkAvailability(item: SupplierItem): Promise<SupplierAvailability>;
+  book(request: SupplierBookingRequest): Promise<SupplierBooking>;
+  cancel(supplierReference: string): Promise<SupplierCancellation>;
+}
+
+/**
+ * A supplier left out of a search result, and why
+ */
+export interface SupplierFailure {
+  supplierId: string;
+  supplierName: string;
+  code: SupplierErrorCode | 'TIMEOUT'; // TIMEOUT: no answer within the search timeout
+  message: string;
+}